@@ -0,0 +1,92 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, externalEuint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IConfidentialToken } from "./IConfidentialToken.sol";
+
+// Minimal ERC-7984 style token for local deployments and tests. Anyone can mint.
+contract ConfidentialTokenMock is IConfidentialToken, SepoliaConfig {
+    using FHE for euint64;
+
+    string public name;
+    string public symbol;
+    uint8 public constant decimals = 6;
+
+    mapping(address => euint64) private _balances;
+    mapping(address => mapping(address => uint48)) private _operators;
+
+    error UnauthorizedSpender(address holder, address spender);
+    error UnauthorizedHandle(euint64 amount, address account);
+    error InvalidAddress();
+
+    constructor(string memory name_, string memory symbol_) {
+        name = name_;
+        symbol = symbol_;
+    }
+
+    function mint(address to, uint64 amount) public {
+        if (to == address(0)) revert InvalidAddress();
+        euint64 balance = _balances[to];
+        balance = FHE.isInitialized(balance) ? balance.add(amount) : FHE.asEuint64(amount);
+        _setBalance(to, balance);
+        emit ConfidentialTransfer(address(0), to, FHE.asEuint64(amount));
+    }
+
+    function confidentialBalanceOf(address account) public view returns (euint64) {
+        return _balances[account];
+    }
+
+    function isOperator(address holder, address spender) public view returns (bool) {
+        return holder == spender || block.timestamp <= _operators[holder][spender];
+    }
+
+    function setOperator(address operator, uint48 until) public {
+        _operators[msg.sender][operator] = until;
+        emit OperatorSet(msg.sender, operator, until);
+    }
+
+    function confidentialTransfer(address to, euint64 amount) public returns (euint64 transferred) {
+        if (!FHE.isSenderAllowed(amount)) revert UnauthorizedHandle(amount, msg.sender);
+        transferred = _transfer(msg.sender, to, amount);
+    }
+
+    function confidentialTransfer(
+        address to,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) public returns (euint64 transferred) {
+        transferred = _transfer(msg.sender, to, FHE.fromExternal(encryptedAmount, inputProof));
+    }
+
+    function confidentialTransferFrom(address from, address to, euint64 amount) public returns (euint64 transferred) {
+        if (!FHE.isSenderAllowed(amount)) revert UnauthorizedHandle(amount, msg.sender);
+        if (!isOperator(from, msg.sender)) revert UnauthorizedSpender(from, msg.sender);
+        transferred = _transfer(from, to, amount);
+    }
+
+    function _transfer(address from, address to, euint64 amount) internal returns (euint64 transferred) {
+        if (to == address(0)) revert InvalidAddress();
+        euint64 fromBalance = _balances[from];
+        if (!FHE.isInitialized(fromBalance)) fromBalance = FHE.asEuint64(0);
+        euint64 toBalance = _balances[to];
+        if (!FHE.isInitialized(toBalance)) toBalance = FHE.asEuint64(0);
+
+        // Insufficient balances move nothing instead of reverting, so the outcome stays private.
+        ebool sufficient = fromBalance.ge(amount);
+        transferred = FHE.select(sufficient, amount, FHE.asEuint64(0));
+        _setBalance(from, fromBalance.sub(transferred));
+        _setBalance(to, toBalance.add(transferred));
+
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, from);
+        FHE.allow(transferred, to);
+        FHE.allowTransient(transferred, msg.sender);
+        emit ConfidentialTransfer(from, to, transferred);
+    }
+
+    function _setBalance(address account, euint64 balance) internal {
+        _balances[account] = balance;
+        FHE.allowThis(balance);
+        FHE.allow(balance, account);
+    }
+}
@@ -0,0 +1,23 @@
+pragma solidity ^0.8.24;
+
+import { euint64 } from "@fhevm/solidity/lib/FHE.sol";
+
+// Subset of the ERC-7984 confidential token interface used to escrow batch contributions.
+interface IConfidentialToken {
+    event OperatorSet(address indexed holder, address indexed operator, uint48 until);
+    event ConfidentialTransfer(address indexed from, address indexed to, euint64 indexed amount);
+
+    // Amounts are encrypted in base units; frontends scale user input by this.
+    function decimals() external view returns (uint8);
+
+    function confidentialBalanceOf(address account) external view returns (euint64);
+
+    function isOperator(address holder, address spender) external view returns (bool);
+
+    function setOperator(address operator, uint48 until) external;
+
+    // Both transfers move nothing (and return an encrypted 0) when the sender's balance is too low.
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64 transferred);
+
+    function confidentialTransferFrom(address from, address to, euint64 amount) external returns (euint64 transferred);
+}
@@ -0,0 +1,9 @@
+pragma solidity ^0.8.24;
+
+// What ReFiInfraDAOFHE needs from the staking contract to gate provider registration and usage reports.
+interface IProviderStaking {
+    function isStaked(address provider) external view returns (bool);
+
+    // Called on a provider's first usage report into a batch, so its stake stays locked while that usage can be challenged.
+    function recordUsage(address provider, uint256 batchId) external;
+}
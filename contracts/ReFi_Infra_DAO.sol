@@ -1,23 +1,107 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint64, externalEuint64, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IConfidentialToken } from "./IConfidentialToken.sol";
+import { IProviderStaking } from "./IProviderStaking.sol";
 
 contract ReFiInfraDAOFHE is SepoliaConfig {
-    using FHE for euint32;
+    using FHE for euint64;
     using FHE for ebool;
 
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    bytes32 public constant BATCH_MANAGER_ROLE = keccak256("BATCH_MANAGER_ROLE");
+    bytes32 public constant PROVIDER_ROLE = keccak256("PROVIDER_ROLE");
+    bytes32 public constant AUDITOR_ROLE = keccak256("AUDITOR_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant VOTER_ROLE = keccak256("VOTER_ROLE"); // Members who may vote on governor proposals
+    // Each reading's overflow-checked add costs about 363k HCU of sequential FHE depth, and a transaction may use 5M.
+    uint256 public constant MAX_READINGS_PER_REPORT = 13;
+
+    IConfidentialToken public immutable contributionToken;
     address public owner;
-    mapping(address => bool) public isProvider;
+    address public pendingOwner;
+    address public revenueDistributor;
+    IProviderStaking public providerStaking; // Unset means providers need no stake
+    address public deviceRegistry;
+    mapping(bytes32 => mapping(address => bool)) private _hasRole;
+    mapping(bytes32 => address[]) private _roleMembers;
+    mapping(bytes32 => mapping(address => uint256)) private _roleMemberIndex; // 1-based, 0 = not a member
     bool public paused;
     uint256 public cooldownSeconds;
+    uint256 public decryptionTimeout;
+    uint256 public minContributorsForSummary;
+    uint256 public minProvidersForSummary;
     mapping(address => uint256) public lastSubmissionTime;
     mapping(address => uint256) public lastDecryptionRequestTime;
 
-    uint256 public currentBatchId;
-    mapping(uint256 => bool) public isBatchOpen;
-    mapping(uint256 => euint32) public totalContributionsEncrypted;
-    mapping(uint256 => euint32) public totalUsageEncrypted;
+    struct Project {
+        uint256 id;
+        address creator;
+        address treasury; // Receives a batch's escrowed contributions once its funding target is met
+        string title;
+        string category;
+        bytes32 metadataHash;
+        uint256 createdAt;
+    }
+    uint256 public projectCount;
+    mapping(uint256 => Project) private _projects;
+    mapping(uint256 => uint256[]) private _projectBatches;
+
+    enum BatchStatus {
+        Open,
+        Closed,
+        Decrypting,
+        Finalized,
+        Cancelled
+    }
+
+    struct Batch {
+        uint256 id;
+        uint256 projectId;
+        BatchStatus status;
+        uint256 openedAt;
+        uint256 startTime;
+        uint256 endTime;
+        uint256 closedAt;
+        uint256 decryptionRequestId;
+        uint256 decryptionRequestedAt;
+        uint256 contributorCount; // Every address that submitted, including ones that escrowed nothing
+        uint256 providerCount;
+        euint64 totalContributions;
+        euint64 totalUsage;
+        euint64 fundingTarget;
+        ebool overflowed; // Set once any submission would have wrapped an accumulator; that submission is dropped
+        ebool fundingCheck;
+        uint256 fundingCheckRequestedAt;
+        bool fundingChecked;
+        bool fundingGoalMet;
+        bool fundsReleased;
+        uint64 noiseBound; // Power of two; summary totals get uniform noise in [0, noiseBound), 0 disables
+        euint64 noisedContributions;
+        euint64 noisedUsage;
+        euint64 fundedContributors; // Contributors whose escrowed balance is non-zero
+        ebool summaryReleasable; // fundedContributors met the threshold when the summary was last requested
+        euint64 releasedContributions; // The (noised) totals if summaryReleasable, otherwise 0
+        euint64 releasedUsage;
+    }
+    uint256 public batchCount;
+    mapping(uint256 => Batch) private _batches;
+
+    struct BatchSummary {
+        uint256 requestId;
+        uint256 totalContributions;
+        uint256 totalUsage;
+        bool overflowed;
+        uint64 noiseBound; // Non-zero when the totals above include random noise below this bound
+        uint256 decryptedAt;
+    }
+    mapping(uint256 => BatchSummary) private _batchSummaries;
+    mapping(uint256 => mapping(address => euint64)) public contributionOf;
+    mapping(address => uint256[]) private _contributedBatches;
+    mapping(uint256 => mapping(address => euint64)) public usageOf; // Readable by the provider and auditors who request access
+    mapping(uint256 => address[]) private _batchProviders;
+    mapping(uint256 => mapping(address => bool)) public hasReportedUsage;
 
     struct DecryptionContext {
         uint256 batchId;
@@ -25,36 +109,93 @@ contract ReFiInfraDAOFHE is SepoliaConfig {
         bool processed;
     }
     mapping(uint256 => DecryptionContext) public decryptionContexts;
+    mapping(uint256 => DecryptionContext) public fundingCheckContexts;
 
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
     event ProviderAdded(address indexed provider);
     event ProviderRemoved(address indexed provider);
     event Paused(address account);
     event Unpaused(address account);
     event CooldownSecondsUpdated(uint256 oldCooldownSeconds, uint256 newCooldownSeconds);
-    event BatchOpened(uint256 indexed batchId);
+    event RevenueDistributorUpdated(address indexed oldDistributor, address indexed newDistributor);
+    event ProviderStakingUpdated(address indexed oldStaking, address indexed newStaking);
+    event DeviceRegistryUpdated(address indexed oldRegistry, address indexed newRegistry);
+    event DecryptionTimeoutUpdated(uint256 oldDecryptionTimeout, uint256 newDecryptionTimeout);
+    event AnonymityThresholdsUpdated(uint256 minContributors, uint256 minProviders);
+    event ProjectCreated(
+        uint256 indexed projectId,
+        address indexed creator,
+        address indexed treasury,
+        string title,
+        string category,
+        bytes32 metadataHash
+    );
+    event BatchOpened(uint256 indexed batchId, uint256 indexed projectId, uint256 startTime, uint256 endTime);
     event BatchClosed(uint256 indexed batchId);
-    event ContributionSubmitted(address indexed contributor, uint256 indexed batchId, uint256 encryptedAmount);
-    event UsageReported(address indexed provider, uint256 indexed batchId, uint256 encryptedUsage);
+    event BatchCancelled(uint256 indexed batchId);
+    event BatchNoiseConfigured(uint256 indexed batchId, uint64 noiseBound);
+    event ContributionSubmitted(address indexed contributor, uint256 indexed batchId, bytes32 encryptedAmount);
+    event UsageReported(address indexed provider, uint256 indexed batchId, bytes32 encryptedUsage);
+    event UsageAccessGranted(uint256 indexed batchId, address indexed provider, address indexed grantee);
+    event DeviceUsageReported(address indexed provider, uint256 indexed batchId, address indexed device, bytes32 encryptedUsage);
     event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId);
-    event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 totalContributions, uint256 totalUsage);
+    event SummaryWithheld(uint256 indexed batchId, uint256 contributorCount, uint256 providerCount);
+    event DecryptionSuperseded(uint256 indexed previousRequestId, uint256 indexed requestId, uint256 indexed batchId);
+    event DecryptionCompleted(
+        uint256 indexed requestId,
+        uint256 indexed batchId,
+        uint256 totalContributions,
+        uint256 totalUsage,
+        bool overflowed
+    );
+    event FundingCheckRequested(uint256 indexed requestId, uint256 indexed batchId);
+    event FundingCheckCompleted(uint256 indexed requestId, uint256 indexed batchId, bool goalMet);
+    event FundsReleased(uint256 indexed batchId, uint256 indexed projectId, address indexed treasury, bytes32 encryptedAmount);
+    event RefundClaimed(address indexed contributor, uint256 indexed batchId, bytes32 encryptedAmount);
 
     error NotOwner();
-    error NotProvider();
+    error NotPendingOwner();
+    error MissingRole(bytes32 role, address account);
+    error InvalidAddress();
     error PausedError();
     error CooldownActive();
     error BatchNotOpen();
+    error BatchNotClosed();
+    error InvalidBatchStatus();
+    error InvalidBatchWindow();
+    error InvalidReadings();
+    error InvalidNoiseBound();
+    error NoiseAlreadyDrawn();
+    error OutsideBatchWindow();
+    error BatchWindowNotEnded();
+    error DecryptionPending();
+    error DecryptionSupersededError();
+    error SummaryNotAvailable();
+    error AnonymityThresholdNotMet();
     error ReplayDetected();
     error StateMismatch();
     error InvalidBatchId();
+    error InvalidProjectId();
+    error NotRevenueDistributor();
+    error StakeRequired();
+    error NotDeviceRegistry();
+    error FundsAlreadyReleased();
+    error FundingAlreadyChecked();
+    error FundingGoalNotMet();
+    error RefundNotAvailable();
+    error NothingToRefund();
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
         _;
     }
 
-    modifier onlyProvider() {
-        if (!isProvider[msg.sender]) revert NotProvider();
+    // The owner implicitly holds every role, so ownership alone is enough to recover from revoked delegates.
+    modifier onlyRole(bytes32 role) {
+        if (msg.sender != owner && !_hasRole[role][msg.sender]) revert MissingRole(role, msg.sender);
         _;
     }
 
@@ -63,40 +204,74 @@ contract ReFiInfraDAOFHE is SepoliaConfig {
         _;
     }
 
-    constructor() {
+    constructor(IConfidentialToken contributionToken_) {
+        if (address(contributionToken_) == address(0)) revert InvalidAddress();
+        contributionToken = contributionToken_;
         owner = msg.sender;
-        isProvider[owner] = true;
-        emit ProviderAdded(owner);
-        currentBatchId = 1;
+        _grantRole(ADMIN_ROLE, owner); // Keeps the deployer an admin after ownership moves to the governor
+        _grantRole(PROVIDER_ROLE, owner);
         cooldownSeconds = 60; // Default 1 minute cooldown
+        decryptionTimeout = 1 days; // Default wait before a stalled decryption can be re-requested
+        minContributorsForSummary = 3; // Below this a summary would expose individual amounts
+        minProvidersForSummary = 2;
     }
 
     function transferOwnership(address newOwner) public onlyOwner {
+        if (newOwner == address(0)) revert InvalidAddress();
+        pendingOwner = newOwner;
+        emit OwnershipTransferStarted(owner, newOwner);
+    }
+
+    function acceptOwnership() public {
+        if (msg.sender != pendingOwner) revert NotPendingOwner();
         address oldOwner = owner;
-        owner = newOwner;
-        emit OwnershipTransferred(oldOwner, newOwner);
+        owner = pendingOwner;
+        pendingOwner = address(0);
+        emit OwnershipTransferred(oldOwner, owner);
+    }
+
+    // Admin, pauser, provider and voter membership only change through the owner (the governor's timelock), never
+    // directly by an admin: otherwise one admin could make itself pauser to stall votes, or mint voters to swing them.
+    function grantRole(bytes32 role, address account) public onlyRole(ADMIN_ROLE) {
+        _requireOwnerForTimelockedRole(role);
+        _grantRole(role, account);
+    }
+
+    function revokeRole(bytes32 role, address account) public onlyRole(ADMIN_ROLE) {
+        _requireOwnerForTimelockedRole(role);
+        _revokeRole(role, account);
+    }
+
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return _hasRole[role][account];
+    }
+
+    function getRoleMemberCount(bytes32 role) public view returns (uint256) {
+        return _roleMembers[role].length;
+    }
+
+    function getRoleMembers(bytes32 role) public view returns (address[] memory) {
+        return _roleMembers[role];
     }
 
     function addProvider(address provider) public onlyOwner {
-        if (!isProvider[provider]) {
-            isProvider[provider] = true;
-            emit ProviderAdded(provider);
-        }
+        _grantRole(PROVIDER_ROLE, provider);
     }
 
     function removeProvider(address provider) public onlyOwner {
-        if (isProvider[provider]) {
-            isProvider[provider] = false;
-            emit ProviderRemoved(provider);
-        }
+        _revokeRole(PROVIDER_ROLE, provider);
     }
 
-    function pause() public onlyOwner whenNotPaused {
+    function isProvider(address account) public view returns (bool) {
+        return _hasRole[PROVIDER_ROLE][account];
+    }
+
+    function pause() public onlyRole(PAUSER_ROLE) whenNotPaused {
         paused = true;
         emit Paused(msg.sender);
     }
 
-    function unpause() public onlyOwner {
+    function unpause() public onlyRole(PAUSER_ROLE) {
         if (!paused) revert PausedError(); // Cannot unpause if not paused
         paused = false;
         emit Unpaused(msg.sender);
@@ -108,68 +283,299 @@ contract ReFiInfraDAOFHE is SepoliaConfig {
         emit CooldownSecondsUpdated(oldCooldownSeconds, newCooldownSeconds);
     }
 
-    function openBatch() public onlyOwner whenNotPaused {
-        currentBatchId++;
-        isBatchOpen[currentBatchId] = true;
-        totalContributionsEncrypted[currentBatchId] = FHE.asEuint32(0);
-        totalUsageEncrypted[currentBatchId] = FHE.asEuint32(0);
-        emit BatchOpened(currentBatchId);
+    function setRevenueDistributor(address newDistributor) public onlyOwner {
+        address oldDistributor = revenueDistributor;
+        revenueDistributor = newDistributor;
+        emit RevenueDistributorUpdated(oldDistributor, newDistributor);
+    }
+
+    function setProviderStaking(IProviderStaking newStaking) public onlyOwner {
+        address oldStaking = address(providerStaking);
+        providerStaking = newStaking;
+        emit ProviderStakingUpdated(oldStaking, address(newStaking));
+    }
+
+    function setDeviceRegistry(address newRegistry) public onlyOwner {
+        address oldRegistry = deviceRegistry;
+        deviceRegistry = newRegistry;
+        emit DeviceRegistryUpdated(oldRegistry, newRegistry);
+    }
+
+    // Lets the revenue distributor read a contribution balance to compute the contributor's share.
+    function grantContributionAccess(uint256 batchId, address contributor) public returns (euint64 balance) {
+        if (msg.sender != revenueDistributor) revert NotRevenueDistributor();
+        balance = contributionOf[batchId][contributor];
+        if (FHE.isInitialized(balance)) FHE.allow(balance, msg.sender);
+    }
+
+    // Auditors, and the revenue distributor for usage-weighted payouts, can read one provider's usage. Each new
+    // report replaces the handle, so access has to be requested again after it.
+    function grantUsageAccess(uint256 batchId, address provider) public returns (euint64 usage) {
+        if (msg.sender != revenueDistributor && !hasRole(AUDITOR_ROLE, msg.sender)) {
+            revert MissingRole(AUDITOR_ROLE, msg.sender);
+        }
+        usage = usageOf[batchId][provider];
+        if (FHE.isInitialized(usage)) FHE.allow(usage, msg.sender);
+        emit UsageAccessGranted(batchId, provider, msg.sender);
+    }
+
+    function setDecryptionTimeout(uint256 newDecryptionTimeout) public onlyOwner {
+        uint256 oldDecryptionTimeout = decryptionTimeout;
+        decryptionTimeout = newDecryptionTimeout;
+        emit DecryptionTimeoutUpdated(oldDecryptionTimeout, newDecryptionTimeout);
+    }
+
+    function setAnonymityThresholds(uint256 minContributors, uint256 minProviders) public onlyOwner {
+        minContributorsForSummary = minContributors;
+        minProvidersForSummary = minProviders;
+        emit AnonymityThresholdsUpdated(minContributors, minProviders);
     }
 
-    function closeBatch(uint256 batchId) public onlyOwner whenNotPaused {
-        if (!isBatchOpen[batchId]) revert BatchNotOpen();
-        isBatchOpen[batchId] = false;
+    function createProject(
+        address treasury,
+        string calldata title,
+        string calldata category,
+        bytes32 metadataHash
+    ) public onlyRole(BATCH_MANAGER_ROLE) whenNotPaused returns (uint256 projectId) {
+        if (treasury == address(0)) revert InvalidAddress();
+        projectId = ++projectCount;
+        _projects[projectId] = Project({
+            id: projectId,
+            creator: msg.sender,
+            treasury: treasury,
+            title: title,
+            category: category,
+            metadataHash: metadataHash,
+            createdAt: block.timestamp
+        });
+        emit ProjectCreated(projectId, msg.sender, treasury, title, category, metadataHash);
+    }
+
+    function openBatch(
+        uint256 projectId,
+        uint256 startTime,
+        uint256 endTime,
+        externalEuint64 encryptedTarget,
+        bytes calldata inputProof
+    ) public onlyRole(BATCH_MANAGER_ROLE) whenNotPaused returns (uint256 batchId) {
+        _getProject(projectId);
+        if (endTime <= startTime || endTime <= block.timestamp) revert InvalidBatchWindow();
+
+        batchId = ++batchCount;
+        Batch storage batch = _batches[batchId];
+        batch.id = batchId;
+        batch.projectId = projectId;
+        batch.status = BatchStatus.Open;
+        batch.openedAt = block.timestamp;
+        batch.startTime = startTime;
+        batch.endTime = endTime;
+        batch.totalContributions = FHE.allowThis(FHE.asEuint64(0));
+        batch.totalUsage = FHE.allowThis(FHE.asEuint64(0));
+        batch.overflowed = FHE.allowThis(FHE.asEbool(false));
+        batch.fundedContributors = FHE.allowThis(FHE.asEuint64(0));
+        batch.fundingTarget = FHE.allowThis(FHE.fromExternal(encryptedTarget, inputProof));
+        FHE.allow(batch.fundingTarget, msg.sender); // The manager who set the target can still read it back
+        _projectBatches[projectId].push(batchId);
+        emit BatchOpened(batchId, projectId, startTime, endTime);
+    }
+
+    function closeBatch(uint256 batchId) public onlyRole(BATCH_MANAGER_ROLE) whenNotPaused {
+        Batch storage batch = _getBatch(batchId);
+        if (batch.status != BatchStatus.Open) revert BatchNotOpen();
+        batch.status = BatchStatus.Closed;
+        batch.closedAt = block.timestamp;
         emit BatchClosed(batchId);
     }
 
-    function submitContribution(uint256 batchId, euint32 encryptedAmount) public whenNotPaused {
+    function cancelBatch(uint256 batchId) public onlyRole(BATCH_MANAGER_ROLE) {
+        Batch storage batch = _getBatch(batchId);
+        if (batch.status != BatchStatus.Open && batch.status != BatchStatus.Closed) {
+            revert InvalidBatchStatus();
+        }
+        if (batch.fundsReleased) revert FundsAlreadyReleased();
+        if (batch.closedAt == 0) batch.closedAt = block.timestamp;
+        batch.status = BatchStatus.Cancelled;
+        emit BatchCancelled(batchId);
+    }
+
+    // Opts a batch into noised summaries; must be set before its summary decryption is first requested.
+    function setBatchNoise(uint256 batchId, uint64 noiseBound) public onlyRole(BATCH_MANAGER_ROLE) whenNotPaused {
+        Batch storage batch = _getBatch(batchId);
+        if (batch.status != BatchStatus.Open && batch.status != BatchStatus.Closed) {
+            revert InvalidBatchStatus();
+        }
+        if (noiseBound != 0 && noiseBound & (noiseBound - 1) != 0) revert InvalidNoiseBound(); // FHE randomness bounds must be powers of two
+        // A withheld summary leaves the batch closed with its noise drawn under the old bound.
+        if (FHE.isInitialized(batch.noisedContributions)) revert NoiseAlreadyDrawn();
+        batch.noiseBound = noiseBound;
+        emit BatchNoiseConfigured(batchId, noiseBound);
+    }
+
+    function submitContribution(
+        uint256 batchId,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) public whenNotPaused {
         if (block.timestamp < lastSubmissionTime[msg.sender] + cooldownSeconds) {
             revert CooldownActive();
         }
-        if (!isBatchOpen[batchId]) revert BatchNotOpen();
-
-        _initIfNeeded(totalContributionsEncrypted[batchId]);
-        totalContributionsEncrypted[batchId] = totalContributionsEncrypted[batchId].add(encryptedAmount);
+        Batch storage batch = _getBatch(batchId);
+        if (batch.status != BatchStatus.Open) revert BatchNotOpen();
+        if (block.timestamp < batch.startTime || block.timestamp >= batch.endTime) revert OutsideBatchWindow();
+
+        // Contributors must have set this contract as an operator on the token; a short balance escrows 0.
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        FHE.allowTransient(amount, address(contributionToken));
+        euint64 escrowed = contributionToken.confidentialTransferFrom(msg.sender, address(this), amount);
+        euint64 accepted;
+        (batch.totalContributions, accepted) = _addChecked(batch, batch.totalContributions, escrowed);
+        _transferOut(msg.sender, escrowed.sub(accepted)); // Hand back anything dropped for overflowing the total
+
+        euint64 balance = contributionOf[batchId][msg.sender];
+        if (!FHE.isInitialized(balance)) {
+            _contributedBatches[msg.sender].push(batchId);
+            batch.contributorCount++;
+        }
+        balance = _initIfNeeded(balance);
+        // A short balance escrows 0, so empty addresses only count once their escrow becomes non-zero.
+        ebool newlyFunded = balance.eq(0).and(accepted.ne(0));
+        batch.fundedContributors = FHE.allowThis(batch.fundedContributors.add(FHE.asEuint64(newlyFunded)));
+        // Only the contributor (and this contract) may read their own balance; totals stay aggregate-only.
+        balance = balance.add(accepted);
+        contributionOf[batchId][msg.sender] = balance;
+        FHE.allowThis(balance);
+        FHE.allow(balance, msg.sender);
 
         lastSubmissionTime[msg.sender] = block.timestamp;
-        emit ContributionSubmitted(msg.sender, batchId, encryptedAmount.toBytes32());
+        emit ContributionSubmitted(msg.sender, batchId, amount.toBytes32());
     }
 
-    function reportUsage(uint256 batchId, euint32 encryptedUsage) public onlyProvider whenNotPaused {
+    function reportUsage(
+        uint256 batchId,
+        externalEuint64 encryptedUsage,
+        bytes calldata inputProof
+    ) public onlyRole(PROVIDER_ROLE) whenNotPaused {
         if (block.timestamp < lastSubmissionTime[msg.sender] + cooldownSeconds) { // Providers also subject to submission cooldown
             revert CooldownActive();
         }
-        if (!isBatchOpen[batchId]) revert BatchNotOpen();
-
-        _initIfNeeded(totalUsageEncrypted[batchId]);
-        totalUsageEncrypted[batchId] = totalUsageEncrypted[batchId].add(encryptedUsage);
-
+        _reportUsage(msg.sender, batchId, FHE.fromExternal(encryptedUsage, inputProof));
         lastSubmissionTime[msg.sender] = block.timestamp; // Update provider's last submission time
-        emit UsageReported(msg.sender, batchId, encryptedUsage.toBytes32());
     }
 
-    function requestBatchSummaryDecryption(uint256 batchId) public whenNotPaused {
-        if (block.timestamp < lastDecryptionRequestTime[msg.sender] + cooldownSeconds) {
+    // One cooldown slot and one input proof cover every reading; each reading is still overflow-checked on its own.
+    function reportUsageBatch(
+        uint256 batchId,
+        address[] calldata devices,
+        externalEuint64[] calldata encryptedReadings,
+        bytes calldata inputProof
+    ) public onlyRole(PROVIDER_ROLE) whenNotPaused {
+        if (block.timestamp < lastSubmissionTime[msg.sender] + cooldownSeconds) {
             revert CooldownActive();
         }
-        if (isBatchOpen[batchId]) revert BatchNotOpen(); // Batch must be closed for summary
+        uint256 count = encryptedReadings.length;
+        if (count == 0 || count > MAX_READINGS_PER_REPORT || devices.length != count) revert InvalidReadings();
+
+        Batch storage batch = _beginUsageReport(msg.sender, batchId);
+        for (uint256 i = 0; i < count; i++) {
+            euint64 usage = FHE.fromExternal(encryptedReadings[i], inputProof);
+            _addUsage(batch, msg.sender, usage);
+            emit DeviceUsageReported(msg.sender, batchId, devices[i], usage.toBytes32());
+        }
+        lastSubmissionTime[msg.sender] = block.timestamp;
+    }
 
-        euint32 contributions = totalContributionsEncrypted[batchId];
-        euint32 usage = totalUsageEncrypted[batchId];
-        if (!FHE.isInitialized(contributions) || !FHE.isInitialized(usage)) {
-            revert InvalidBatchId(); // Or a more specific error
+    // Usage signed by one of provider's devices, already verified by the registry. The input proof is bound
+    // to the registry as the user address, so any relayer can submit it.
+    function reportDeviceUsage(
+        address provider,
+        uint256 batchId,
+        externalEuint64 encryptedUsage,
+        bytes calldata inputProof
+    ) public whenNotPaused {
+        if (msg.sender != deviceRegistry) revert NotDeviceRegistry();
+        if (!hasRole(PROVIDER_ROLE, provider)) revert MissingRole(PROVIDER_ROLE, provider);
+        _reportUsage(provider, batchId, FHE.fromExternal(encryptedUsage, inputProof));
+    }
+
+    function getProject(uint256 projectId) public view returns (Project memory) {
+        return _getProject(projectId);
+    }
+
+    function listProjects(uint256 offset, uint256 limit) public view returns (Project[] memory page) {
+        if (offset >= projectCount) return new Project[](0);
+        uint256 end = offset + limit > projectCount ? projectCount : offset + limit;
+        page = new Project[](end - offset);
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = _projects[offset + i + 1]; // Project ids start at 1
         }
+    }
 
-        bytes32[] memory cts = new bytes32[](2);
-        cts[0] = contributions.toBytes32();
-        cts[1] = usage.toBytes32();
+    function getProjectBatches(uint256 projectId) public view returns (uint256[] memory) {
+        _getProject(projectId);
+        return _projectBatches[projectId];
+    }
 
-        bytes32 stateHash = _hashCiphertexts(cts);
-        uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
+    function getBatch(uint256 batchId) public view returns (Batch memory) {
+        return _getBatch(batchId);
+    }
+
+    function listBatches(uint256 offset, uint256 limit) public view returns (Batch[] memory page) {
+        if (offset >= batchCount) return new Batch[](0);
+        uint256 end = offset + limit > batchCount ? batchCount : offset + limit;
+        page = new Batch[](end - offset);
+        for (uint256 i = 0; i < page.length; i++) {
+            page[i] = _batches[offset + i + 1]; // Batch ids start at 1
+        }
+    }
+
+    function getBatchSummary(uint256 batchId) public view returns (BatchSummary memory) {
+        if (_getBatch(batchId).status != BatchStatus.Finalized) revert SummaryNotAvailable();
+        return _batchSummaries[batchId];
+    }
+
+    function isAcceptingContributions(uint256 batchId) public view returns (bool) {
+        Batch storage batch = _getBatch(batchId);
+        return batch.status == BatchStatus.Open && block.timestamp >= batch.startTime && block.timestamp < batch.endTime;
+    }
+
+    function getContributionHistory(address contributor) public view returns (uint256[] memory) {
+        return _contributedBatches[contributor];
+    }
+
+    // Every provider's encrypted usage for a batch, for weighting payouts; the handles only decrypt for
+    // parties granted access, so no operator's figure is published.
+    function getUsageBreakdown(uint256 batchId) public view returns (address[] memory providers, euint64[] memory usage) {
+        _getBatch(batchId);
+        providers = _batchProviders[batchId];
+        usage = new euint64[](providers.length);
+        for (uint256 i = 0; i < providers.length; i++) {
+            usage[i] = usageOf[batchId][providers[i]];
+        }
+    }
+
+    function finalize(uint256 batchId) public whenNotPaused {
+        Batch storage batch = _getBatch(batchId);
+        if (batch.status != BatchStatus.Open) revert BatchNotOpen();
+        if (block.timestamp < batch.endTime) revert BatchWindowNotEnded();
+
+        batch.status = BatchStatus.Closed;
+        batch.closedAt = block.timestamp;
+        emit BatchClosed(batchId);
 
-        decryptionContexts[requestId] = DecryptionContext({ batchId: batchId, stateHash: stateHash, processed: false });
+        // Small batches still close on time; their summary simply stays encrypted.
+        if (_meetsAnonymityThreshold(batch)) {
+            _requestSummaryDecryption(batch);
+        } else {
+            emit SummaryWithheld(batchId, batch.contributorCount, batch.providerCount);
+        }
+    }
+
+    function requestBatchSummaryDecryption(uint256 batchId) public whenNotPaused {
+        if (block.timestamp < lastDecryptionRequestTime[msg.sender] + cooldownSeconds) {
+            revert CooldownActive();
+        }
+        _requestSummaryDecryption(_getBatch(batchId));
         lastDecryptionRequestTime[msg.sender] = block.timestamp;
-        emit DecryptionRequested(requestId, batchId);
     }
 
     function myCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
@@ -179,14 +585,10 @@ contract ReFiInfraDAOFHE is SepoliaConfig {
         // Security: Replay protection ensures this callback is processed only once for a given requestId.
 
         uint256 batchId = decryptionContexts[requestId].batchId;
-        euint32 contributions = totalContributionsEncrypted[batchId];
-        euint32 usage = totalUsageEncrypted[batchId];
-
-        bytes32[] memory cts = new bytes32[](2);
-        cts[0] = contributions.toBytes32();
-        cts[1] = usage.toBytes32();
+        Batch storage batch = _batches[batchId];
+        if (batch.decryptionRequestId != requestId) revert DecryptionSupersededError();
 
-        bytes32 currentHash = _hashCiphertexts(cts);
+        bytes32 currentHash = _hashCiphertexts(_summaryCiphertexts(batch));
         // Security: State verification ensures that the ciphertexts that were originally requested for decryption
         // have not changed in contract storage before the callback is processed.
         if (currentHash != decryptionContexts[requestId].stateHash) {
@@ -195,24 +597,278 @@ contract ReFiInfraDAOFHE is SepoliaConfig {
 
         FHE.checkSignatures(requestId, cleartexts, proof);
 
-        uint256 totalContributions = abi.decode(cleartexts[0:32], uint256);
-        uint256 totalUsage = abi.decode(cleartexts[32:64], uint256);
+        (uint64 totalContributions, uint64 totalUsage, bool overflowed, bool releasable) = abi.decode(
+            cleartexts,
+            (uint64, uint64, bool, bool)
+        );
 
         decryptionContexts[requestId].processed = true;
-        emit DecryptionCompleted(requestId, batchId, totalContributions, totalUsage);
+        if (!releasable) {
+            // Too few funded contributors: the totals came back as 0 and the batch stays closed.
+            batch.status = BatchStatus.Closed;
+            emit SummaryWithheld(batchId, batch.contributorCount, batch.providerCount);
+            return;
+        }
+        batch.status = BatchStatus.Finalized;
+        _batchSummaries[batchId] = BatchSummary({
+            requestId: requestId,
+            totalContributions: totalContributions,
+            totalUsage: totalUsage,
+            overflowed: overflowed,
+            noiseBound: batch.noiseBound,
+            decryptedAt: block.timestamp
+        });
+        emit DecryptionCompleted(requestId, batchId, totalContributions, totalUsage, overflowed);
+    }
+
+    function requestFundingCheck(uint256 batchId) public whenNotPaused {
+        if (block.timestamp < lastDecryptionRequestTime[msg.sender] + cooldownSeconds) {
+            revert CooldownActive();
+        }
+        Batch storage batch = _getBatch(batchId);
+        if (batch.status == BatchStatus.Open || batch.status == BatchStatus.Cancelled) {
+            revert BatchNotClosed(); // Batch must be closed so the totals are final
+        }
+        if (batch.fundingChecked) revert FundingAlreadyChecked(); // The totals are final, so one answer is enough
+
+        if (FHE.isInitialized(batch.fundingCheck)) {
+            // Computed once, so every request decrypts the same answer; re-requesting waits for decryptionTimeout.
+            if (block.timestamp < batch.fundingCheckRequestedAt + decryptionTimeout) revert DecryptionPending();
+        } else {
+            // Only the comparison is ever decrypted; the total and the target stay encrypted.
+            batch.fundingCheck = FHE.allowThis(batch.totalContributions.ge(batch.fundingTarget));
+        }
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = batch.fundingCheck.toBytes32();
+
+        bytes32 stateHash = _hashCiphertexts(cts);
+        uint256 requestId = FHE.requestDecryption(cts, this.fundingCheckCallback.selector);
+
+        fundingCheckContexts[requestId] = DecryptionContext({ batchId: batchId, stateHash: stateHash, processed: false });
+        batch.fundingCheckRequestedAt = block.timestamp;
+        lastDecryptionRequestTime[msg.sender] = block.timestamp;
+        emit FundingCheckRequested(requestId, batchId);
+    }
+
+    function fundingCheckCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        if (fundingCheckContexts[requestId].processed) {
+            revert ReplayDetected();
+        }
+
+        uint256 batchId = fundingCheckContexts[requestId].batchId;
+        Batch storage batch = _batches[batchId];
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = batch.fundingCheck.toBytes32();
+
+        bytes32 currentHash = _hashCiphertexts(cts);
+        if (currentHash != fundingCheckContexts[requestId].stateHash) {
+            revert StateMismatch();
+        }
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        bool goalMet = abi.decode(cleartexts, (bool));
+
+        fundingCheckContexts[requestId].processed = true;
+        batch.fundingChecked = true;
+        batch.fundingGoalMet = goalMet;
+        emit FundingCheckCompleted(requestId, batchId, goalMet);
+    }
+
+    // Permissionless once the funding check has passed; pays the whole escrowed total to the project treasury.
+    function releaseFunds(uint256 batchId) public whenNotPaused {
+        Batch storage batch = _getBatch(batchId);
+        if (batch.status == BatchStatus.Cancelled) revert InvalidBatchStatus();
+        if (!batch.fundingChecked || !batch.fundingGoalMet) revert FundingGoalNotMet();
+        if (batch.fundsReleased) revert FundsAlreadyReleased();
+
+        batch.fundsReleased = true;
+        address treasury = _projects[batch.projectId].treasury;
+        euint64 released = _transferOut(treasury, batch.totalContributions);
+        emit FundsReleased(batchId, batch.projectId, treasury, released.toBytes32());
+    }
+
+    // Returns a contributor's escrow when the batch was cancelled or its funding check came back short.
+    function claimRefund(uint256 batchId) public whenNotPaused {
+        Batch storage batch = _getBatch(batchId);
+        bool missedTarget = batch.fundingChecked && !batch.fundingGoalMet;
+        if ((batch.status != BatchStatus.Cancelled && !missedTarget) || batch.fundsReleased) {
+            revert RefundNotAvailable();
+        }
+        euint64 balance = contributionOf[batchId][msg.sender];
+        if (!FHE.isInitialized(balance)) revert NothingToRefund();
+
+        euint64 zero = FHE.asEuint64(0);
+        contributionOf[batchId][msg.sender] = zero;
+        FHE.allowThis(zero);
+        FHE.allow(zero, msg.sender);
+
+        euint64 refunded = _transferOut(msg.sender, balance);
+        emit RefundClaimed(msg.sender, batchId, refunded.toBytes32());
+    }
+
+    function _grantRole(bytes32 role, address account) internal {
+        if (account == address(0)) revert InvalidAddress();
+        if (_hasRole[role][account]) return;
+        if (role == PROVIDER_ROLE) _requireStake(account);
+        _hasRole[role][account] = true;
+        _roleMembers[role].push(account);
+        _roleMemberIndex[role][account] = _roleMembers[role].length;
+        emit RoleGranted(role, account, msg.sender);
+        if (role == PROVIDER_ROLE) emit ProviderAdded(account);
+    }
+
+    function _requireOwnerForTimelockedRole(bytes32 role) internal view {
+        if (role != BATCH_MANAGER_ROLE && role != AUDITOR_ROLE && msg.sender != owner) revert NotOwner();
+    }
+
+    function _revokeRole(bytes32 role, address account) internal {
+        if (!_hasRole[role][account]) return;
+        // Swap-and-pop keeps the member list dense for enumeration.
+        address[] storage members = _roleMembers[role];
+        uint256 index = _roleMemberIndex[role][account] - 1;
+        address last = members[members.length - 1];
+        members[index] = last;
+        _roleMemberIndex[role][last] = index + 1;
+        members.pop();
+        delete _roleMemberIndex[role][account];
+        _hasRole[role][account] = false;
+        emit RoleRevoked(role, account, msg.sender);
+        if (role == PROVIDER_ROLE) emit ProviderRemoved(account);
+    }
+
+    function _transferOut(address to, euint64 amount) internal returns (euint64 transferred) {
+        FHE.allowTransient(amount, address(contributionToken));
+        transferred = contributionToken.confidentialTransfer(to, amount);
+    }
+
+    function _reportUsage(address provider, uint256 batchId, euint64 usage) internal {
+        Batch storage batch = _beginUsageReport(provider, batchId);
+        _addUsage(batch, provider, usage);
+        emit UsageReported(provider, batchId, usage.toBytes32());
+    }
+
+    function _beginUsageReport(address provider, uint256 batchId) internal returns (Batch storage batch) {
+        _requireStake(provider); // A provider that is unbonding or was slashed below the minimum can no longer report
+        batch = _getBatch(batchId);
+        if (batch.status != BatchStatus.Open) revert BatchNotOpen();
+        if (!hasReportedUsage[batchId][provider]) {
+            hasReportedUsage[batchId][provider] = true;
+            _batchProviders[batchId].push(provider);
+            batch.providerCount++;
+            if (address(providerStaking) != address(0)) providerStaking.recordUsage(provider, batchId);
+        }
+    }
+
+    // Only what the batch total accepted is credited to the provider, so the breakdown always sums to the total.
+    function _addUsage(Batch storage batch, address provider, euint64 usage) internal {
+        euint64 accepted;
+        (batch.totalUsage, accepted) = _addChecked(batch, batch.totalUsage, usage);
+        euint64 providerUsage = _initIfNeeded(usageOf[batch.id][provider]).add(accepted);
+        usageOf[batch.id][provider] = providerUsage;
+        FHE.allowThis(providerUsage);
+        FHE.allow(providerUsage, provider);
+    }
+
+    function _requireStake(address provider) internal view {
+        if (address(providerStaking) != address(0) && !providerStaking.isStaked(provider)) revert StakeRequired();
+    }
+
+    function _getProject(uint256 projectId) internal view returns (Project storage) {
+        if (projectId == 0 || projectId > projectCount) revert InvalidProjectId();
+        return _projects[projectId];
+    }
+
+    function _getBatch(uint256 batchId) internal view returns (Batch storage) {
+        if (batchId == 0 || batchId > batchCount) revert InvalidBatchId();
+        return _batches[batchId];
+    }
+
+    function _requestSummaryDecryption(Batch storage batch) internal {
+        // Request ids start at 0, so whether a request is being superseded is read from the status, not the id.
+        bool superseding = batch.status == BatchStatus.Decrypting;
+        uint256 previousRequestId = batch.decryptionRequestId;
+        if (superseding) {
+            // A pending request can only be superseded once the oracle has had decryptionTimeout to answer.
+            if (block.timestamp < batch.decryptionRequestedAt + decryptionTimeout) revert DecryptionPending();
+        } else if (batch.status != BatchStatus.Closed) {
+            revert BatchNotClosed(); // Batch must be closed for summary
+        }
+        if (!_meetsAnonymityThreshold(batch)) revert AnonymityThresholdNotMet();
+        if (batch.noiseBound != 0 && !FHE.isInitialized(batch.noisedContributions)) {
+            // Drawn once, so superseding a stalled request cannot be used to average the noise away.
+            batch.noisedContributions = _addNoise(batch.totalContributions, batch.noiseBound);
+            batch.noisedUsage = _addNoise(batch.totalUsage, batch.noiseBound);
+        }
+        // contributorCount is only a cleartext pre-check; the encrypted funded count decides, and below the
+        // threshold the oracle only ever sees zeroed totals.
+        bool noised = batch.noiseBound != 0;
+        euint64 zero = FHE.asEuint64(0);
+        ebool releasable = batch.fundedContributors.ge(uint64(minContributorsForSummary));
+        batch.summaryReleasable = FHE.allowThis(releasable);
+        batch.releasedContributions = FHE.allowThis(
+            FHE.select(releasable, noised ? batch.noisedContributions : batch.totalContributions, zero)
+        );
+        batch.releasedUsage = FHE.allowThis(FHE.select(releasable, noised ? batch.noisedUsage : batch.totalUsage, zero));
+
+        bytes32[] memory cts = _summaryCiphertexts(batch);
+        bytes32 stateHash = _hashCiphertexts(cts);
+        uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
+
+        decryptionContexts[requestId] = DecryptionContext({ batchId: batch.id, stateHash: stateHash, processed: false });
+        batch.status = BatchStatus.Decrypting;
+        batch.decryptionRequestId = requestId;
+        batch.decryptionRequestedAt = block.timestamp;
+        if (superseding) emit DecryptionSuperseded(previousRequestId, requestId, batch.id);
+        emit DecryptionRequested(requestId, batch.id);
+    }
+
+    function _meetsAnonymityThreshold(Batch storage batch) internal view returns (bool) {
+        return batch.contributorCount >= minContributorsForSummary && batch.providerCount >= minProvidersForSummary;
+    }
+
+    function _summaryCiphertexts(Batch storage batch) internal view returns (bytes32[] memory cts) {
+        cts = new bytes32[](4);
+        cts[0] = batch.releasedContributions.toBytes32();
+        cts[1] = batch.releasedUsage.toBytes32();
+        cts[2] = batch.overflowed.toBytes32();
+        cts[3] = batch.summaryReleasable.toBytes32();
+    }
+
+    // Noise that would wrap the total is dropped rather than publishing a tiny figure.
+    function _addNoise(euint64 total, uint64 noiseBound) internal returns (euint64 noised) {
+        noised = total.add(FHE.randEuint64(noiseBound));
+        noised = FHE.select(noised.lt(total), total, noised);
+        FHE.allowThis(noised);
+    }
+
+    // Adds amount to total unless that would wrap, in which case the total is kept and the batch is flagged.
+    function _addChecked(
+        Batch storage batch,
+        euint64 total,
+        euint64 amount
+    ) internal returns (euint64 newTotal, euint64 accepted) {
+        euint64 sum = total.add(amount);
+        ebool overflow = sum.lt(total);
+        batch.overflowed = FHE.allowThis(batch.overflowed.or(overflow));
+        accepted = FHE.select(overflow, FHE.asEuint64(0), amount);
+        newTotal = FHE.allowThis(FHE.select(overflow, total, sum));
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
         return keccak256(abi.encode(cts, address(this)));
     }
 
-    function _initIfNeeded(euint32 storage x) internal {
+    function _initIfNeeded(euint64 x) internal returns (euint64) {
         if (!FHE.isInitialized(x)) {
-            x = FHE.asEuint32(0);
+            x = FHE.asEuint64(0);
         }
+        return x;
     }
 
-    function _requireInitialized(euint32 x) internal pure {
+    function _requireInitialized(euint64 x) internal pure {
         if (!FHE.isInitialized(x)) revert("FHEVarNotInitialized");
     }
 }
\ No newline at end of file
@@ -0,0 +1,123 @@
+pragma solidity ^0.8.24;
+
+import { externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { EIP712 } from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import { ECDSA } from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import { ReFiInfraDAOFHE } from "./ReFi_Infra_DAO.sol";
+
+// Maps device keys to the providers operating them and relays EIP-712 signed usage reports to the DAO,
+// so hardware without gas can report through any relayer. Devices encrypt their reading for the DAO
+// contract with this registry as the user address.
+contract ReFiInfraDeviceRegistryFHE is EIP712 {
+    bytes32 public constant USAGE_REPORT_TYPEHASH =
+        keccak256(
+            "UsageReport(address device,uint256 batchId,bytes32 encryptedUsage,bytes32 inputProofHash,uint256 nonce,uint256 deadline)"
+        );
+
+    ReFiInfraDAOFHE public immutable dao;
+
+    mapping(address => address) public providerOf; // Device address (derived from its public key) => provider
+    mapping(address => uint256) public nonces;
+    mapping(address => address[]) private _providerDevices;
+    mapping(address => uint256) private _deviceIndex; // 1-based position in _providerDevices, 0 = unregistered
+
+    event DeviceRegistered(address indexed device, address indexed provider);
+    event DeviceDeregistered(address indexed device, address indexed provider);
+    event DeviceUsageRelayed(
+        address indexed device,
+        address indexed provider,
+        uint256 indexed batchId,
+        uint256 nonce,
+        address relayer
+    );
+
+    error MissingRole(bytes32 role, address account);
+    error InvalidAddress();
+    error DeviceAlreadyRegistered();
+    error DeviceNotRegistered();
+    error NotDeviceProvider();
+    error SignatureExpired();
+    error InvalidSignature();
+
+    constructor(ReFiInfraDAOFHE dao_) EIP712("ReFiInfraDeviceRegistry", "1") {
+        dao = dao_;
+    }
+
+    function registerDevice(address device) public {
+        if (!dao.hasRole(dao.PROVIDER_ROLE(), msg.sender)) revert MissingRole(dao.PROVIDER_ROLE(), msg.sender);
+        if (device == address(0)) revert InvalidAddress();
+        if (providerOf[device] != address(0)) revert DeviceAlreadyRegistered();
+
+        providerOf[device] = msg.sender;
+        _providerDevices[msg.sender].push(device);
+        _deviceIndex[device] = _providerDevices[msg.sender].length;
+        emit DeviceRegistered(device, msg.sender);
+    }
+
+    // The owning provider can retire a device; DAO admins can too, e.g. after a compromised key.
+    function deregisterDevice(address device) public {
+        address provider = providerOf[device];
+        if (provider == address(0)) revert DeviceNotRegistered();
+        if (msg.sender != provider && !dao.hasRole(dao.ADMIN_ROLE(), msg.sender)) revert NotDeviceProvider();
+
+        // Swap-and-pop keeps the device list dense for enumeration.
+        address[] storage devices = _providerDevices[provider];
+        uint256 index = _deviceIndex[device] - 1;
+        address last = devices[devices.length - 1];
+        devices[index] = last;
+        _deviceIndex[last] = index + 1;
+        devices.pop();
+        delete _deviceIndex[device];
+        delete providerOf[device];
+        emit DeviceDeregistered(device, provider);
+    }
+
+    function getProviderDevices(address provider) public view returns (address[] memory) {
+        return _providerDevices[provider];
+    }
+
+    function relayUsage(
+        address device,
+        uint256 batchId,
+        externalEuint64 encryptedUsage,
+        bytes calldata inputProof,
+        uint256 deadline,
+        bytes calldata signature
+    ) public {
+        address provider = providerOf[device];
+        if (provider == address(0)) revert DeviceNotRegistered();
+        if (block.timestamp > deadline) revert SignatureExpired();
+
+        uint256 nonce = nonces[device]++;
+        bytes32 digest = usageReportDigest(device, batchId, encryptedUsage, inputProof, nonce, deadline);
+        if (ECDSA.recover(digest, signature) != device) revert InvalidSignature();
+
+        dao.reportDeviceUsage(provider, batchId, encryptedUsage, inputProof);
+        emit DeviceUsageRelayed(device, provider, batchId, nonce, msg.sender);
+    }
+
+    // Exposed so devices and relayers can check what they are signing.
+    function usageReportDigest(
+        address device,
+        uint256 batchId,
+        externalEuint64 encryptedUsage,
+        bytes calldata inputProof,
+        uint256 nonce,
+        uint256 deadline
+    ) public view returns (bytes32) {
+        return
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(
+                        USAGE_REPORT_TYPEHASH,
+                        device,
+                        batchId,
+                        externalEuint64.unwrap(encryptedUsage),
+                        keccak256(inputProof),
+                        nonce,
+                        deadline
+                    )
+                )
+            );
+    }
+}
@@ -0,0 +1,357 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint8, euint32, externalEuint8, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { ReFiInfraDAOFHE } from "./ReFi_Infra_DAO.sol";
+
+// Owns ReFiInfraDAOFHE once deployed: admin changes are queued here behind a delay,
+// and any member can open an (encrypted) vote to cancel them before they execute.
+contract ReFiInfraGovernorFHE is SepoliaConfig {
+    using FHE for euint8;
+    using FHE for euint32;
+    using FHE for ebool;
+
+    ReFiInfraDAOFHE public immutable dao;
+    uint256 public immutable timelockDelay;
+    uint256 public immutable cancelQuorum; // Ballots a cancellation vote needs before it can be tallied
+    uint256 public constant TIMELOCK_GRACE_PERIOD = 14 days;
+
+    uint8 public constant VOTE_NO = 0;
+    uint8 public constant VOTE_YES = 1;
+    uint8 public constant VOTE_ABSTAIN = 2;
+
+    struct Proposal {
+        address proposer;
+        string description;
+        uint256 operationId; // Timelock operation cancelled if the proposal passes, 0 for none
+        uint256 startTime;
+        uint256 endTime;
+        uint256 quorum;
+        uint256 voterCount;
+        euint32 yesVotesEncrypted;
+        euint32 noVotesEncrypted;
+        euint32 abstainVotesEncrypted;
+        bool tallyRequested;
+        bool tallied;
+        uint32 yesVotes;
+        uint32 noVotes;
+        uint32 abstainVotes;
+    }
+    uint256 public proposalCount;
+    mapping(uint256 => Proposal) public proposals;
+    mapping(uint256 => mapping(address => bool)) public hasVoted;
+
+    struct TallyContext {
+        uint256 proposalId;
+        bytes32 stateHash;
+        bool processed;
+    }
+    mapping(uint256 => TallyContext) public tallyContexts;
+
+    struct TimelockOperation {
+        address proposer;
+        bytes data;
+        uint256 eta;
+        bool executed;
+        bool cancelled;
+        uint256 cancelProposalId; // Members' vote on cancelling this operation, 0 until one is opened
+    }
+    uint256 public operationCount;
+    mapping(uint256 => TimelockOperation) public timelockOperations;
+
+    event ProposalCreated(
+        uint256 indexed proposalId,
+        address indexed proposer,
+        uint256 indexed operationId,
+        uint256 startTime,
+        uint256 endTime,
+        uint256 quorum
+    );
+    event VoteCast(uint256 indexed proposalId, address indexed voter, bytes32 encryptedChoice);
+    event TallyDecryptionRequested(uint256 indexed requestId, uint256 indexed proposalId);
+    event ProposalTallied(uint256 indexed requestId, uint256 indexed proposalId, uint256 yesVotes, uint256 noVotes, uint256 abstainVotes);
+    event OperationQueued(uint256 indexed operationId, bytes4 indexed selector, address indexed proposer, bytes data, uint256 eta);
+    event OperationCancelled(uint256 indexed operationId, address indexed canceller);
+    event OperationExecuted(uint256 indexed operationId, address indexed executor);
+
+    error MissingRole(bytes32 role, address account);
+    error PausedError();
+    error ReplayDetected();
+    error StateMismatch();
+    error InvalidProposalId();
+    error InvalidVotingPeriod();
+    error InvalidQuorum();
+    error NotProviderStaking();
+    error VotingClosed();
+    error VotingNotEnded();
+    error AlreadyVoted();
+    error QuorumNotReached();
+    error TallyAlreadyRequested();
+    error ProposalNotAccepted();
+    error UnsupportedOperation();
+    error InvalidOperationId();
+    error OperationNotPending();
+    error OperationNotReady();
+    error OperationExpired();
+    error CancellationAlreadyProposed();
+    error CancellationVotePending();
+
+    modifier onlyDAORole(bytes32 role) {
+        if (!dao.hasRole(role, msg.sender)) revert MissingRole(role, msg.sender);
+        _;
+    }
+
+    modifier whenNotPaused() {
+        if (dao.paused()) revert PausedError();
+        _;
+    }
+
+    // Cancellation votes keep running while the DAO is paused, so a pause cannot run out their clock before the
+    // operation they target becomes executable.
+    modifier whenNotPausedOrCancellation(uint256 proposalId) {
+        if (proposals[proposalId].operationId == 0 && dao.paused()) revert PausedError();
+        _;
+    }
+
+    constructor(ReFiInfraDAOFHE dao_, uint256 timelockDelay_, uint256 cancelQuorum_) {
+        if (cancelQuorum_ == 0) revert InvalidQuorum();
+        dao = dao_;
+        timelockDelay = timelockDelay_;
+        cancelQuorum = cancelQuorum_;
+    }
+
+    // Completes the DAO's two-step ownership transfer to this governor.
+    function acceptDAOOwnership() public {
+        dao.acceptOwnership();
+    }
+
+    function queueOperation(bytes calldata data) public onlyDAORole(dao.ADMIN_ROLE()) returns (uint256 operationId) {
+        if (data.length < 4) revert UnsupportedOperation();
+        bytes4 selector = bytes4(data[:4]);
+        if (
+            selector != ReFiInfraDAOFHE.transferOwnership.selector &&
+            selector != ReFiInfraDAOFHE.grantRole.selector &&
+            selector != ReFiInfraDAOFHE.revokeRole.selector &&
+            selector != ReFiInfraDAOFHE.addProvider.selector &&
+            selector != ReFiInfraDAOFHE.removeProvider.selector &&
+            selector != ReFiInfraDAOFHE.setCooldownSeconds.selector &&
+            selector != ReFiInfraDAOFHE.setRevenueDistributor.selector &&
+            selector != ReFiInfraDAOFHE.setProviderStaking.selector &&
+            selector != ReFiInfraDAOFHE.setDeviceRegistry.selector &&
+            selector != ReFiInfraDAOFHE.setDecryptionTimeout.selector &&
+            selector != ReFiInfraDAOFHE.setAnonymityThresholds.selector
+        ) {
+            revert UnsupportedOperation();
+        }
+
+        operationId = ++operationCount;
+        uint256 eta = block.timestamp + timelockDelay;
+        timelockOperations[operationId] = TimelockOperation({
+            proposer: msg.sender,
+            data: data,
+            eta: eta,
+            executed: false,
+            cancelled: false,
+            cancelProposalId: 0
+        });
+        emit OperationQueued(operationId, selector, msg.sender, data, eta);
+    }
+
+    function cancelOperation(uint256 operationId) public onlyDAORole(dao.ADMIN_ROLE()) {
+        _cancelOperation(operationId);
+    }
+
+    // Lets any member cancel an operation once a proposal targeting it has been accepted.
+    function cancelOperationByVote(uint256 proposalId) public {
+        if (!isProposalAccepted(proposalId)) revert ProposalNotAccepted();
+        _cancelOperation(proposals[proposalId].operationId);
+    }
+
+    // Opens the single vote on cancelling a queued operation. It runs until the operation's eta, so members always
+    // get to vote before it can execute, with a fixed quorum the queuing admin cannot tune. Pausing the DAO does not stop it.
+    function proposeCancellation(
+        uint256 operationId,
+        string calldata description
+    ) public onlyDAORole(dao.VOTER_ROLE()) returns (uint256 proposalId) {
+        TimelockOperation storage operation = _getPendingOperation(operationId);
+        if (operation.cancelProposalId != 0) revert CancellationAlreadyProposed();
+        if (block.timestamp >= operation.eta) revert VotingClosed();
+
+        proposalId = _createProposal(description, operationId, operation.eta, cancelQuorum);
+        operation.cancelProposalId = proposalId;
+    }
+
+    function executeOperation(uint256 operationId) public {
+        TimelockOperation storage operation = _getPendingOperation(operationId);
+        if (block.timestamp < operation.eta) revert OperationNotReady();
+        if (block.timestamp >= operation.eta + TIMELOCK_GRACE_PERIOD) revert OperationExpired();
+        if (isCancellationPending(operationId)) revert CancellationVotePending();
+
+        operation.executed = true;
+        (bool success, bytes memory result) = address(dao).call(operation.data);
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+        emit OperationExecuted(operationId, msg.sender);
+    }
+
+    // General proposals such as project approvals; cancellation and slashing votes have their own entry points.
+    function createProposal(
+        string calldata description,
+        uint256 votingPeriod,
+        uint256 quorum
+    ) public onlyDAORole(dao.ADMIN_ROLE()) whenNotPaused returns (uint256 proposalId) {
+        if (votingPeriod == 0) revert InvalidVotingPeriod();
+        if (quorum == 0) revert InvalidQuorum(); // Only members can vote, so a quorum counts members
+        proposalId = _createProposal(description, 0, block.timestamp + votingPeriod, quorum);
+    }
+
+    // Slashing votes, opened by the DAO's provider staking contract with the period and quorum it was deployed with.
+    function createChallengeProposal(
+        string calldata description,
+        uint256 votingPeriod,
+        uint256 quorum
+    ) external returns (uint256 proposalId) {
+        if (msg.sender != address(dao.providerStaking())) revert NotProviderStaking();
+        proposalId = _createProposal(description, 0, block.timestamp + votingPeriod, quorum);
+    }
+
+    function castVote(
+        uint256 proposalId,
+        externalEuint8 encryptedChoice,
+        bytes calldata inputProof
+    ) public onlyDAORole(dao.VOTER_ROLE()) whenNotPausedOrCancellation(proposalId) {
+        Proposal storage proposal = proposals[proposalId];
+        if (proposal.startTime == 0) revert InvalidProposalId();
+        if (block.timestamp >= proposal.endTime) revert VotingClosed();
+        if (hasVoted[proposalId][msg.sender]) revert AlreadyVoted();
+
+        euint8 choice = FHE.fromExternal(encryptedChoice, inputProof);
+        ebool isYes = choice.eq(VOTE_YES);
+        ebool isNo = choice.eq(VOTE_NO);
+        euint32 one = FHE.asEuint32(1);
+        euint32 zero = FHE.asEuint32(0);
+
+        // Any choice other than yes/no counts as abstain, so every ballot lands in exactly one tally.
+        proposal.yesVotesEncrypted = proposal.yesVotesEncrypted.add(FHE.select(isYes, one, zero));
+        proposal.noVotesEncrypted = proposal.noVotesEncrypted.add(FHE.select(isNo, one, zero));
+        proposal.abstainVotesEncrypted = proposal.abstainVotesEncrypted.add(FHE.select(isYes.or(isNo), zero, one));
+        FHE.allowThis(proposal.yesVotesEncrypted);
+        FHE.allowThis(proposal.noVotesEncrypted);
+        FHE.allowThis(proposal.abstainVotesEncrypted);
+
+        // Voters can decrypt their own ballot (from VoteCast) to check what was recorded.
+        FHE.allowThis(choice);
+        FHE.allow(choice, msg.sender);
+
+        hasVoted[proposalId][msg.sender] = true;
+        proposal.voterCount++;
+        emit VoteCast(proposalId, msg.sender, choice.toBytes32());
+    }
+
+    function requestTallyDecryption(uint256 proposalId) public whenNotPausedOrCancellation(proposalId) {
+        Proposal storage proposal = proposals[proposalId];
+        if (proposal.startTime == 0) revert InvalidProposalId();
+        if (block.timestamp < proposal.endTime) revert VotingNotEnded(); // Interim tallies must never leak
+        if (proposal.voterCount < proposal.quorum) revert QuorumNotReached();
+        if (proposal.tallyRequested) revert TallyAlreadyRequested();
+
+        bytes32[] memory cts = _proposalCiphertexts(proposal);
+        bytes32 stateHash = _hashCiphertexts(cts);
+        uint256 requestId = FHE.requestDecryption(cts, this.tallyCallback.selector);
+
+        tallyContexts[requestId] = TallyContext({ proposalId: proposalId, stateHash: stateHash, processed: false });
+        proposal.tallyRequested = true;
+        emit TallyDecryptionRequested(requestId, proposalId);
+    }
+
+    function tallyCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        if (tallyContexts[requestId].processed) {
+            revert ReplayDetected();
+        }
+
+        uint256 proposalId = tallyContexts[requestId].proposalId;
+        Proposal storage proposal = proposals[proposalId];
+
+        bytes32 currentHash = _hashCiphertexts(_proposalCiphertexts(proposal));
+        if (currentHash != tallyContexts[requestId].stateHash) {
+            revert StateMismatch();
+        }
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        (uint32 yesVotes, uint32 noVotes, uint32 abstainVotes) = abi.decode(cleartexts, (uint32, uint32, uint32));
+
+        tallyContexts[requestId].processed = true;
+        proposal.tallied = true;
+        proposal.yesVotes = yesVotes;
+        proposal.noVotes = noVotes;
+        proposal.abstainVotes = abstainVotes;
+        emit ProposalTallied(requestId, proposalId, yesVotes, noVotes, abstainVotes);
+    }
+
+    function isProposalAccepted(uint256 proposalId) public view returns (bool) {
+        Proposal storage proposal = proposals[proposalId];
+        return proposal.tallied && proposal.yesVotes > proposal.noVotes;
+    }
+
+    function isProposalRejected(uint256 proposalId) public view returns (bool) {
+        Proposal storage proposal = proposals[proposalId];
+        return proposal.tallied && proposal.yesVotes <= proposal.noVotes;
+    }
+
+    // True while the operation's cancellation vote is still open, or reached quorum but has not been tallied yet.
+    // A vote that ended short of quorum can never be tallied and no longer holds the operation back.
+    function isCancellationPending(uint256 operationId) public view returns (bool) {
+        uint256 proposalId = timelockOperations[operationId].cancelProposalId;
+        if (proposalId == 0) return false;
+        Proposal storage proposal = proposals[proposalId];
+        return block.timestamp < proposal.endTime || (proposal.voterCount >= proposal.quorum && !proposal.tallied);
+    }
+
+    function _createProposal(
+        string calldata description,
+        uint256 operationId,
+        uint256 endTime,
+        uint256 quorum
+    ) internal returns (uint256 proposalId) {
+        proposalId = ++proposalCount;
+        Proposal storage proposal = proposals[proposalId];
+        proposal.proposer = msg.sender;
+        proposal.description = description;
+        proposal.operationId = operationId;
+        proposal.startTime = block.timestamp;
+        proposal.endTime = endTime;
+        proposal.quorum = quorum;
+        proposal.yesVotesEncrypted = FHE.allowThis(FHE.asEuint32(0));
+        proposal.noVotesEncrypted = FHE.allowThis(FHE.asEuint32(0));
+        proposal.abstainVotesEncrypted = FHE.allowThis(FHE.asEuint32(0));
+
+        emit ProposalCreated(proposalId, msg.sender, operationId, proposal.startTime, endTime, quorum);
+    }
+
+    function _cancelOperation(uint256 operationId) internal {
+        TimelockOperation storage operation = _getPendingOperation(operationId);
+        operation.cancelled = true;
+        emit OperationCancelled(operationId, msg.sender);
+    }
+
+    function _getPendingOperation(uint256 operationId) internal view returns (TimelockOperation storage operation) {
+        if (operationId == 0 || operationId > operationCount) revert InvalidOperationId();
+        operation = timelockOperations[operationId];
+        if (operation.executed || operation.cancelled) revert OperationNotPending();
+    }
+
+    function _proposalCiphertexts(Proposal storage proposal) internal view returns (bytes32[] memory cts) {
+        cts = new bytes32[](3);
+        cts[0] = proposal.yesVotesEncrypted.toBytes32();
+        cts[1] = proposal.noVotesEncrypted.toBytes32();
+        cts[2] = proposal.abstainVotesEncrypted.toBytes32();
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
+        return keccak256(abi.encode(cts, address(this)));
+    }
+}
@@ -0,0 +1,133 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, euint128, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { ReFiInfraDAOFHE } from "./ReFi_Infra_DAO.sol";
+import { IConfidentialToken } from "./IConfidentialToken.sol";
+
+// Splits revenue earned by a funded batch between its contributors, pro rata to their encrypted contributions.
+// FHE can only divide by a cleartext, so shares are computed against the decrypted batch total. That has two
+// limits: batches whose summary was withheld for anonymity have no total and cannot take revenue at all, and a
+// noised total overestimates the real one, so part of every deposit is never owed to anyone. Whatever is left
+// undistributed can be swept to the project treasury once no deposit has arrived for UNCLAIMED_REVENUE_PERIOD.
+contract ReFiInfraRevenueDistributorFHE is SepoliaConfig {
+    using FHE for euint64;
+    using FHE for euint128;
+
+    ReFiInfraDAOFHE public immutable dao;
+    IConfidentialToken public immutable revenueToken;
+
+    uint256 public constant UNCLAIMED_REVENUE_PERIOD = 180 days;
+
+    mapping(uint256 => euint64) public batchRevenue; // Cumulative revenue deposited for a batch
+    mapping(uint256 => uint256) public lastDepositAt;
+    mapping(uint256 => bool) public revenueSwept;
+    mapping(uint256 => euint64) private _distributed; // Sum of all shares credited for a batch
+    mapping(uint256 => mapping(address => euint64)) private _accrued; // Share of batchRevenue already credited
+    mapping(address => euint64) private _claimable;
+
+    event RevenueDeposited(address indexed depositor, uint256 indexed batchId, bytes32 encryptedAmount);
+    event ShareAccrued(address indexed contributor, uint256 indexed batchId, bytes32 encryptedShare);
+    event RevenueWithdrawn(address indexed account, bytes32 encryptedAmount);
+    event UnclaimedRevenueSwept(uint256 indexed batchId, address indexed treasury, bytes32 encryptedAmount);
+
+    error BatchNotFunded();
+    error EmptyBatch();
+    error NoRevenue();
+    error NotAContributor();
+    error NothingToWithdraw();
+    error RevenueAlreadySwept();
+    error SweepNotAvailable();
+
+    constructor(ReFiInfraDAOFHE dao_) {
+        dao = dao_;
+        revenueToken = dao_.contributionToken();
+    }
+
+    // The depositor must have set this contract as an operator on the token.
+    function depositRevenue(
+        uint256 batchId,
+        externalEuint64 encryptedAmount,
+        bytes calldata inputProof
+    ) public {
+        if (!dao.getBatch(batchId).fundsReleased) revert BatchNotFunded();
+        if (revenueSwept[batchId]) revert RevenueAlreadySwept();
+        if (dao.getBatchSummary(batchId).totalContributions == 0) revert EmptyBatch();
+
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        FHE.allowTransient(amount, address(revenueToken));
+        euint64 received = revenueToken.confidentialTransferFrom(msg.sender, address(this), amount);
+
+        euint64 revenue = batchRevenue[batchId];
+        revenue = FHE.isInitialized(revenue) ? revenue.add(received) : received;
+        batchRevenue[batchId] = revenue;
+        FHE.allowThis(revenue);
+        lastDepositAt[batchId] = block.timestamp;
+        emit RevenueDeposited(msg.sender, batchId, received.toBytes32());
+    }
+
+    // Credits the caller with their share of any revenue deposited since they last accrued for this batch.
+    function accrue(uint256 batchId) public {
+        euint64 revenue = batchRevenue[batchId];
+        if (!FHE.isInitialized(revenue)) revert NoRevenue();
+        if (revenueSwept[batchId]) revert RevenueAlreadySwept();
+        euint64 contribution = dao.grantContributionAccess(batchId, msg.sender);
+        if (!FHE.isInitialized(contribution)) revert NotAContributor();
+
+        // contribution * revenue can exceed 64 bits, so the product is taken in 128.
+        uint256 total = dao.getBatchSummary(batchId).totalContributions;
+        euint64 entitled = FHE.asEuint64(
+            FHE.asEuint128(contribution).mul(FHE.asEuint128(revenue)).div(uint128(total))
+        );
+        euint64 accrued = _accrued[batchId][msg.sender];
+        euint64 share = FHE.isInitialized(accrued) ? entitled.sub(accrued) : entitled;
+        _accrued[batchId][msg.sender] = entitled;
+        FHE.allowThis(entitled);
+        euint64 distributed = _distributed[batchId];
+        _distributed[batchId] = FHE.allowThis(FHE.isInitialized(distributed) ? distributed.add(share) : share);
+
+        euint64 claimable = _claimable[msg.sender];
+        claimable = FHE.isInitialized(claimable) ? claimable.add(share) : share;
+        _setClaimable(msg.sender, claimable);
+        FHE.allow(share, msg.sender);
+        emit ShareAccrued(msg.sender, batchId, share.toBytes32());
+    }
+
+    function withdraw() public {
+        euint64 claimable = _claimable[msg.sender];
+        if (!FHE.isInitialized(claimable)) revert NothingToWithdraw();
+        _setClaimable(msg.sender, FHE.asEuint64(0));
+
+        FHE.allowTransient(claimable, address(revenueToken));
+        euint64 withdrawn = revenueToken.confidentialTransfer(msg.sender, claimable);
+        emit RevenueWithdrawn(msg.sender, withdrawn.toBytes32());
+    }
+
+    // Sends a batch's undistributed revenue (noise overestimate, rounding and unaccrued shares) to its project
+    // treasury. Permissionless once deposits have been quiet for UNCLAIMED_REVENUE_PERIOD; accruing stops after.
+    function sweepUnclaimed(uint256 batchId) public {
+        euint64 revenue = batchRevenue[batchId];
+        if (!FHE.isInitialized(revenue)) revert NoRevenue();
+        if (revenueSwept[batchId]) revert RevenueAlreadySwept();
+        if (block.timestamp < lastDepositAt[batchId] + UNCLAIMED_REVENUE_PERIOD) revert SweepNotAvailable();
+
+        revenueSwept[batchId] = true;
+        euint64 distributed = _distributed[batchId];
+        euint64 remainder = FHE.isInitialized(distributed) ? revenue.sub(distributed) : revenue;
+        address treasury = dao.getProject(dao.getBatch(batchId).projectId).treasury;
+        FHE.allowTransient(remainder, address(revenueToken));
+        euint64 swept = revenueToken.confidentialTransfer(treasury, remainder);
+        emit UnclaimedRevenueSwept(batchId, treasury, swept.toBytes32());
+    }
+
+    // Only the account itself (and this contract) can decrypt the returned handle.
+    function claimableOf(address account) public view returns (euint64) {
+        return _claimable[account];
+    }
+
+    function _setClaimable(address account, euint64 claimable) internal {
+        _claimable[account] = claimable;
+        FHE.allowThis(claimable);
+        FHE.allow(claimable, account);
+    }
+}
@@ -0,0 +1,161 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { ReFiInfraDAOFHE } from "./ReFi_Infra_DAO.sol";
+
+// Checks providers' encrypted per-batch KPIs against encrypted DAO thresholds. Only the combined pass/fail
+// flag is ever decrypted; the raw metrics stay readable by the reporting provider alone.
+contract ReFiInfraSLAMonitorFHE is SepoliaConfig {
+    using FHE for euint32;
+    using FHE for ebool;
+
+    ReFiInfraDAOFHE public immutable dao;
+
+    euint32 private _minUptimeMinutes;
+    euint32 private _maxLatencyBucket;
+    uint256 public thresholdsUpdatedAt;
+
+    struct SlaReport {
+        euint32 uptimeMinutes;
+        euint32 latencyBucket;
+        ebool passed;
+        uint256 reportedAt;
+        uint256 requestId;
+        bool checked;
+        bool passedClear;
+    }
+    mapping(uint256 => mapping(address => SlaReport)) private _reports;
+
+    struct CheckContext {
+        uint256 batchId;
+        address provider;
+        bytes32 stateHash;
+        bool processed;
+    }
+    mapping(uint256 => CheckContext) public checkContexts;
+
+    event ThresholdsUpdated(address indexed updatedBy);
+    event KpisReported(address indexed provider, uint256 indexed batchId, uint256 indexed requestId);
+    event SlaCheckCompleted(uint256 indexed requestId, uint256 indexed batchId, address indexed provider, bool passed);
+    event SlaBreached(uint256 indexed batchId, address indexed provider);
+
+    error MissingRole(bytes32 role, address account);
+    error PausedError();
+    error ThresholdsNotSet();
+    error InvalidBatchStatus();
+    error AlreadyReported();
+    error ReplayDetected();
+    error StateMismatch();
+
+    modifier onlyDAORole(bytes32 role) {
+        if (!dao.hasRole(role, msg.sender)) revert MissingRole(role, msg.sender);
+        _;
+    }
+
+    modifier whenNotPaused() {
+        if (dao.paused()) revert PausedError();
+        _;
+    }
+
+    constructor(ReFiInfraDAOFHE dao_) {
+        dao = dao_;
+    }
+
+    function setThresholds(
+        externalEuint32 encryptedMinUptimeMinutes,
+        externalEuint32 encryptedMaxLatencyBucket,
+        bytes calldata inputProof
+    ) public onlyDAORole(dao.ADMIN_ROLE()) {
+        _minUptimeMinutes = FHE.allowThis(FHE.fromExternal(encryptedMinUptimeMinutes, inputProof));
+        _maxLatencyBucket = FHE.allowThis(FHE.fromExternal(encryptedMaxLatencyBucket, inputProof));
+        thresholdsUpdatedAt = block.timestamp;
+        emit ThresholdsUpdated(msg.sender);
+    }
+
+    // One report per provider and batch, so the outcome cannot be used to probe the thresholds.
+    function reportKpis(
+        uint256 batchId,
+        externalEuint32 encryptedUptimeMinutes,
+        externalEuint32 encryptedLatencyBucket,
+        bytes calldata inputProof
+    ) public onlyDAORole(dao.PROVIDER_ROLE()) whenNotPaused returns (uint256 requestId) {
+        if (thresholdsUpdatedAt == 0) revert ThresholdsNotSet();
+        ReFiInfraDAOFHE.BatchStatus status = dao.getBatch(batchId).status;
+        if (status != ReFiInfraDAOFHE.BatchStatus.Open && status != ReFiInfraDAOFHE.BatchStatus.Closed) {
+            revert InvalidBatchStatus();
+        }
+        SlaReport storage report = _reports[batchId][msg.sender];
+        if (report.reportedAt != 0) revert AlreadyReported();
+
+        euint32 uptimeMinutes = FHE.fromExternal(encryptedUptimeMinutes, inputProof);
+        euint32 latencyBucket = FHE.fromExternal(encryptedLatencyBucket, inputProof);
+        ebool passed = uptimeMinutes.ge(_minUptimeMinutes).and(latencyBucket.le(_maxLatencyBucket));
+
+        report.uptimeMinutes = uptimeMinutes;
+        report.latencyBucket = latencyBucket;
+        report.passed = passed;
+        report.reportedAt = block.timestamp;
+        FHE.allowThis(uptimeMinutes);
+        FHE.allowThis(latencyBucket);
+        FHE.allowThis(passed);
+        FHE.allow(uptimeMinutes, msg.sender);
+        FHE.allow(latencyBucket, msg.sender);
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = passed.toBytes32();
+        bytes32 stateHash = _hashCiphertexts(cts);
+        requestId = FHE.requestDecryption(cts, this.slaCheckCallback.selector);
+
+        checkContexts[requestId] = CheckContext({
+            batchId: batchId,
+            provider: msg.sender,
+            stateHash: stateHash,
+            processed: false
+        });
+        report.requestId = requestId;
+        emit KpisReported(msg.sender, batchId, requestId);
+    }
+
+    function slaCheckCallback(uint256 requestId, bytes memory cleartexts, bytes memory proof) public {
+        CheckContext storage context = checkContexts[requestId];
+        if (context.processed) {
+            revert ReplayDetected();
+        }
+
+        SlaReport storage report = _reports[context.batchId][context.provider];
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = report.passed.toBytes32();
+        if (_hashCiphertexts(cts) != context.stateHash) {
+            revert StateMismatch();
+        }
+
+        FHE.checkSignatures(requestId, cleartexts, proof);
+
+        bool passed = abi.decode(cleartexts, (bool));
+
+        context.processed = true;
+        report.checked = true;
+        report.passedClear = passed;
+        emit SlaCheckCompleted(requestId, context.batchId, context.provider, passed);
+        if (!passed) emit SlaBreached(context.batchId, context.provider);
+    }
+
+    function getSlaStatus(
+        uint256 batchId,
+        address provider
+    ) public view returns (bool reported, bool checked, bool passed) {
+        SlaReport storage report = _reports[batchId][provider];
+        return (report.reportedAt != 0, report.checked, report.passedClear);
+    }
+
+    // Only the reporting provider can decrypt these.
+    function getKpis(uint256 batchId, address provider) public view returns (euint32 uptimeMinutes, euint32 latencyBucket) {
+        SlaReport storage report = _reports[batchId][provider];
+        return (report.uptimeMinutes, report.latencyBucket);
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
+        return keccak256(abi.encode(cts, address(this)));
+    }
+}
@@ -0,0 +1,249 @@
+pragma solidity ^0.8.24;
+
+import { Strings } from "@openzeppelin/contracts/utils/Strings.sol";
+import { ReFiInfraDAOFHE } from "./ReFi_Infra_DAO.sol";
+import { ReFiInfraGovernorFHE } from "./ReFi_Infra_Governor.sol";
+import { IProviderStaking } from "./IProviderStaking.sol";
+
+// Holds the ETH stake a provider must post before it can be registered. Once a batch's usage is decrypted,
+// anyone may challenge a provider's report during the challenge window. Opening a challenge starts a member vote
+// on the governor, with a period and quorum fixed at deployment, and that vote alone decides whether to slash.
+contract ReFiInfraStakingFHE is IProviderStaking {
+    ReFiInfraDAOFHE public immutable dao;
+    ReFiInfraGovernorFHE public immutable governor;
+    uint256 public immutable minimumStake;
+    uint256 public immutable challengeBond;
+    uint256 public immutable challengeWindow;
+    uint256 public immutable unbondingPeriod;
+    uint256 public immutable slashBps;
+    uint256 public immutable challengeVotingPeriod;
+    uint256 public immutable challengeQuorum;
+    uint256 public constant CHALLENGE_RESOLUTION_PERIOD = 14 days;
+
+    struct Stake {
+        uint256 amount;
+        uint256 unlockAt; // 0 while bonded
+        uint256 openChallenges;
+    }
+    mapping(address => Stake) public stakes;
+    mapping(address => uint256[]) private _usageBatches; // Batches the provider reported into that may still be challenged
+
+    enum ChallengeStatus {
+        None,
+        Open,
+        Upheld,
+        Dismissed
+    }
+
+    struct Challenge {
+        uint256 batchId;
+        address provider;
+        address challenger;
+        uint256 bond;
+        uint256 openedAt;
+        uint256 proposalId; // Governor vote on slashing, opened with the challenge
+        ChallengeStatus status;
+    }
+    uint256 public challengeCount;
+    mapping(uint256 => Challenge) public challenges;
+    mapping(uint256 => uint256) public openChallengesByBatch;
+
+    event Staked(address indexed provider, uint256 amount, uint256 totalStake);
+    event UnstakeRequested(address indexed provider, uint256 unlockAt);
+    event Unstaked(address indexed provider, uint256 amount);
+    event ChallengeOpened(
+        uint256 indexed challengeId,
+        uint256 indexed batchId,
+        address indexed provider,
+        address challenger,
+        uint256 proposalId
+    );
+    event ChallengeUpheld(uint256 indexed challengeId, address indexed provider, uint256 slashedAmount);
+    event ChallengeDismissed(uint256 indexed challengeId, address indexed provider);
+
+    error InvalidParameters();
+    error ZeroStake();
+    error NothingStaked();
+    error Unbonding();
+    error StakeLocked();
+    error IncorrectBond();
+    error NoUsageReported();
+    error ChallengeWindowClosed();
+    error InvalidChallengeId();
+    error ChallengeNotOpen();
+    error ChallengeNotResolvable();
+    error TransferFailed();
+    error NotDAO();
+
+    constructor(
+        ReFiInfraDAOFHE dao_,
+        ReFiInfraGovernorFHE governor_,
+        uint256 minimumStake_,
+        uint256 challengeBond_,
+        uint256 challengeWindow_,
+        uint256 unbondingPeriod_,
+        uint256 slashBps_,
+        uint256 challengeVotingPeriod_,
+        uint256 challengeQuorum_
+    ) {
+        if (slashBps_ > 10_000) revert InvalidParameters();
+        // The vote must be able to finish before an undecided challenge is dismissed.
+        if (challengeVotingPeriod_ == 0 || challengeVotingPeriod_ >= CHALLENGE_RESOLUTION_PERIOD || challengeQuorum_ == 0) {
+            revert InvalidParameters();
+        }
+        dao = dao_;
+        governor = governor_;
+        minimumStake = minimumStake_;
+        challengeBond = challengeBond_;
+        challengeWindow = challengeWindow_;
+        unbondingPeriod = unbondingPeriod_;
+        slashBps = slashBps_;
+        challengeVotingPeriod = challengeVotingPeriod_;
+        challengeQuorum = challengeQuorum_;
+    }
+
+    function stake() public payable {
+        if (msg.value == 0) revert ZeroStake();
+        Stake storage providerStake = stakes[msg.sender];
+        if (providerStake.unlockAt != 0) revert Unbonding();
+        providerStake.amount += msg.value;
+        emit Staked(msg.sender, msg.value, providerStake.amount);
+    }
+
+    function isStaked(address provider) public view returns (bool) {
+        Stake storage providerStake = stakes[provider];
+        return providerStake.unlockAt == 0 && providerStake.amount >= minimumStake;
+    }
+
+    // Stops the provider from reporting immediately. The stake stays slashable until unbondingPeriod has passed and
+    // every batch the provider reported into is past its challenge window (see withdrawStake).
+    function requestUnstake() public {
+        Stake storage providerStake = stakes[msg.sender];
+        if (providerStake.amount == 0) revert NothingStaked();
+        if (providerStake.unlockAt != 0) revert Unbonding();
+        providerStake.unlockAt = block.timestamp + unbondingPeriod;
+        emit UnstakeRequested(msg.sender, providerStake.unlockAt);
+    }
+
+    // The challenge window only opens once a batch's summary is decrypted, which can be long after unbonding ends,
+    // so the stake is also held while any reported usage could still be challenged.
+    function withdrawStake() public {
+        Stake storage providerStake = stakes[msg.sender];
+        if (providerStake.amount == 0) revert NothingStaked();
+        if (providerStake.unlockAt == 0 || block.timestamp < providerStake.unlockAt) revert StakeLocked();
+        if (providerStake.openChallenges != 0 || !_pruneSettledUsage(msg.sender)) revert StakeLocked();
+
+        uint256 amount = providerStake.amount;
+        delete stakes[msg.sender];
+        _send(msg.sender, amount);
+        emit Unstaked(msg.sender, amount);
+    }
+
+    function recordUsage(address provider, uint256 batchId) external {
+        if (msg.sender != address(dao)) revert NotDAO();
+        _usageBatches[provider].push(batchId);
+    }
+
+    // Batches whose usage by the provider may still be challenged and so keep its stake locked.
+    function getUsageBatches(address provider) public view returns (uint256[] memory) {
+        return _usageBatches[provider];
+    }
+
+    function openChallenge(uint256 batchId, address provider) public payable returns (uint256 challengeId) {
+        if (msg.value != challengeBond) revert IncorrectBond();
+        // getBatchSummary reverts until the batch's usage has been decrypted.
+        if (block.timestamp >= dao.getBatchSummary(batchId).decryptedAt + challengeWindow) revert ChallengeWindowClosed();
+        if (!dao.hasReportedUsage(batchId, provider)) revert NoUsageReported();
+        if (stakes[provider].amount == 0) revert NothingStaked();
+
+        challengeId = ++challengeCount;
+        uint256 proposalId = governor.createChallengeProposal(
+            string.concat("challenge:", Strings.toString(challengeId)),
+            challengeVotingPeriod,
+            challengeQuorum
+        );
+        challenges[challengeId] = Challenge({
+            batchId: batchId,
+            provider: provider,
+            challenger: msg.sender,
+            bond: msg.value,
+            openedAt: block.timestamp,
+            proposalId: proposalId,
+            status: ChallengeStatus.Open
+        });
+        stakes[provider].openChallenges++;
+        openChallengesByBatch[batchId]++;
+        emit ChallengeOpened(challengeId, batchId, provider, msg.sender, proposalId);
+    }
+
+    function resolveChallenge(uint256 challengeId) public {
+        Challenge storage challenge = _getOpenChallenge(challengeId);
+        uint256 proposalId = challenge.proposalId;
+        address provider = challenge.provider;
+        _closeChallenge(challenge);
+
+        if (governor.isProposalAccepted(proposalId)) {
+            // Upheld: the challenger gets their bond back plus the slashed stake.
+            Stake storage providerStake = stakes[provider];
+            uint256 slashed = (providerStake.amount * slashBps) / 10_000;
+            providerStake.amount -= slashed;
+            challenge.status = ChallengeStatus.Upheld;
+            _send(challenge.challenger, challenge.bond + slashed);
+            emit ChallengeUpheld(challengeId, provider, slashed);
+        } else if (
+            governor.isProposalRejected(proposalId) ||
+            block.timestamp >= challenge.openedAt + CHALLENGE_RESOLUTION_PERIOD
+        ) {
+            // Dismissed (or never decided in time): the bond compensates the provider.
+            challenge.status = ChallengeStatus.Dismissed;
+            _send(provider, challenge.bond);
+            emit ChallengeDismissed(challengeId, provider);
+        } else {
+            revert ChallengeNotResolvable();
+        }
+    }
+
+    // Usage-based payouts for a batch should wait until this returns true.
+    function isUsageFinal(uint256 batchId) public view returns (bool) {
+        return
+            block.timestamp >= dao.getBatchSummary(batchId).decryptedAt + challengeWindow &&
+            openChallengesByBatch[batchId] == 0;
+    }
+
+    // Usage is settled once its batch is cancelled or past the challenge window. A batch whose summary is withheld
+    // never gets there, so it keeps the stake locked until the batch is decrypted or cancelled.
+    function _isUsageSettled(uint256 batchId) internal view returns (bool) {
+        ReFiInfraDAOFHE.BatchStatus status = dao.getBatch(batchId).status;
+        if (status == ReFiInfraDAOFHE.BatchStatus.Cancelled) return true;
+        if (status != ReFiInfraDAOFHE.BatchStatus.Finalized) return false;
+        return block.timestamp >= dao.getBatchSummary(batchId).decryptedAt + challengeWindow;
+    }
+
+    // Drops settled batches from the provider's list and reports whether none are left.
+    function _pruneSettledUsage(address provider) internal returns (bool) {
+        uint256[] storage batchIds = _usageBatches[provider];
+        for (uint256 i = batchIds.length; i > 0; i--) {
+            if (_isUsageSettled(batchIds[i - 1])) {
+                batchIds[i - 1] = batchIds[batchIds.length - 1];
+                batchIds.pop();
+            }
+        }
+        return batchIds.length == 0;
+    }
+
+    function _getOpenChallenge(uint256 challengeId) internal view returns (Challenge storage challenge) {
+        if (challengeId == 0 || challengeId > challengeCount) revert InvalidChallengeId();
+        challenge = challenges[challengeId];
+        if (challenge.status != ChallengeStatus.Open) revert ChallengeNotOpen();
+    }
+
+    function _closeChallenge(Challenge storage challenge) internal {
+        stakes[challenge.provider].openChallenges--;
+        openChallengesByBatch[challenge.batchId]--;
+    }
+
+    function _send(address to, uint256 amount) internal {
+        (bool success, ) = to.call{ value: amount }("");
+        if (!success) revert TransferFailed();
+    }
+}
@@ -3,7 +3,7 @@ import fs from "fs";
 import path from "path";
 import readline from "readline";
 import { ethers as hardhatEthers } from "hardhat";
-import { Wallet, JsonRpcProvider } from "ethers";
+import { Wallet, JsonRpcProvider, parseEther } from "ethers";
 
 const WORD_LIBRARY = [
   'api', 'ape', 'auth', 'backend', 'config', 'controller', 'database', 'endpoint',
@@ -36,6 +36,28 @@ const DIFF_CONFIG = {
   maxDepth: 3
 };
 
+// Parameters for the DAO contract suite.
+const TIMELOCK_DELAY_SECONDS = 2 * 86400;
+const CANCEL_QUORUM = 3;
+const MINIMUM_STAKE = parseEther("0.1");
+const CHALLENGE_BOND = parseEther("0.01");
+const CHALLENGE_WINDOW_SECONDS = 3 * 86400;
+const UNBONDING_PERIOD_SECONDS = 7 * 86400;
+const SLASH_BPS = 5000;
+const CHALLENGE_VOTING_PERIOD_SECONDS = 5 * 86400;
+const CHALLENGE_QUORUM = 3;
+
+interface InfraDeployment {
+  tokenContractAddress: string;
+  daoContractAddress: string;
+  daoDeploymentBlock: number;
+  governorContractAddress: string;
+  stakingContractAddress: string;
+  revenueContractAddress: string;
+  deviceRegistryContractAddress: string;
+  slaContractAddress: string;
+}
+
 interface GeneratedFile {
   path: string;
   type: 'file' | 'folder';
@@ -301,6 +323,67 @@ async function ask(prompt: string): Promise<string> {
   );
 }
 
+// Deploys the DAO and its satellite contracts, wires them into the DAO while the deployer still owns it, then
+// hands ownership to the governor so every later owner change goes through its timelock.
+// CONTRIBUTION_TOKEN_ADDRESS selects an existing ERC-7984 token; otherwise the mock token is deployed.
+async function deployInfraContracts(wallet: Wallet): Promise<InfraDeployment> {
+  const deploy = async (name: string, ...args: unknown[]) => {
+    const contract = await (await hardhatEthers.getContractFactory(name, wallet)).deploy(...args);
+    await contract.waitForDeployment();
+    const address = await contract.getAddress();
+    console.log(`${name} deployed at:`, address);
+    return { contract: contract as any, address };
+  };
+
+  const tokenContractAddress = process.env.CONTRIBUTION_TOKEN_ADDRESS
+    || (await deploy("ConfidentialTokenMock", "ReFi Infra Token", "RIT")).address;
+  const dao = await deploy("ReFiInfraDAOFHE", tokenContractAddress);
+  const daoDeploymentBlock = (await dao.contract.deploymentTransaction()!.wait())!.blockNumber;
+  const governor = await deploy("ReFiInfraGovernorFHE", dao.address, TIMELOCK_DELAY_SECONDS, CANCEL_QUORUM);
+  const staking = await deploy(
+    "ReFiInfraStakingFHE",
+    dao.address,
+    governor.address,
+    MINIMUM_STAKE,
+    CHALLENGE_BOND,
+    CHALLENGE_WINDOW_SECONDS,
+    UNBONDING_PERIOD_SECONDS,
+    SLASH_BPS,
+    CHALLENGE_VOTING_PERIOD_SECONDS,
+    CHALLENGE_QUORUM
+  );
+  const revenue = await deploy("ReFiInfraRevenueDistributorFHE", dao.address);
+  const deviceRegistry = await deploy("ReFiInfraDeviceRegistryFHE", dao.address);
+  const sla = await deploy("ReFiInfraSLAMonitorFHE", dao.address);
+
+  await (await dao.contract.setRevenueDistributor(revenue.address)).wait();
+  await (await dao.contract.setProviderStaking(staking.address)).wait();
+  await (await dao.contract.setDeviceRegistry(deviceRegistry.address)).wait();
+  // The owner holds every role implicitly; keep the deployer able to run batches and pause once it is not the owner.
+  await (await dao.contract.grantRole(await dao.contract.BATCH_MANAGER_ROLE(), wallet.address)).wait();
+  await (await dao.contract.grantRole(await dao.contract.PAUSER_ROLE(), wallet.address)).wait();
+  // Founding voters (VOTER_ADDRESSES, comma-separated); later members are added through the governor's timelock.
+  const voters = (process.env.VOTER_ADDRESSES || wallet.address).split(",").map(voter => voter.trim()).filter(Boolean);
+  for (const voter of voters) {
+    await (await dao.contract.grantRole(await dao.contract.VOTER_ROLE(), voter)).wait();
+  }
+
+  await (await dao.contract.transferOwnership(governor.address)).wait();
+  await (await governor.contract.acceptDAOOwnership()).wait();
+  console.log("DAO ownership handed to the governor");
+
+  return {
+    tokenContractAddress,
+    daoContractAddress: dao.address,
+    daoDeploymentBlock,
+    governorContractAddress: governor.address,
+    stakingContractAddress: staking.address,
+    revenueContractAddress: revenue.address,
+    deviceRegistryContractAddress: deviceRegistry.address,
+    slaContractAddress: sla.address,
+  };
+}
+
 async function main() {
   const projectRoot = path.join(__dirname, "..");
   
@@ -326,7 +409,7 @@ async function main() {
   }
 
   const DEFAULT_RPC = "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3";
-  const rpc = DEFAULT_RPC;
+  const rpc = process.env.DEPLOY_RPC_URL || DEFAULT_RPC;
 
   const provider = new JsonRpcProvider(rpc);
   const wallet = new Wallet(privateKey, provider);
@@ -341,6 +424,8 @@ async function main() {
     const deployedAddress = (factory as any).target || (factory as any).address;
     console.log("UniversalAdapter contract deployed at:", deployedAddress);
 
+    const infra = await deployInfraContracts(wallet);
+
     if (fs.existsSync(walletsPath)) {
       const walletsContent = fs.readFileSync(walletsPath, "utf-8");
       const lines = walletsContent.split("\n").filter(line => line.trim() !== "");
@@ -358,13 +443,19 @@ async function main() {
     if (!fs.existsSync(frontendConfigDir)) {
       console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
     } else {
+      // Keep settings the frontend reads that this script does not own (e.g. the per-chain FHE backends).
+      const configPath = path.join(frontendConfigDir, "config.json");
+      const existingConfig = fs.existsSync(configPath) ? JSON.parse(fs.readFileSync(configPath, "utf-8")) : {};
       const config = {
+        ...existingConfig,
         network: rpc,
         contractAddress: deployedAddress,
+        chainId: Number((await provider.getNetwork()).chainId),
+        ...infra,
         deployer: wallet.address,
       };
       fs.writeFileSync(
-        path.join(frontendConfigDir, "config.json"),
+        configPath,
         JSON.stringify(config, null, 2)
       );
       console.log("Wrote frontend config: frontend/web/src/config.json");
@@ -382,6 +473,13 @@ async function main() {
         if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
         fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalAdapter.json"));
         console.log("Copied ABI to frontend/web/src/abi/UniversalAdapter.json");
+        for (const [source, name] of [["ReFi_Infra_DAO.sol", "ReFiInfraDAOFHE"], ["ReFi_Infra_Governor.sol", "ReFiInfraGovernorFHE"]]) {
+          fs.copyFileSync(
+            path.join(__dirname, "..", "artifacts", "contracts", source, `${name}.json`),
+            path.join(targetAbiPath, `${name}.json`)
+          );
+          console.log(`Copied ABI to frontend/web/src/abi/${name}.json`);
+        }
       } catch (e) {
         console.warn(
           "Failed to copy ABI automatically. Please copy artifacts/.../UniversalAdapter.json manually to frontend/web/src/abi/UniversalAdapter.json",
@@ -2,167 +2,103 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
+import { NavLink, Route, Routes, useNavigate } from "react-router-dom";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import {
+  config,
+  getContractWithSigner,
+  getDAOContractWithSigner
+} from "./contract";
+import { fetchAdminRoles, hasAdminAccess } from "./admin";
+import { parseTokenAmount } from "./batches";
+import { getFheProvider } from "./fhe";
+import { InfrastructureProject, VoteChoice, castVote, fetchProjects, isBatchManagerAccount, isVoterAccount } from "./projects";
+import { TransactionStatus, runTransaction } from "./transaction";
+import AdminConsole from "./components/AdminConsole";
+import BatchPage from "./components/BatchPage";
+import BatchesView from "./components/BatchesView";
+import MyAccount from "./components/MyAccount";
+import NotFound from "./components/NotFound";
+import ProjectPage from "./components/ProjectPage";
+import VoteButtons from "./components/VoteButtons";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
+import { useAccount } from 'wagmi';
 
-interface InfrastructureProject {
-  id: string;
-  name: string;
-  description: string;
-  encryptedBudget: string;
-  encryptedVotes: string;
-  timestamp: number;
-  owner: string;
-  status: "proposed" | "approved" | "rejected" | "completed";
-  category: string;
-}
-
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
-};
-
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    return parseFloat(atob(encryptedData.substring(4)));
-  }
-  return parseFloat(encryptedData);
-};
-
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+const FUNDING_WINDOW_DAYS = 30;
 
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
+  const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
   const [projects, setProjects] = useState<InfrastructureProject[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
-  const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [newProjectData, setNewProjectData] = useState({ name: "", description: "", budget: 0, category: "WiFi" });
-  const [selectedProject, setSelectedProject] = useState<InfrastructureProject | null>(null);
-  const [decryptedBudget, setDecryptedBudget] = useState<number | null>(null);
-  const [decryptedVotes, setDecryptedVotes] = useState<number | null>(null);
-  const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
-  const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
-  const [startTimestamp, setStartTimestamp] = useState<number>(0);
-  const [durationDays, setDurationDays] = useState<number>(30);
+  const [transactionStatus, setTransactionStatus] = useState<TransactionStatus>({ visible: false, status: "pending", message: "" });
+  const [newProjectData, setNewProjectData] = useState({ name: "", description: "", treasury: "", budget: "", category: "WiFi" });
+  const [decryptedBudgets, setDecryptedBudgets] = useState<Record<string, number>>({});
+  const [isVoter, setIsVoter] = useState(false);
+  const [isBatchManager, setIsBatchManager] = useState(false);
+  const [isAdmin, setIsAdmin] = useState(false); // Holds a role the admin console acts on
 
   // Statistics
   const proposedCount = projects.filter(p => p.status === "proposed").length;
   const approvedCount = projects.filter(p => p.status === "approved").length;
   const rejectedCount = projects.filter(p => p.status === "rejected").length;
   const completedCount = projects.filter(p => p.status === "completed").length;
-  const totalBudget = projects.reduce((sum, project) => {
-    return sum + (decryptedBudget && project.id === selectedProject?.id ? decryptedBudget : 0);
-  }, 0);
+  // Budgets are only known once the viewer has decrypted them on a project page.
+  const totalBudget = Object.values(decryptedBudgets).reduce((sum, budget) => sum + budget, 0);
 
   useEffect(() => {
     loadProjects().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
-    };
-    initSignatureParams();
   }, []);
 
+  useEffect(() => {
+    if (!address) { setIsVoter(false); setIsBatchManager(false); setIsAdmin(false); return; }
+    isVoterAccount(address).then(setIsVoter).catch(() => setIsVoter(false));
+    isBatchManagerAccount(address).then(setIsBatchManager).catch(() => setIsBatchManager(false));
+    fetchAdminRoles(address).then(roles => setIsAdmin(hasAdminAccess(roles))).catch(() => setIsAdmin(false));
+  }, [address]);
+
   const loadProjects = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) return;
-      
-      const keysBytes = await contract.getData("project_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing project keys:", e); }
-      }
-      
-      const list: InfrastructureProject[] = [];
-      for (const key of keys) {
-        try {
-          const projectBytes = await contract.getData(`project_${key}`);
-          if (projectBytes.length > 0) {
-            try {
-              const projectData = JSON.parse(ethers.toUtf8String(projectBytes));
-              list.push({ 
-                id: key, 
-                name: projectData.name,
-                description: projectData.description,
-                encryptedBudget: projectData.budget,
-                encryptedVotes: projectData.votes,
-                timestamp: projectData.timestamp, 
-                owner: projectData.owner, 
-                status: projectData.status || "proposed",
-                category: projectData.category || "WiFi"
-              });
-            } catch (e) { console.error(`Error parsing project data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading project ${key}:`, e); }
-      }
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setProjects(list);
+      setProjects(await fetchProjects());
     } catch (e) { console.error("Error loading projects:", e); } 
     finally { setIsRefreshing(false); setLoading(false); }
   };
 
   const submitProject = async () => {
-    if (!isConnected) { alert("Please connect wallet first"); return; }
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
     setCreating(true);
     setTransactionStatus({ visible: true, status: "pending", message: "Encrypting budget data with Zama FHE..." });
     try {
-      const encryptedBudget = FHEEncryptNumber(newProjectData.budget);
-      const encryptedVotes = FHEEncryptNumber(0); // Initialize with 0 votes
-      
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      const projectId = `proj-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`;
-      const projectData = { 
-        name: newProjectData.name,
-        description: newProjectData.description,
-        budget: encryptedBudget,
-        votes: encryptedVotes,
-        timestamp: Math.floor(Date.now() / 1000), 
-        owner: address, 
-        status: "proposed",
-        category: newProjectData.category
-      };
-      
-      await contract.setData(`project_${projectId}`, ethers.toUtf8Bytes(JSON.stringify(projectData)));
-      
-      const keysBytes = await contract.getData("project_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
-      }
-      keys.push(projectId);
-      await contract.setData("project_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
+      const dao = await getDAOContractWithSigner();
+      if (!dao) throw new Error("Failed to get contract with signer");
+
+      const metadata = ethers.toUtf8Bytes(JSON.stringify({ description: newProjectData.description }));
+      const metadataHash = ethers.keccak256(metadata);
+      const adapter = await getContractWithSigner();
+      await (await adapter.setData(`project_meta_${metadataHash}`, metadata)).wait();
+
+      const receipt = await (await dao.createProject(newProjectData.treasury, newProjectData.name, newProjectData.category, metadataHash)).wait();
+      const created = receipt.logs
+        .map((log: any) => { try { return dao.interface.parseLog(log); } catch { return null; } })
+        .find((log: any) => log?.name === "ProjectCreated");
+      if (!created) throw new Error("ProjectCreated event not found");
+
+      // The budget becomes the encrypted funding target of the project's first batch.
+      const budget = await (await getFheProvider()).encryptUint64(config.daoContractAddress, address, await parseTokenAmount(newProjectData.budget));
+      const startTime = Math.floor(Date.now() / 1000);
+      await (await dao.openBatch(created.args.projectId, startTime, startTime + FUNDING_WINDOW_DAYS * 86400, budget.handle, budget.inputProof)).wait();
       
       setTransactionStatus({ visible: true, status: "success", message: "Project proposal submitted with FHE encryption!" });
       await loadProjects();
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewProjectData({ name: "", description: "", budget: 0, category: "WiFi" });
+        setNewProjectData({ name: "", description: "", treasury: "", budget: "", category: "WiFi" });
+        navigate(`/projects/${created.args.projectId}`);
       }, 2000);
     } catch (e: any) {
       const errorMessage = e.message.includes("user rejected transaction") ? "Transaction rejected by user" : "Submission failed: " + (e.message || "Unknown error");
@@ -171,87 +107,22 @@ const App: React.FC = () => {
     } finally { setCreating(false); }
   };
 
-  const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
-    if (!isConnected) { alert("Please connect wallet first"); return null; }
-    setIsDecrypting(true);
-    try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      return FHEDecryptNumber(encryptedData);
-    } catch (e) { console.error("Decryption failed:", e); return null; } 
-    finally { setIsDecrypting(false); }
+  const voteForProject = async (project: InfrastructureProject, choice: VoteChoice) => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    if (project.proposalId === null) { alert("No governance vote is open for this project"); return; }
+    const proposalId = project.proposalId;
+    const voted = await runTransaction(setTransactionStatus, {
+      pending: "Processing encrypted vote with FHE...",
+      success: "FHE vote recorded successfully!",
+      failure: "Vote failed: "
+    }, () => castVote(proposalId, address, choice));
+    if (voted) await loadProjects();
   };
 
-  const voteForProject = async (projectId: string) => {
-    if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Processing encrypted vote with FHE..." });
-    try {
-      const contract = await getContractReadOnly();
-      if (!contract) throw new Error("Failed to get contract");
-      const projectBytes = await contract.getData(`project_${projectId}`);
-      if (projectBytes.length === 0) throw new Error("Project not found");
-      const projectData = JSON.parse(ethers.toUtf8String(projectBytes));
-      
-      const newVotes = FHEEncryptNumber(FHEDecryptNumber(projectData.votes) + 1);
-      
-      const contractWithSigner = await getContractWithSigner();
-      if (!contractWithSigner) throw new Error("Failed to get contract with signer");
-      
-      const updatedProject = { ...projectData, votes: newVotes };
-      await contractWithSigner.setData(`project_${projectId}`, ethers.toUtf8Bytes(JSON.stringify(updatedProject)));
-      
-      setTransactionStatus({ visible: true, status: "success", message: "FHE vote recorded successfully!" });
-      await loadProjects();
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
-    } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Vote failed: " + (e.message || "Unknown error") });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-    }
+  const recordDecryptedBudget = (projectId: string, budget: number) => {
+    setDecryptedBudgets(current => ({ ...current, [projectId]: budget }));
   };
 
-  const approveProject = async (projectId: string) => {
-    if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Updating project status with FHE..." });
-    try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      const projectBytes = await contract.getData(`project_${projectId}`);
-      if (projectBytes.length === 0) throw new Error("Project not found");
-      const projectData = JSON.parse(ethers.toUtf8String(projectBytes));
-      const updatedProject = { ...projectData, status: "approved" };
-      await contract.setData(`project_${projectId}`, ethers.toUtf8Bytes(JSON.stringify(updatedProject)));
-      setTransactionStatus({ visible: true, status: "success", message: "Project approved with FHE protection!" });
-      await loadProjects();
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
-    } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Approval failed: " + (e.message || "Unknown error") });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-    }
-  };
-
-  const completeProject = async (projectId: string) => {
-    if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Updating project status with FHE..." });
-    try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      const projectBytes = await contract.getData(`project_${projectId}`);
-      if (projectBytes.length === 0) throw new Error("Project not found");
-      const projectData = JSON.parse(ethers.toUtf8String(projectBytes));
-      const updatedProject = { ...projectData, status: "completed" };
-      await contract.setData(`project_${projectId}`, ethers.toUtf8Bytes(JSON.stringify(updatedProject)));
-      setTransactionStatus({ visible: true, status: "success", message: "Project marked as completed!" });
-      await loadProjects();
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
-    } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Completion failed: " + (e.message || "Unknown error") });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-    }
-  };
-
-  const isOwner = (projectAddress: string) => address?.toLowerCase() === projectAddress.toLowerCase();
-
   if (loading) return (
     <div className="loading-screen">
       <div className="tech-spinner"></div>
@@ -259,6 +130,8 @@ const App: React.FC = () => {
     </div>
   );
 
+  const tabClass = ({ isActive }: { isActive: boolean }) => `tech-button ${isActive ? "active" : ""}`;
+
   return (
     <div className="app-container tech-theme">
       <header className="app-header">
@@ -269,9 +142,17 @@ const App: React.FC = () => {
           <h1>ReFi<span>Infra</span>DAO</h1>
         </div>
         <div className="header-actions">
-          <button onClick={() => setShowCreateModal(true)} className="create-project-btn tech-button">
-            <div className="add-icon"></div>Propose Project
-          </button>
+          <nav className="view-tabs">
+            <NavLink to="/" end className={tabClass}>Projects</NavLink>
+            <NavLink to="/batches" className={tabClass}>Batches</NavLink>
+            {isAdmin && <NavLink to="/admin" className={tabClass}>Admin</NavLink>}
+            <NavLink to="/me" className={tabClass}>My Account</NavLink>
+          </nav>
+          {isBatchManager && (
+            <button onClick={() => setShowCreateModal(true)} className="create-project-btn tech-button">
+              <div className="add-icon"></div>Propose Project
+            </button>
+          )}
           <div className="wallet-connect-wrapper">
             <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/>
           </div>
@@ -319,6 +200,10 @@ const App: React.FC = () => {
                 <div className="stat-value">{approvedCount}</div>
                 <div className="stat-label">Approved</div>
               </div>
+              <div className="stat-item">
+                <div className="stat-value">{rejectedCount}</div>
+                <div className="stat-label">Rejected</div>
+              </div>
               <div className="stat-item">
                 <div className="stat-value">{completedCount}</div>
                 <div className="stat-label">Completed</div>
@@ -326,7 +211,7 @@ const App: React.FC = () => {
             </div>
             <div className="total-budget">
               <span>Total Community Budget:</span>
-              <strong>{totalBudget.toLocaleString()} USD</strong>
+              <strong>{totalBudget.toLocaleString()} tokens</strong>
             </div>
           </div>
 
@@ -342,68 +227,69 @@ const App: React.FC = () => {
           </div>
         </div>
 
-        {/* Projects List */}
-        <div className="projects-section">
-          <div className="section-header">
-            <h2>Community Infrastructure Projects</h2>
-            <div className="header-actions">
-              <button onClick={loadProjects} className="refresh-btn tech-button" disabled={isRefreshing}>
-                {isRefreshing ? "Refreshing..." : "Refresh"}
-              </button>
-            </div>
-          </div>
-          <div className="projects-list tech-card">
-            <div className="table-header">
-              <div className="header-cell">Project</div>
-              <div className="header-cell">Category</div>
-              <div className="header-cell">Proposer</div>
-              <div className="header-cell">Date</div>
-              <div className="header-cell">Status</div>
-              <div className="header-cell">Actions</div>
-            </div>
-            {projects.length === 0 ? (
-              <div className="no-projects">
-                <div className="no-projects-icon"></div>
-                <p>No infrastructure projects found</p>
-                <button className="tech-button primary" onClick={() => setShowCreateModal(true)}>Propose First Project</button>
-              </div>
-            ) : projects.map(project => (
-              <div className="project-row" key={project.id} onClick={() => setSelectedProject(project)}>
-                <div className="table-cell project-name">{project.name}</div>
-                <div className="table-cell">{project.category}</div>
-                <div className="table-cell">{project.owner.substring(0, 6)}...{project.owner.substring(38)}</div>
-                <div className="table-cell">{new Date(project.timestamp * 1000).toLocaleDateString()}</div>
-                <div className="table-cell">
-                  <span className={`status-badge ${project.status}`}>{project.status}</span>
-                </div>
-                <div className="table-cell actions">
-                  <button 
-                    className="action-btn tech-button vote" 
-                    onClick={(e) => { e.stopPropagation(); voteForProject(project.id); }}
-                  >
-                    Vote
+        <Routes>
+          <Route path="/" element={
+            <div className="projects-section">
+              <div className="section-header">
+                <h2>Community Infrastructure Projects</h2>
+                <div className="header-actions">
+                  <button onClick={loadProjects} className="refresh-btn tech-button" disabled={isRefreshing}>
+                    {isRefreshing ? "Refreshing..." : "Refresh"}
                   </button>
-                  {isOwner(project.owner) && project.status === "proposed" && (
-                    <button 
-                      className="action-btn tech-button success" 
-                      onClick={(e) => { e.stopPropagation(); approveProject(project.id); }}
-                    >
-                      Approve
-                    </button>
-                  )}
-                  {isOwner(project.owner) && project.status === "approved" && (
-                    <button 
-                      className="action-btn tech-button complete" 
-                      onClick={(e) => { e.stopPropagation(); completeProject(project.id); }}
-                    >
-                      Complete
-                    </button>
-                  )}
                 </div>
               </div>
-            ))}
-          </div>
-        </div>
+              <div className="projects-list tech-card">
+                <div className="table-header">
+                  <div className="header-cell">Project</div>
+                  <div className="header-cell">Category</div>
+                  <div className="header-cell">Proposer</div>
+                  <div className="header-cell">Date</div>
+                  <div className="header-cell">Status</div>
+                  <div className="header-cell">Actions</div>
+                </div>
+                {projects.length === 0 ? (
+                  <div className="no-projects">
+                    <div className="no-projects-icon"></div>
+                    <p>No infrastructure projects found</p>
+                    {isBatchManager && (
+                      <button className="tech-button primary" onClick={() => setShowCreateModal(true)}>Propose First Project</button>
+                    )}
+                  </div>
+                ) : projects.map(project => (
+                  <div className="project-row" key={project.id} onClick={() => navigate(`/projects/${project.id}`)}>
+                    <div className="table-cell project-name">{project.name}</div>
+                    <div className="table-cell">{project.category}</div>
+                    <div className="table-cell">{project.owner.substring(0, 6)}...{project.owner.substring(38)}</div>
+                    <div className="table-cell">{new Date(project.timestamp * 1000).toLocaleDateString()}</div>
+                    <div className="table-cell">
+                      <span className={`status-badge ${project.status}`}>{project.status}</span>
+                    </div>
+                    <div className="table-cell actions">
+                      <VoteButtons
+                        disabled={!isVoter || project.proposalId === null || project.tally !== null}
+                        onVote={choice => voteForProject(project, choice)}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          } />
+          <Route path="/projects/:id" element={
+            <ProjectPage address={address} isConnected={isConnected} isVoter={isVoter} setTransactionStatus={setTransactionStatus} onBudgetDecrypted={recordDecryptedBudget} />
+          } />
+          <Route path="/batches" element={
+            <BatchesView address={address} isConnected={isConnected} setTransactionStatus={setTransactionStatus} />
+          } />
+          <Route path="/batches/:id" element={
+            <BatchPage address={address} isConnected={isConnected} setTransactionStatus={setTransactionStatus} />
+          } />
+          <Route path="/admin" element={
+            <AdminConsole address={address} isConnected={isConnected} setTransactionStatus={setTransactionStatus} />
+          } />
+          <Route path="/me" element={<MyAccount address={address} isConnected={isConnected} />} />
+          <Route path="*" element={<NotFound />} />
+        </Routes>
       </div>
 
       {/* Create Project Modal */}
@@ -417,24 +303,6 @@ const App: React.FC = () => {
         />
       )}
 
-      {/* Project Detail Modal */}
-      {selectedProject && (
-        <ProjectDetailModal 
-          project={selectedProject} 
-          onClose={() => { 
-            setSelectedProject(null); 
-            setDecryptedBudget(null);
-            setDecryptedVotes(null);
-          }} 
-          decryptedBudget={decryptedBudget}
-          decryptedVotes={decryptedVotes}
-          setDecryptedBudget={setDecryptedBudget}
-          setDecryptedVotes={setDecryptedVotes}
-          isDecrypting={isDecrypting} 
-          decryptWithSignature={decryptWithSignature}
-        />
-      )}
-
       {/* Transaction Status Modal */}
       {transactionStatus.visible && (
         <div className="transaction-modal">
@@ -487,16 +355,15 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
     setProjectData({ ...projectData, [name]: value });
   };
 
-  const handleBudgetChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setProjectData({ ...projectData, [name]: parseFloat(value) });
-  };
-
   const handleSubmit = () => {
-    if (!projectData.name || !projectData.budget) { 
+    if (!projectData.name || !(Number(projectData.budget) > 0)) { 
       alert("Please fill required fields"); 
       return; 
     }
+    if (!ethers.isAddress(projectData.treasury)) {
+      alert("Please enter a valid treasury address");
+      return;
+    }
     onSubmit();
   };
 
@@ -549,15 +416,26 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
               />
             </div>
             <div className="form-group">
-              <label>Estimated Budget (USD) *</label>
+              <label>Treasury Address *</label>
+              <input 
+                type="text" 
+                name="treasury" 
+                value={projectData.treasury} 
+                onChange={handleChange} 
+                placeholder="Where released funds are sent" 
+                className="tech-input"
+              />
+            </div>
+            <div className="form-group">
+              <label>Funding Target (tokens) *</label>
               <input 
                 type="number" 
                 name="budget" 
                 value={projectData.budget} 
-                onChange={handleBudgetChange} 
+                onChange={handleChange} 
                 placeholder="10000" 
                 className="tech-input"
-                step="100"
+                step="any"
                 min="0"
               />
             </div>
@@ -567,12 +445,12 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
             <div className="preview-container">
               <div className="plain-data">
                 <span>Plain Budget:</span>
-                <div>{projectData.budget || '0'} USD</div>
+                <div>{projectData.budget || '0'} tokens</div>
               </div>
               <div className="encryption-arrow">→</div>
               <div className="encrypted-data">
                 <span>Encrypted Data:</span>
-                <div>{projectData.budget ? FHEEncryptNumber(projectData.budget).substring(0, 50) + '...' : 'No value entered'}</div>
+                <div>{projectData.budget ? 'Encrypted in your browser on submit' : 'No value entered'}</div>
               </div>
             </div>
           </div>
@@ -595,138 +473,4 @@ const ModalCreate: React.FC<ModalCreateProps> = ({ onSubmit, onClose, creating,
   );
 };
 
-interface ProjectDetailModalProps {
-  project: InfrastructureProject;
-  onClose: () => void;
-  decryptedBudget: number | null;
-  decryptedVotes: number | null;
-  setDecryptedBudget: (value: number | null) => void;
-  setDecryptedVotes: (value: number | null) => void;
-  isDecrypting: boolean;
-  decryptWithSignature: (encryptedData: string) => Promise<number | null>;
-}
-
-const ProjectDetailModal: React.FC<ProjectDetailModalProps> = ({ 
-  project, 
-  onClose, 
-  decryptedBudget,
-  decryptedVotes,
-  setDecryptedBudget,
-  setDecryptedVotes,
-  isDecrypting, 
-  decryptWithSignature 
-}) => {
-  const handleDecryptBudget = async () => {
-    if (decryptedBudget !== null) { 
-      setDecryptedBudget(null); 
-      return; 
-    }
-    const decrypted = await decryptWithSignature(project.encryptedBudget);
-    if (decrypted !== null) setDecryptedBudget(decrypted);
-  };
-
-  const handleDecryptVotes = async () => {
-    if (decryptedVotes !== null) { 
-      setDecryptedVotes(null); 
-      return; 
-    }
-    const decrypted = await decryptWithSignature(project.encryptedVotes);
-    if (decrypted !== null) setDecryptedVotes(decrypted);
-  };
-
-  return (
-    <div className="modal-overlay">
-      <div className="project-detail-modal tech-card">
-        <div className="modal-header">
-          <h2>{project.name}</h2>
-          <button onClick={onClose} className="close-modal">&times;</button>
-        </div>
-        <div className="modal-body">
-          <div className="project-info">
-            <div className="info-item">
-              <span>Category:</span>
-              <strong>{project.category}</strong>
-            </div>
-            <div className="info-item">
-              <span>Proposer:</span>
-              <strong>{project.owner.substring(0, 6)}...{project.owner.substring(38)}</strong>
-            </div>
-            <div className="info-item">
-              <span>Date Proposed:</span>
-              <strong>{new Date(project.timestamp * 1000).toLocaleString()}</strong>
-            </div>
-            <div className="info-item">
-              <span>Status:</span>
-              <strong className={`status-badge ${project.status}`}>{project.status}</strong>
-            </div>
-          </div>
-          
-          <div className="project-description">
-            <h3>Description</h3>
-            <p>{project.description || "No description provided"}</p>
-          </div>
-          
-          <div className="encrypted-data-section">
-            <h3>Encrypted Project Data</h3>
-            
-            <div className="data-item">
-              <div className="data-label">Budget:</div>
-              <div className="data-value">
-                {project.encryptedBudget.substring(0, 100)}...
-                <div className="fhe-tag">
-                  <div className="fhe-icon"></div>
-                  <span>FHE Encrypted</span>
-                </div>
-                <button 
-                  className="decrypt-btn tech-button" 
-                  onClick={handleDecryptBudget} 
-                  disabled={isDecrypting}
-                >
-                  {isDecrypting ? <span className="decrypt-spinner"></span> : decryptedBudget !== null ? "Hide Budget" : "Decrypt Budget"}
-                </button>
-              </div>
-              {decryptedBudget !== null && (
-                <div className="decrypted-value">
-                  <strong>Decrypted Budget:</strong> {decryptedBudget.toLocaleString()} USD
-                </div>
-              )}
-            </div>
-            
-            <div className="data-item">
-              <div className="data-label">Votes:</div>
-              <div className="data-value">
-                {project.encryptedVotes.substring(0, 100)}...
-                <div className="fhe-tag">
-                  <div className="fhe-icon"></div>
-                  <span>FHE Encrypted</span>
-                </div>
-                <button 
-                  className="decrypt-btn tech-button" 
-                  onClick={handleDecryptVotes} 
-                  disabled={isDecrypting}
-                >
-                  {isDecrypting ? <span className="decrypt-spinner"></span> : decryptedVotes !== null ? "Hide Votes" : "Decrypt Votes"}
-                </button>
-              </div>
-              {decryptedVotes !== null && (
-                <div className="decrypted-value">
-                  <strong>Decrypted Votes:</strong> {decryptedVotes}
-                </div>
-              )}
-            </div>
-          </div>
-          
-          <div className="decryption-notice">
-            <div className="warning-icon"></div>
-            <span>Decrypted data requires wallet signature verification</span>
-          </div>
-        </div>
-        <div className="modal-footer">
-          <button onClick={onClose} className="close-btn tech-button">Close</button>
-        </div>
-      </div>
-    </div>
-  );
-};
-
 export default App;
@@ -0,0 +1,77 @@
+// admin.ts
+import {
+  getDAOContractReadOnly,
+  getDAOContractWithSigner,
+  getGovernorContractReadOnly,
+  getGovernorContractWithSigner,
+  normAddr
+} from "./contract";
+
+// The DAO owner implicitly holds every role, but after deployment the owner is the governor.
+export interface AdminRoles {
+  owner: boolean;
+  admin: boolean; // May queue owner-only changes on the governor's timelock
+  pauser: boolean;
+  batchManager: boolean;
+}
+
+export interface TimelockOperation {
+  id: number;
+  description: string; // The queued DAO call, e.g. `addProvider(0x...)`
+  eta: number;
+}
+
+const NO_ROLES: AdminRoles = { owner: false, admin: false, pauser: false, batchManager: false };
+
+export async function fetchAdminRoles(address: string): Promise<AdminRoles> {
+  const dao = await getDAOContractReadOnly();
+  if (!dao) return NO_ROLES;
+  if (normAddr(await dao.owner()) === normAddr(address)) return { owner: true, admin: true, pauser: true, batchManager: true };
+  return {
+    owner: false,
+    admin: await dao.hasRole(await dao.ADMIN_ROLE(), address),
+    pauser: await dao.hasRole(await dao.PAUSER_ROLE(), address),
+    batchManager: await dao.hasRole(await dao.BATCH_MANAGER_ROLE(), address)
+  };
+}
+
+export function hasAdminAccess(roles: AdminRoles) {
+  return roles.admin || roles.pauser || roles.batchManager;
+}
+
+// Owner-only DAO changes: sent directly by the owner, otherwise queued on the governor's timelock for an admin.
+export async function sendOwnerOperation(roles: AdminRoles, functionName: string, args: unknown[]) {
+  const dao = await getDAOContractWithSigner();
+  if (!dao) throw new Error("Failed to get contract with signer");
+  if (roles.owner) {
+    await (await dao.getFunction(functionName)(...args)).wait();
+    return;
+  }
+  const governor = await getGovernorContractWithSigner();
+  await (await governor.queueOperation(dao.interface.encodeFunctionData(functionName, args))).wait();
+}
+
+// Queued operations that have neither run nor been cancelled, oldest first.
+export async function fetchPendingOperations(): Promise<TimelockOperation[]> {
+  const governor = await getGovernorContractReadOnly();
+  const dao = await getDAOContractReadOnly();
+  if (!governor || !dao) return [];
+  const list: TimelockOperation[] = [];
+  for (let id = 1; id <= Number(await governor.operationCount()); id++) {
+    const operation = await governor.timelockOperations(id);
+    if (operation.executed || operation.cancelled) continue;
+    const call = dao.interface.parseTransaction({ data: operation.data });
+    list.push({
+      id,
+      description: call ? `${call.name}(${call.args.join(", ")})` : operation.data,
+      eta: Number(operation.eta)
+    });
+  }
+  return list;
+}
+
+// Anyone may execute an operation once its delay has passed.
+export async function executeOperation(operationId: number) {
+  const governor = await getGovernorContractWithSigner();
+  await (await governor.executeOperation(operationId)).wait();
+}
@@ -0,0 +1,235 @@
+// batches.ts
+import { useEffect, useRef } from "react";
+import { ethers } from "ethers";
+import {
+  config,
+  getDAOContractReadOnly,
+  getDAOContractWithSigner,
+  getTokenContractReadOnly,
+  getTokenContractWithSigner
+} from "./contract";
+import { getFheProvider } from "./fhe";
+
+export interface BatchSummary {
+  totalContributions: number;
+  totalUsage: number;
+  overflowed: boolean;
+  noiseBound: number;
+}
+
+export interface FundingBatch {
+  id: number;
+  projectId: number;
+  projectTitle: string;
+  status: BatchStatus;
+  startTime: number;
+  endTime: number;
+  decryptionRequestedAt: number;
+  contributorCount: number;
+  providerCount: number;
+  summary: BatchSummary | null;
+}
+
+// When a batch summary may be decrypted; read from the DAO.
+export interface SummaryPolicy {
+  minContributors: number;
+  minProviders: number;
+  decryptionTimeout: number;
+}
+
+// Mirrors ReFiInfraDAOFHE.BatchStatus, in declaration order.
+const BATCH_STATUSES = ["open", "closed", "decrypting", "finalized", "cancelled"] as const;
+export type BatchStatus = typeof BATCH_STATUSES[number];
+
+// How long the DAO may pull contributions from the token once approved as operator.
+const OPERATOR_DURATION_SECONDS = 86400;
+
+// Encrypted amounts are euint64.
+const MAX_UINT64 = 2n ** 64n - 1n;
+
+export async function fetchBatches(): Promise<FundingBatch[]> {
+  const dao = await getDAOContractReadOnly();
+  if (!dao) return [];
+  const titles = await loadProjectTitles(dao);
+  const batchCount = Number(await dao.batchCount());
+  const list: FundingBatch[] = [];
+  for (const batch of await dao.listBatches(0, batchCount)) {
+    list.push(await toFundingBatch(dao, titles, batch));
+  }
+  return list.sort((a, b) => b.id - a.id);
+}
+
+// Resolves to null for ids the DAO has never issued, so pages can show a not-found state.
+export async function fetchBatch(id: string): Promise<FundingBatch | null> {
+  const dao = await getDAOContractReadOnly();
+  if (!dao) throw new Error("DAO contract not available");
+  if (!/^\d+$/.test(id) || BigInt(id) === 0n || BigInt(id) > (await dao.batchCount())) return null;
+  return toFundingBatch(dao, await loadProjectTitles(dao), await dao.getBatch(id));
+}
+
+export async function fetchSummaryPolicy(): Promise<SummaryPolicy | null> {
+  const dao = await getDAOContractReadOnly();
+  if (!dao) return null;
+  return {
+    minContributors: Number(await dao.minContributorsForSummary()),
+    minProviders: Number(await dao.minProvidersForSummary()),
+    decryptionTimeout: Number(await dao.decryptionTimeout())
+  };
+}
+
+export async function isProviderAccount(address: string): Promise<boolean> {
+  const dao = await getDAOContractReadOnly();
+  return dao ? dao.isProvider(address) : false;
+}
+
+// Batches the account has contributed to, newest first; each entry keeps its encrypted balance handle.
+export async function fetchContributions(contributor: string): Promise<{ batch: FundingBatch; balance: string }[]> {
+  const dao = await getDAOContractReadOnly();
+  if (!dao) return [];
+  const titles = await loadProjectTitles(dao);
+  const list: { batch: FundingBatch; balance: string }[] = [];
+  for (const batchId of await dao.getContributionHistory(contributor)) {
+    list.push({
+      batch: await toFundingBatch(dao, titles, await dao.getBatch(batchId)),
+      balance: await dao.contributionOf(batchId, contributor)
+    });
+  }
+  return list.sort((a, b) => b.batch.id - a.batch.id);
+}
+
+export function isAcceptingContributions(batch: FundingBatch) {
+  const now = Math.floor(Date.now() / 1000);
+  return batch.status === "open" && now >= batch.startTime && now < batch.endTime;
+}
+
+// Anyone may close a batch once its window has ended; the DAO then requests the summary if thresholds are met.
+export function canFinalize(batch: FundingBatch) {
+  const now = Math.floor(Date.now() / 1000);
+  return batch.status === "open" && now >= batch.endTime;
+}
+
+export function meetsSummaryThresholds(batch: FundingBatch, policy: SummaryPolicy) {
+  return batch.contributorCount >= policy.minContributors && batch.providerCount >= policy.minProviders;
+}
+
+// A stalled request can be superseded once decryptionTimeout has passed.
+export function canRequestSummary(batch: FundingBatch, policy: SummaryPolicy) {
+  const now = Math.floor(Date.now() / 1000);
+  return meetsSummaryThresholds(batch, policy) && (
+    batch.status === "closed" || (batch.status === "decrypting" && now >= batch.decryptionRequestedAt + policy.decryptionTimeout)
+  );
+}
+
+// Converts a decimal amount of the contribution token, as typed by the user, into the base units the DAO encrypts.
+export async function parseTokenAmount(amount: string): Promise<bigint> {
+  const units = ethers.parseUnits(amount, await tokenDecimals());
+  if (units <= 0n || units > MAX_UINT64) throw new Error("Amount is out of range");
+  return units;
+}
+
+// The reverse of parseTokenAmount, for showing decrypted amounts.
+export async function toTokenAmount(units: number | bigint): Promise<number> {
+  return Number(ethers.formatUnits(BigInt(units), await tokenDecimals()));
+}
+
+async function tokenDecimals(): Promise<number> {
+  const dao = await getDAOContractReadOnly();
+  if (!dao) throw new Error("DAO contract not available");
+  const token = await getTokenContractReadOnly(await dao.contributionToken());
+  if (!token) throw new Error("Token contract not available");
+  return Number(await token.decimals());
+}
+
+// `onStep` reports progress, since a first contribution needs an extra operator approval.
+export async function submitContribution(batchId: number, contributor: string, amount: string, onStep: (message: string) => void) {
+  const dao = await getDAOContractWithSigner();
+  if (!dao) throw new Error("Failed to get contract with signer");
+
+  // The DAO escrows contributions with confidentialTransferFrom, so it must be an operator first.
+  const token = await getTokenContractWithSigner(await dao.contributionToken());
+  if (!(await token.isOperator(contributor, config.daoContractAddress))) {
+    onStep("Approving the DAO as token operator...");
+    await (await token.setOperator(config.daoContractAddress, Math.floor(Date.now() / 1000) + OPERATOR_DURATION_SECONDS)).wait();
+  }
+
+  onStep("Encrypting contribution with Zama FHE...");
+  const encrypted = await (await getFheProvider()).encryptUint64(config.daoContractAddress, contributor, await parseTokenAmount(amount));
+  await (await dao.submitContribution(batchId, encrypted.handle, encrypted.inputProof)).wait();
+}
+
+export async function reportUsage(batchId: number, provider: string, usage: number) {
+  const dao = await getDAOContractWithSigner();
+  if (!dao) throw new Error("Failed to get contract with signer");
+  const encrypted = await (await getFheProvider()).encryptUint64(config.daoContractAddress, provider, Math.round(usage));
+  await (await dao.reportUsage(batchId, encrypted.handle, encrypted.inputProof)).wait();
+}
+
+export async function finalizeBatch(batchId: number) {
+  const dao = await getDAOContractWithSigner();
+  if (!dao) throw new Error("Failed to get contract with signer");
+  await (await dao.finalize(batchId)).wait();
+}
+
+export async function requestSummary(batchId: number) {
+  const dao = await getDAOContractWithSigner();
+  if (!dao) throw new Error("Failed to get contract with signer");
+  await (await dao.requestBatchSummaryDecryption(batchId)).wait();
+}
+
+// Summaries land in a later block via the decryption oracle's callback, so views listen rather than poll.
+export function useDecryptionCompleted(onCompleted: (batchId: number, summary: Omit<BatchSummary, "noiseBound">) => void) {
+  // Keep the latest callback so the subscription does not need to be renewed on every render.
+  const callback = useRef(onCompleted);
+  callback.current = onCompleted;
+  useEffect(() => {
+    let dao: Awaited<ReturnType<typeof getDAOContractReadOnly>> = null;
+    let cancelled = false;
+    const listener = (_requestId: bigint, batchId: bigint, totalContributions: bigint, totalUsage: bigint, overflowed: boolean) => {
+      callback.current(Number(batchId), { totalContributions: Number(totalContributions), totalUsage: Number(totalUsage), overflowed });
+    };
+    getDAOContractReadOnly().then(contract => {
+      if (cancelled || !contract) return;
+      dao = contract;
+      dao.on("DecryptionCompleted", listener);
+    });
+    return () => {
+      cancelled = true;
+      dao?.off("DecryptionCompleted", listener);
+    };
+  }, []);
+}
+
+async function loadProjectTitles(dao: ethers.Contract) {
+  const projectCount = Number(await dao.projectCount());
+  const titles = new Map<number, string>();
+  for (const project of await dao.listProjects(0, projectCount)) {
+    titles.set(Number(project.id), project.title);
+  }
+  return titles;
+}
+
+async function toFundingBatch(dao: ethers.Contract, titles: Map<number, string>, batch: any): Promise<FundingBatch> {
+  const status = BATCH_STATUSES[Number(batch.status)];
+  let summary: BatchSummary | null = null;
+  if (status === "finalized") {
+    const stored = await dao.getBatchSummary(batch.id);
+    summary = {
+      totalContributions: Number(stored.totalContributions),
+      totalUsage: Number(stored.totalUsage),
+      overflowed: stored.overflowed,
+      noiseBound: Number(stored.noiseBound)
+    };
+  }
+  return {
+    id: Number(batch.id),
+    projectId: Number(batch.projectId),
+    projectTitle: titles.get(Number(batch.projectId)) || `Project #${batch.projectId}`,
+    status,
+    startTime: Number(batch.startTime),
+    endTime: Number(batch.endTime),
+    decryptionRequestedAt: Number(batch.decryptionRequestedAt),
+    contributorCount: Number(batch.contributorCount),
+    providerCount: Number(batch.providerCount),
+    summary
+  };
+}
@@ -0,0 +1,322 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import {
+  config,
+  getDAOContractReadOnly,
+  getDAOContractWithSigner
+} from '../contract';
+import {
+  AdminRoles,
+  TimelockOperation,
+  executeOperation,
+  fetchAdminRoles,
+  fetchPendingOperations,
+  hasAdminAccess,
+  sendOwnerOperation
+} from '../admin';
+import { parseTokenAmount } from '../batches';
+import { getFheProvider } from '../fhe';
+import { SetTransactionStatus, runTransaction } from '../transaction';
+
+interface AdminState {
+  owner: string;
+  pendingOwner: string;
+  paused: boolean;
+  cooldownSeconds: number;
+  providers: string[];
+  projects: { id: number; title: string }[];
+  openBatches: { id: number; projectTitle: string; endTime: number }[];
+  operations: TimelockOperation[];
+  roles: AdminRoles | null; // Of the connected account
+}
+
+const BATCH_STATUS_OPEN = 0;
+
+interface AdminConsoleProps {
+  address?: string;
+  isConnected: boolean;
+  setTransactionStatus: SetTransactionStatus;
+}
+
+const AdminConsole: React.FC<AdminConsoleProps> = ({ address, isConnected, setTransactionStatus }) => {
+  const [state, setState] = useState<AdminState | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(true);
+  const [providerAddress, setProviderAddress] = useState("");
+  const [cooldownInput, setCooldownInput] = useState("");
+  const [newOwner, setNewOwner] = useState("");
+  const [batchForm, setBatchForm] = useState({ projectId: "", start: "", end: "", target: "" });
+  const [batchToClose, setBatchToClose] = useState("");
+
+  useEffect(() => {
+    loadState();
+  }, [address]);
+
+  const loadState = async () => {
+    setIsRefreshing(true);
+    try {
+      const dao = await getDAOContractReadOnly();
+      if (!dao) return;
+
+      // Replay provider membership in log order; removals may be followed by re-additions.
+      const fromBlock = config.daoDeploymentBlock || 0;
+      const events = [
+        ...await dao.queryFilter(dao.filters.ProviderAdded(), fromBlock),
+        ...await dao.queryFilter(dao.filters.ProviderRemoved(), fromBlock)
+      ].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index) as ethers.EventLog[];
+      const providers = new Set<string>();
+      for (const event of events) {
+        if (event.eventName === "ProviderAdded") providers.add(event.args.provider);
+        else providers.delete(event.args.provider);
+      }
+
+      const projectCount = Number(await dao.projectCount());
+      const projects = (await dao.listProjects(0, projectCount)).map((project: any) => ({ id: Number(project.id), title: project.title }));
+      const titles = new Map(projects.map((project: { id: number; title: string }) => [project.id, project.title]));
+      const batchCount = Number(await dao.batchCount());
+      const openBatches = (await dao.listBatches(0, batchCount))
+        .filter((batch: any) => Number(batch.status) === BATCH_STATUS_OPEN)
+        .map((batch: any) => ({
+          id: Number(batch.id),
+          projectTitle: titles.get(Number(batch.projectId)) || `Project #${batch.projectId}`,
+          endTime: Number(batch.endTime)
+        }));
+
+      setState({
+        owner: await dao.owner(),
+        pendingOwner: await dao.pendingOwner(),
+        paused: await dao.paused(),
+        cooldownSeconds: Number(await dao.cooldownSeconds()),
+        providers: Array.from(providers),
+        projects,
+        openBatches,
+        operations: await fetchPendingOperations(),
+        roles: address ? await fetchAdminRoles(address) : null
+      });
+    } catch (e) { console.error("Error loading admin state:", e); }
+    finally { setIsRefreshing(false); }
+  };
+
+  const sendAdminTransaction = async (pendingMessage: string, successMessage: string, send: (dao: ethers.Contract) => Promise<void>) => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    const sent = await runTransaction(setTransactionStatus, { pending: pendingMessage, success: successMessage, failure: "Transaction failed: " }, async () => {
+      const dao = await getDAOContractWithSigner();
+      if (!dao) throw new Error("Failed to get contract with signer");
+      await send(dao);
+    });
+    if (sent) await loadState();
+  };
+
+  // Owner-only changes; unless the connected account owns the DAO, they are queued on the governor's timelock.
+  const sendOwnerTransaction = (pendingMessage: string, successMessage: string, functionName: string, args: unknown[], onSent: () => void = () => {}) => {
+    const roles = state!.roles!;
+    return sendAdminTransaction(pendingMessage, roles.owner ? successMessage : "Change queued on the governor timelock", async () => {
+      await sendOwnerOperation(roles, functionName, args);
+      onSent();
+    });
+  };
+
+  const requireAddress = (value: string) => {
+    if (!ethers.isAddress(value)) { alert("Please enter a valid address"); return false; }
+    return true;
+  };
+
+  const addProvider = () => requireAddress(providerAddress) &&
+    sendOwnerTransaction("Adding provider...", "Provider added", "addProvider", [providerAddress], () => setProviderAddress(""));
+
+  const removeProvider = (provider: string) =>
+    sendOwnerTransaction("Removing provider...", "Provider removed", "removeProvider", [provider]);
+
+  const togglePause = () => sendAdminTransaction(state?.paused ? "Unpausing DAO..." : "Pausing DAO...", state?.paused ? "DAO unpaused" : "DAO paused", async dao => {
+    await (await (state?.paused ? dao.unpause() : dao.pause())).wait();
+  });
+
+  const updateCooldown = () => {
+    if (!/^\d+$/.test(cooldownInput)) { alert("Please enter the cooldown in whole seconds"); return; }
+    sendOwnerTransaction("Updating cooldown...", "Cooldown updated", "setCooldownSeconds", [cooldownInput], () => setCooldownInput(""));
+  };
+
+  // Two-step: the new owner still has to call acceptOwnership from their own wallet.
+  const transferOwnership = () => requireAddress(newOwner) &&
+    sendOwnerTransaction("Starting ownership transfer...", "Ownership transfer started", "transferOwnership", [newOwner], () => setNewOwner(""));
+
+  const execute = (operationId: number) => sendAdminTransaction("Executing operation...", "Operation executed", async () => {
+    await executeOperation(operationId);
+  });
+
+  const openBatch = () => {
+    const startTime = Math.floor(new Date(batchForm.start).getTime() / 1000);
+    const endTime = Math.floor(new Date(batchForm.end).getTime() / 1000);
+    if (!batchForm.projectId || !startTime || !endTime || endTime <= startTime) { alert("Please choose a project and a valid funding window"); return; }
+    if (!(Number(batchForm.target) > 0)) { alert("Please enter a funding target"); return; }
+    sendAdminTransaction("Encrypting funding target with Zama FHE...", "Batch opened", async dao => {
+      const target = await (await getFheProvider()).encryptUint64(config.daoContractAddress, address!, await parseTokenAmount(batchForm.target));
+      await (await dao.openBatch(batchForm.projectId, startTime, endTime, target.handle, target.inputProof)).wait();
+      setBatchForm({ projectId: "", start: "", end: "", target: "" });
+    });
+  };
+
+  const closeBatch = () => {
+    if (!batchToClose) { alert("Please choose a batch to close"); return; }
+    sendAdminTransaction("Closing batch...", "Batch closed", async dao => {
+      await (await dao.closeBatch(batchToClose)).wait();
+      setBatchToClose("");
+    });
+  };
+
+  if (!state) {
+    return (
+      <div className="projects-section">
+        <div className="no-projects tech-card">
+          <p>{isRefreshing ? "Loading DAO state..." : "DAO contract not available"}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const roles = state.roles;
+  if (!roles || !hasAdminAccess(roles)) {
+    return (
+      <div className="projects-section">
+        <div className="no-projects tech-card">
+          <div className="no-projects-icon"></div>
+          <p>The admin console is only available to DAO admins, pausers and batch managers.</p>
+        </div>
+      </div>
+    );
+  }
+  const now = Math.floor(Date.now() / 1000);
+
+  return (
+    <div className="projects-section">
+      <div className="section-header">
+        <h2>DAO Admin Console</h2>
+        <div className="header-actions">
+          <button onClick={loadState} className="refresh-btn tech-button" disabled={isRefreshing}>
+            {isRefreshing ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      <div className="admin-grid">
+        <div className="panel tech-card">
+          <h3>Status</h3>
+          <div className="project-info">
+            <div className="info-item">
+              <span>Paused:</span>
+              <strong className={`status-badge ${state.paused ? "cancelled" : "open"}`}>{state.paused ? "paused" : "active"}</strong>
+            </div>
+            <div className="info-item">
+              <span>Cooldown:</span>
+              <strong>{state.cooldownSeconds} seconds</strong>
+            </div>
+            <div className="info-item">
+              <span>Owner:</span>
+              <strong>{state.owner.substring(0, 6)}...{state.owner.substring(38)}</strong>
+            </div>
+            {state.pendingOwner !== ethers.ZeroAddress && (
+              <div className="info-item">
+                <span>Pending Owner:</span>
+                <strong>{state.pendingOwner.substring(0, 6)}...{state.pendingOwner.substring(38)}</strong>
+              </div>
+            )}
+          </div>
+          {roles.pauser && (
+            <div className="admin-actions">
+              <button className={`tech-button ${state.paused ? "primary" : ""}`} onClick={togglePause}>
+                {state.paused ? "Unpause" : "Pause"}
+              </button>
+            </div>
+          )}
+          {roles.admin && (
+            <>
+              <div className="form-group admin-inline">
+                <input type="number" min="0" value={cooldownInput} onChange={(e) => setCooldownInput(e.target.value)} placeholder="Cooldown (seconds)" className="tech-input" />
+                <button className="tech-button" onClick={updateCooldown}>Set Cooldown</button>
+              </div>
+              <div className="form-group admin-inline">
+                <input type="text" value={newOwner} onChange={(e) => setNewOwner(e.target.value)} placeholder="New owner address" className="tech-input" />
+                <button className="tech-button" onClick={transferOwnership}>Transfer Ownership</button>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="panel tech-card">
+          <h3>Providers ({state.providers.length})</h3>
+          {state.providers.length === 0 ? <p>No providers registered</p> : state.providers.map(provider => (
+            <div className="admin-provider" key={provider}>
+              <span>{provider}</span>
+              {roles.admin && <button className="action-btn tech-button" onClick={() => removeProvider(provider)}>Remove</button>}
+            </div>
+          ))}
+          {roles.admin && (
+            <div className="form-group admin-inline">
+              <input type="text" value={providerAddress} onChange={(e) => setProviderAddress(e.target.value)} placeholder="Provider address" className="tech-input" />
+              <button className="tech-button" onClick={addProvider}>Add Provider</button>
+            </div>
+          )}
+        </div>
+
+        {!roles.owner && (
+          <div className="panel tech-card">
+            <h3>Timelocked Operations ({state.operations.length})</h3>
+            {state.operations.length === 0 ? <p>No operations queued</p> : state.operations.map(operation => (
+              <div className="admin-provider" key={operation.id}>
+                <span>#{operation.id} {operation.description} (ready {new Date(operation.eta * 1000).toLocaleString()})</span>
+                <button className="action-btn tech-button" onClick={() => execute(operation.id)} disabled={now < operation.eta}>Execute</button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {roles.batchManager && (
+          <div className="panel tech-card">
+            <h3>Open Batch</h3>
+            <div className="form-group">
+              <label>Project *</label>
+              <select value={batchForm.projectId} onChange={(e) => setBatchForm({ ...batchForm, projectId: e.target.value })} className="tech-select">
+                <option value="">Select a project</option>
+                {state.projects.map(project => <option key={project.id} value={project.id}>#{project.id} {project.title}</option>)}
+              </select>
+            </div>
+            <div className="form-grid">
+              <div className="form-group">
+                <label>Start *</label>
+                <input type="datetime-local" value={batchForm.start} onChange={(e) => setBatchForm({ ...batchForm, start: e.target.value })} className="tech-input" />
+              </div>
+              <div className="form-group">
+                <label>End *</label>
+                <input type="datetime-local" value={batchForm.end} onChange={(e) => setBatchForm({ ...batchForm, end: e.target.value })} className="tech-input" />
+              </div>
+            </div>
+            <div className="form-group">
+              <label>Funding Target (tokens, encrypted) *</label>
+              <input type="number" min="0" step="any" value={batchForm.target} onChange={(e) => setBatchForm({ ...batchForm, target: e.target.value })} className="tech-input" />
+            </div>
+            <button className="tech-button primary" onClick={openBatch}>Open Batch</button>
+          </div>
+        )}
+
+        {roles.batchManager && (
+          <div className="panel tech-card">
+            <h3>Close Batch</h3>
+            <div className="form-group">
+              <label>Open batches</label>
+              <select value={batchToClose} onChange={(e) => setBatchToClose(e.target.value)} className="tech-select">
+                <option value="">Select a batch</option>
+                {state.openBatches.map(batch => (
+                  <option key={batch.id} value={batch.id}>
+                    #{batch.id} {batch.projectTitle} (ends {new Date(batch.endTime * 1000).toLocaleDateString()})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button className="tech-button" onClick={closeBatch} disabled={state.openBatches.length === 0}>Close Batch</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminConsole;
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import {
+  FundingBatch,
+  SummaryPolicy,
+  canFinalize,
+  canRequestSummary,
+  finalizeBatch,
+  isAcceptingContributions,
+  meetsSummaryThresholds,
+  reportUsage,
+  requestSummary,
+  submitContribution
+} from '../batches';
+import { SetTransactionStatus, runTransaction } from '../transaction';
+
+type BatchActionMode = "contribute" | "usage";
+
+interface BatchActionsProps {
+  batch: FundingBatch;
+  policy: SummaryPolicy | null;
+  isProvider: boolean;
+  address?: string;
+  isConnected: boolean;
+  setTransactionStatus: SetTransactionStatus;
+  onChanged: () => void;
+}
+
+// Contribute, report usage, finalize and request-summary buttons for one batch, shared by the list and the batch page.
+const BatchActions: React.FC<BatchActionsProps> = ({ batch, policy, isProvider, address, isConnected, setTransactionStatus, onChanged }) => {
+  const [mode, setMode] = useState<BatchActionMode | null>(null);
+
+  const submit = async (value: string) => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    const submitted = mode === "contribute"
+      ? await runTransaction(setTransactionStatus, {
+          pending: "Encrypting contribution with Zama FHE...",
+          success: "Encrypted contribution escrowed!",
+          failure: "Contribution failed: "
+        }, () => submitContribution(batch.id, address, value, message => setTransactionStatus({ visible: true, status: "pending", message })))
+      : await runTransaction(setTransactionStatus, {
+          pending: "Encrypting usage report with Zama FHE...",
+          success: "Encrypted usage reported!",
+          failure: "Usage report failed: "
+        }, () => reportUsage(batch.id, address, Number(value)));
+    if (submitted) {
+      setMode(null);
+      onChanged();
+    }
+  };
+
+  const handleFinalize = async () => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    const finalized = await runTransaction(setTransactionStatus, {
+      pending: "Closing batch...",
+      success: "Batch closed; its summary is requested if the thresholds are met",
+      failure: "Finalize failed: "
+    }, () => finalizeBatch(batch.id));
+    if (finalized) onChanged();
+  };
+
+  const handleRequestSummary = async () => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    const requested = await runTransaction(setTransactionStatus, {
+      pending: "Requesting summary decryption...",
+      success: "Decryption requested; results appear once the oracle answers",
+      failure: "Request failed: "
+    }, () => requestSummary(batch.id));
+    if (requested) onChanged();
+  };
+
+  return (
+    <>
+      {isAcceptingContributions(batch) && (
+        <button className="action-btn tech-button vote" onClick={(e) => { e.stopPropagation(); setMode("contribute"); }}>
+          Contribute
+        </button>
+      )}
+      {isProvider && batch.status === "open" && (
+        <button className="action-btn tech-button success" onClick={(e) => { e.stopPropagation(); setMode("usage"); }}>
+          Report Usage
+        </button>
+      )}
+      {canFinalize(batch) && (
+        <button className="action-btn tech-button complete" onClick={(e) => { e.stopPropagation(); handleFinalize(); }}>
+          Finalize
+        </button>
+      )}
+      {(batch.status === "closed" || batch.status === "decrypting") && (
+        <button
+          className="action-btn tech-button complete"
+          onClick={(e) => { e.stopPropagation(); handleRequestSummary(); }}
+          disabled={!policy || !canRequestSummary(batch, policy)}
+          title={!policy || meetsSummaryThresholds(batch, policy) ? undefined : `Needs ${policy.minContributors} contributors and ${policy.minProviders} providers`}
+        >
+          Request Summary
+        </button>
+      )}
+
+      {mode && (
+        <BatchActionModal batchId={batch.id} mode={mode} onClose={() => setMode(null)} onSubmit={submit} />
+      )}
+    </>
+  );
+};
+
+interface BatchActionModalProps {
+  batchId: number;
+  mode: BatchActionMode;
+  onClose: () => void;
+  onSubmit: (value: string) => Promise<void>;
+}
+
+const BatchActionModal: React.FC<BatchActionModalProps> = ({ batchId, mode, onClose, onSubmit }) => {
+  // Kept as typed, so contributions can be converted to token units without float rounding.
+  const [value, setValue] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const contributing = mode === "contribute";
+
+  const handleSubmit = async () => {
+    if (!(Number(value) > 0)) { alert(contributing ? "Please enter a contribution amount" : "Please enter a usage reading"); return; }
+    setSubmitting(true);
+    try { await onSubmit(value); } finally { setSubmitting(false); }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={(e) => e.stopPropagation()}>
+      <div className="create-modal tech-card">
+        <div className="modal-header">
+          <h2>{contributing ? "Contribute to" : "Report Usage for"} Batch #{batchId}</h2>
+          <button onClick={onClose} className="close-modal">&times;</button>
+        </div>
+        <div className="modal-body">
+          <div className="form-group">
+            <label>{contributing ? "Contribution Amount (tokens) *" : "Usage Reading *"}</label>
+            <input
+              type="number"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              className="tech-input"
+              min="0"
+              step={contributing ? "any" : "1"}
+            />
+          </div>
+          <div className="privacy-notice">
+            <div className="privacy-icon"></div>
+            <div>
+              <strong>Encrypted in your browser</strong>
+              <p>{contributing
+                ? "Only you can read your contribution; the batch only ever reveals its aggregate total"
+                : "Your reading is added to the batch total without being revealed"}</p>
+            </div>
+          </div>
+        </div>
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn tech-button">Cancel</button>
+          <button onClick={handleSubmit} disabled={submitting} className="submit-btn tech-button primary">
+            {submitting ? "Encrypting with FHE..." : contributing ? "Contribute" : "Report Usage"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchActions;
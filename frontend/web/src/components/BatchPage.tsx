@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+  FundingBatch,
+  SummaryPolicy,
+  fetchBatch,
+  fetchSummaryPolicy,
+  isProviderAccount,
+  useDecryptionCompleted
+} from '../batches';
+import { SetTransactionStatus } from '../transaction';
+import BatchActions from './BatchActions';
+import NotFound from './NotFound';
+
+interface BatchPageProps {
+  address?: string;
+  isConnected: boolean;
+  setTransactionStatus: SetTransactionStatus;
+}
+
+const BatchPage: React.FC<BatchPageProps> = ({ address, isConnected, setTransactionStatus }) => {
+  const { id = "" } = useParams();
+  const [batch, setBatch] = useState<FundingBatch | null | undefined>(undefined); // undefined while loading
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [policy, setPolicy] = useState<SummaryPolicy | null>(null);
+  const [isProvider, setIsProvider] = useState(false);
+
+  useEffect(() => {
+    let current = true;
+    setBatch(undefined);
+    loadBatch(() => current);
+    // Back/forward can change the id before the previous load resolves.
+    return () => { current = false; };
+  }, [id]);
+
+  useEffect(() => {
+    fetchSummaryPolicy().then(setPolicy).catch(() => setPolicy(null));
+  }, []);
+
+  useEffect(() => {
+    if (!address) { setIsProvider(false); return; }
+    isProviderAccount(address).then(setIsProvider).catch(() => setIsProvider(false));
+  }, [address]);
+
+  useDecryptionCompleted(batchId => {
+    if (String(batchId) === id) loadBatch();
+  });
+
+  const loadBatch = async (isCurrent: () => boolean = () => true) => {
+    setLoadError(null);
+    try {
+      const loaded = await fetchBatch(id);
+      if (isCurrent()) setBatch(loaded);
+    } catch (e: any) {
+      console.error(`Error loading batch ${id}:`, e);
+      if (isCurrent()) setLoadError(e.message || "Failed to load batch");
+    }
+  };
+
+  if (loadError) return <NotFound message={loadError} />;
+  if (batch === null) return <NotFound message={`Batch #${id} does not exist.`} />;
+  if (batch === undefined) {
+    return (
+      <div className="projects-section">
+        <div className="no-projects tech-card"><p>Loading batch...</p></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="projects-section">
+      <div className="section-header">
+        <h2>Batch #{batch.id}</h2>
+        <div className="header-actions">
+          <Link to="/batches" className="tech-button">All Batches</Link>
+          <BatchActions
+            batch={batch}
+            policy={policy}
+            isProvider={isProvider}
+            address={address}
+            isConnected={isConnected}
+            setTransactionStatus={setTransactionStatus}
+            onChanged={() => loadBatch()}
+          />
+        </div>
+      </div>
+      <div className="project-detail-page tech-card">
+        <div className="project-info">
+          <div className="info-item">
+            <span>Project:</span>
+            <strong><Link to={`/projects/${batch.projectId}`}>{batch.projectTitle}</Link></strong>
+          </div>
+          <div className="info-item">
+            <span>Status:</span>
+            <strong className={`status-badge ${batch.status}`}>{batch.status}</strong>
+          </div>
+          <div className="info-item">
+            <span>Window:</span>
+            <strong>{new Date(batch.startTime * 1000).toLocaleString()} – {new Date(batch.endTime * 1000).toLocaleString()}</strong>
+          </div>
+          <div className="info-item">
+            <span>Participants:</span>
+            <strong>{batch.contributorCount} contributors / {batch.providerCount} providers</strong>
+          </div>
+        </div>
+
+        <div className="encrypted-data-section">
+          <h3>Batch Summary</h3>
+          {batch.summary ? (
+            <>
+              <div className="decrypted-value">
+                <strong>Total Contributions:</strong> {batch.summary.totalContributions.toLocaleString()}
+              </div>
+              <div className="decrypted-value">
+                <strong>Total Usage:</strong> {batch.summary.totalUsage.toLocaleString()}
+              </div>
+              {batch.summary.noiseBound > 0 && (
+                <div className="decryption-notice">
+                  <div className="warning-icon"></div>
+                  <span>Each total may overstate the true figure by 0 to {(batch.summary.noiseBound - 1).toLocaleString()}: random noise is added to protect individual contributions</span>
+                </div>
+              )}
+              {batch.summary.overflowed && (
+                <div className="decryption-notice">
+                  <div className="warning-icon"></div>
+                  <span>Some submissions were dropped for overflowing the batch totals</span>
+                </div>
+              )}
+            </>
+          ) : (
+            <p>{batch.status === "decrypting"
+              ? "Waiting for the decryption oracle; the summary appears here as soon as it is published."
+              : "Totals stay encrypted until the batch is closed and its summary decrypted."}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchPage;
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  BatchSummary,
+  FundingBatch,
+  SummaryPolicy,
+  fetchBatches,
+  fetchSummaryPolicy,
+  isProviderAccount,
+  useDecryptionCompleted
+} from '../batches';
+import { SetTransactionStatus } from '../transaction';
+import BatchActions from './BatchActions';
+
+// A DecryptionCompleted event seen while the view was open.
+type DecryptionResult = { batchId: number } & Omit<BatchSummary, "noiseBound">;
+
+type BatchFilter = "all" | "open" | "closed";
+
+interface BatchesViewProps {
+  address?: string;
+  isConnected: boolean;
+  setTransactionStatus: SetTransactionStatus;
+}
+
+const BatchesView: React.FC<BatchesViewProps> = ({ address, isConnected, setTransactionStatus }) => {
+  const navigate = useNavigate();
+  const [batches, setBatches] = useState<FundingBatch[]>([]);
+  const [filter, setFilter] = useState<BatchFilter>("all");
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isProvider, setIsProvider] = useState(false);
+  const [policy, setPolicy] = useState<SummaryPolicy | null>(null);
+  const [recentResults, setRecentResults] = useState<DecryptionResult[]>([]);
+
+  useEffect(() => {
+    loadBatches();
+  }, []);
+
+  useEffect(() => {
+    if (!address) { setIsProvider(false); return; }
+    isProviderAccount(address).then(setIsProvider).catch(() => setIsProvider(false));
+  }, [address]);
+
+  useDecryptionCompleted((batchId, summary) => {
+    setRecentResults(current => [{ batchId, ...summary }, ...current.filter(previous => previous.batchId !== batchId)]);
+    // The event carries no noise bound, so the row is refreshed from the stored summary.
+    loadBatches();
+  });
+
+  const loadBatches = async () => {
+    setIsRefreshing(true);
+    try {
+      setPolicy(await fetchSummaryPolicy());
+      setBatches(await fetchBatches());
+    } catch (e) { console.error("Error loading batches:", e); }
+    finally { setIsRefreshing(false); }
+  };
+
+  const visibleBatches = batches.filter(batch => filter === "all" || (filter === "open" ? batch.status === "open" : batch.status !== "open"));
+
+  return (
+    <div className="projects-section">
+      <div className="section-header">
+        <h2>Funding Batches</h2>
+        <div className="header-actions">
+          <select value={filter} onChange={(e) => setFilter(e.target.value as BatchFilter)} className="tech-select batch-filter">
+            <option value="all">All batches</option>
+            <option value="open">Open</option>
+            <option value="closed">Closed</option>
+          </select>
+          <button onClick={loadBatches} className="refresh-btn tech-button" disabled={isRefreshing}>
+            {isRefreshing ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      {recentResults.length > 0 && (
+        <div className="decryption-feed tech-card">
+          {recentResults.map(result => (
+            <div key={result.batchId} className="decrypted-value">
+              <strong>Batch #{result.batchId} decrypted:</strong> {result.totalContributions.toLocaleString()} contributed, {result.totalUsage.toLocaleString()} usage
+              {result.overflowed && " (some submissions were dropped for overflowing)"}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="projects-list tech-card">
+        <div className="table-header batch-grid">
+          <div className="header-cell">Batch</div>
+          <div className="header-cell">Project</div>
+          <div className="header-cell">Window</div>
+          <div className="header-cell">Participants</div>
+          <div className="header-cell">Status</div>
+          <div className="header-cell">Summary</div>
+          <div className="header-cell">Actions</div>
+        </div>
+        {visibleBatches.length === 0 ? (
+          <div className="no-projects">
+            <div className="no-projects-icon"></div>
+            <p>No funding batches found</p>
+          </div>
+        ) : visibleBatches.map(batch => (
+          <div className="project-row batch-grid" key={batch.id} onClick={() => navigate(`/batches/${batch.id}`)}>
+            <div className="table-cell project-name">#{batch.id}</div>
+            <div className="table-cell">{batch.projectTitle}</div>
+            <div className="table-cell">
+              {new Date(batch.startTime * 1000).toLocaleDateString()} – {new Date(batch.endTime * 1000).toLocaleDateString()}
+            </div>
+            <div className="table-cell">{batch.contributorCount} contributors / {batch.providerCount} providers</div>
+            <div className="table-cell">
+              <span className={`status-badge ${batch.status}`}>{batch.status}</span>
+            </div>
+            <div className="table-cell">
+              {batch.summary ? (
+                <span>
+                  {batch.summary.totalContributions.toLocaleString()} / {batch.summary.totalUsage.toLocaleString()} usage
+                  {batch.summary.noiseBound > 0 && ` (+0…${(batch.summary.noiseBound - 1).toLocaleString()} noise)`}
+                </span>
+              ) : batch.status === "decrypting" ? "Awaiting oracle..." : "Encrypted"}
+            </div>
+            <div className="table-cell actions">
+              <BatchActions
+                batch={batch}
+                policy={policy}
+                isProvider={isProvider}
+                address={address}
+                isConnected={isConnected}
+                setTransactionStatus={setTransactionStatus}
+                onChanged={loadBatches}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BatchesView;
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { FundingBatch, fetchContributions, isProviderAccount } from '../batches';
+import { config, normAddr } from '../contract';
+import { InfrastructureProject, decryptHandle, fetchProjects } from '../projects';
+
+interface MyAccountProps {
+  address?: string;
+  isConnected: boolean;
+}
+
+const MyAccount: React.FC<MyAccountProps> = ({ address, isConnected }) => {
+  const [projects, setProjects] = useState<InfrastructureProject[]>([]);
+  const [contributions, setContributions] = useState<{ batch: FundingBatch; balance: string }[]>([]);
+  const [isProvider, setIsProvider] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [decrypted, setDecrypted] = useState<Record<number, number>>({});
+  const [decryptingBatch, setDecryptingBatch] = useState<number | null>(null);
+
+  useEffect(() => {
+    setDecrypted({});
+    if (address) loadAccount(address);
+  }, [address]);
+
+  const loadAccount = async (account: string) => {
+    setIsRefreshing(true);
+    try {
+      setIsProvider(await isProviderAccount(account));
+      setProjects((await fetchProjects()).filter(project => normAddr(project.owner) === normAddr(account)));
+      setContributions(await fetchContributions(account));
+    } catch (e) { console.error("Error loading account:", e); }
+    finally { setIsRefreshing(false); }
+  };
+
+  const handleDecryptContribution = async (batchId: number, balance: string) => {
+    if (decrypted[batchId] !== undefined) {
+      const { [batchId]: _, ...rest } = decrypted;
+      setDecrypted(rest);
+      return;
+    }
+    setDecryptingBatch(batchId);
+    try {
+      const value = await decryptHandle(balance, config.daoContractAddress);
+      if (value !== null) setDecrypted(current => ({ ...current, [batchId]: value }));
+    } catch (e) { console.error("Decryption failed:", e); }
+    finally { setDecryptingBatch(null); }
+  };
+
+  if (!isConnected || !address) {
+    return (
+      <div className="projects-section">
+        <div className="no-projects tech-card">
+          <div className="no-projects-icon"></div>
+          <p>Connect your wallet to see your projects and contributions.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="projects-section">
+      <div className="section-header">
+        <h2>My Account</h2>
+        <div className="header-actions">
+          <button onClick={() => loadAccount(address)} className="refresh-btn tech-button" disabled={isRefreshing}>
+            {isRefreshing ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+      </div>
+
+      <div className="project-detail-page tech-card">
+        <div className="project-info">
+          <div className="info-item">
+            <span>Address:</span>
+            <strong>{address.substring(0, 6)}...{address.substring(38)}</strong>
+          </div>
+          <div className="info-item">
+            <span>Provider:</span>
+            <strong className={`status-badge ${isProvider ? "open" : "closed"}`}>{isProvider ? "registered" : "not registered"}</strong>
+          </div>
+        </div>
+
+        <div className="project-description">
+          <h3>My Proposals ({projects.length})</h3>
+          {projects.length === 0 ? <p>You have not proposed any projects</p> : projects.map(project => (
+            <div className="decrypted-value" key={project.id}>
+              <Link to={`/projects/${project.id}`}>{project.name}</Link>
+              {" "}<span className={`status-badge ${project.status}`}>{project.status}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="encrypted-data-section">
+          <h3>My Contributions ({contributions.length})</h3>
+          {contributions.length === 0 ? <p>You have not contributed to any batches</p> : contributions.map(({ batch, balance }) => (
+            <div className="data-item" key={batch.id}>
+              <div className="data-label">
+                <Link to={`/batches/${batch.id}`}>Batch #{batch.id}</Link> · {batch.projectTitle}
+              </div>
+              <div className="data-value">
+                <span className={`status-badge ${batch.status}`}>{batch.status}</span>
+                <div className="fhe-tag">
+                  <div className="fhe-icon"></div>
+                  <span>FHE Encrypted</span>
+                </div>
+                <button
+                  className="decrypt-btn tech-button"
+                  onClick={() => handleDecryptContribution(batch.id, balance)}
+                  disabled={decryptingBatch !== null}
+                >
+                  {decryptingBatch === batch.id ? <span className="decrypt-spinner"></span> : decrypted[batch.id] !== undefined ? "Hide Amount" : "Decrypt Amount"}
+                </button>
+              </div>
+              {decrypted[batch.id] !== undefined && (
+                <div className="decrypted-value">
+                  <strong>Contributed:</strong> {decrypted[batch.id].toLocaleString()} tokens
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MyAccount;
@@ -0,0 +1,19 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+
+interface NotFoundProps {
+  message?: string;
+}
+
+const NotFound: React.FC<NotFoundProps> = ({ message = "This page does not exist." }) => (
+  <div className="projects-section">
+    <div className="no-projects tech-card">
+      <div className="no-projects-icon"></div>
+      <h2>Not Found</h2>
+      <p>{message}</p>
+      <Link to="/" className="tech-button primary">Back to Projects</Link>
+    </div>
+  </div>
+);
+
+export default NotFound;
@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { toTokenAmount } from '../batches';
+import { config } from '../contract';
+import { InfrastructureProject, VOTE_LABELS, VoteChoice, castVote, decryptHandle, fetchProject, findBallot } from '../projects';
+import { SetTransactionStatus, runTransaction } from '../transaction';
+import NotFound from './NotFound';
+import VoteButtons from './VoteButtons';
+
+interface ProjectPageProps {
+  address?: string;
+  isConnected: boolean;
+  isVoter: boolean;
+  setTransactionStatus: SetTransactionStatus;
+  onBudgetDecrypted: (projectId: string, budget: number) => void;
+}
+
+const ProjectPage: React.FC<ProjectPageProps> = ({ address, isConnected, isVoter, setTransactionStatus, onBudgetDecrypted }) => {
+  const { id = "" } = useParams();
+  const [project, setProject] = useState<InfrastructureProject | null | undefined>(undefined); // undefined while loading
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [decryptedBudget, setDecryptedBudget] = useState<number | null>(null);
+  const [decryptedVote, setDecryptedVote] = useState<number | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  useEffect(() => {
+    let current = true;
+    setProject(undefined);
+    setDecryptedBudget(null);
+    setDecryptedVote(null);
+    loadProject(() => current);
+    // Back/forward can change the id before the previous load resolves.
+    return () => { current = false; };
+  }, [id]);
+
+  const loadProject = async (isCurrent: () => boolean = () => true) => {
+    setLoadError(null);
+    try {
+      const loaded = await fetchProject(id);
+      if (isCurrent()) setProject(loaded);
+    } catch (e: any) {
+      console.error(`Error loading project ${id}:`, e);
+      if (isCurrent()) setLoadError(e.message || "Failed to load project");
+    }
+  };
+
+  const decrypt = async (getHandle: () => Promise<string | null>, contractAddress: string) => {
+    if (!isConnected) { alert("Please connect wallet first"); return null; }
+    setIsDecrypting(true);
+    try {
+      const handle = await getHandle();
+      return handle ? await decryptHandle(handle, contractAddress) : null;
+    } catch (e) { console.error("Decryption failed:", e); return null; }
+    finally { setIsDecrypting(false); }
+  };
+
+  const handleDecryptBudget = async () => {
+    if (!project) return;
+    if (decryptedBudget !== null) {
+      setDecryptedBudget(null);
+      return;
+    }
+    const decrypted = await decrypt(async () => project.encryptedBudget, config.daoContractAddress);
+    if (decrypted !== null) {
+      const budget = await toTokenAmount(decrypted);
+      setDecryptedBudget(budget);
+      onBudgetDecrypted(project.id, budget);
+    }
+  };
+
+  const handleDecryptVote = async () => {
+    if (!project || project.proposalId === null) return;
+    if (decryptedVote !== null) {
+      setDecryptedVote(null);
+      return;
+    }
+    if (!address) { alert("Please connect wallet first"); return; }
+    const proposalId = project.proposalId;
+    const decrypted = await decrypt(async () => {
+      const ballot = await findBallot(proposalId, address);
+      if (!ballot) alert("You have not voted on this project");
+      return ballot;
+    }, config.governorContractAddress);
+    if (decrypted !== null) setDecryptedVote(decrypted);
+  };
+
+  const handleVote = async (choice: VoteChoice) => {
+    if (!project) return;
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    if (project.proposalId === null) { alert("No governance vote is open for this project"); return; }
+    const proposalId = project.proposalId;
+    const voted = await runTransaction(setTransactionStatus, {
+      pending: "Processing encrypted vote with FHE...",
+      success: "FHE vote recorded successfully!",
+      failure: "Vote failed: "
+    }, () => castVote(proposalId, address, choice));
+    if (voted) loadProject();
+  };
+
+  if (loadError) return <NotFound message={loadError} />;
+  if (project === null) return <NotFound message={`Project #${id} does not exist.`} />;
+  if (project === undefined) {
+    return (
+      <div className="projects-section">
+        <div className="no-projects tech-card"><p>Loading project...</p></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="projects-section">
+      <div className="section-header">
+        <h2>{project.name}</h2>
+        <div className="header-actions">
+          <Link to="/" className="tech-button">All Projects</Link>
+          <VoteButtons
+            disabled={!isVoter || project.proposalId === null || project.tally !== null}
+            onVote={handleVote}
+          />
+        </div>
+      </div>
+      <div className="project-detail-page tech-card">
+        <div className="project-info">
+          <div className="info-item">
+            <span>Category:</span>
+            <strong>{project.category}</strong>
+          </div>
+          <div className="info-item">
+            <span>Proposer:</span>
+            <strong>{project.owner.substring(0, 6)}...{project.owner.substring(38)}</strong>
+          </div>
+          <div className="info-item">
+            <span>Date Proposed:</span>
+            <strong>{new Date(project.timestamp * 1000).toLocaleString()}</strong>
+          </div>
+          <div className="info-item">
+            <span>Status:</span>
+            <strong className={`status-badge ${project.status}`}>{project.status}</strong>
+          </div>
+        </div>
+
+        <div className="project-description">
+          <h3>Description</h3>
+          <p>{project.description || "No description provided"}</p>
+        </div>
+
+        {project.batchIds.length > 0 && (
+          <div className="project-description">
+            <h3>Funding Batches</h3>
+            <p>{project.batchIds.map((batchId, index) => (
+              <React.Fragment key={batchId}>
+                {index > 0 && ", "}
+                <Link to={`/batches/${batchId}`}>Batch #{batchId}</Link>
+              </React.Fragment>
+            ))}</p>
+          </div>
+        )}
+
+        <div className="encrypted-data-section">
+          <h3>Encrypted Project Data</h3>
+
+          <div className="data-item">
+            <div className="data-label">Budget:</div>
+            <div className="data-value">
+              {project.encryptedBudget ? `${project.encryptedBudget.substring(0, 18)}...` : "No funding batch opened"}
+              <div className="fhe-tag">
+                <div className="fhe-icon"></div>
+                <span>FHE Encrypted</span>
+              </div>
+              <button
+                className="decrypt-btn tech-button"
+                onClick={handleDecryptBudget}
+                disabled={isDecrypting || !project.encryptedBudget}
+              >
+                {isDecrypting ? <span className="decrypt-spinner"></span> : decryptedBudget !== null ? "Hide Budget" : "Decrypt Budget"}
+              </button>
+            </div>
+            {decryptedBudget !== null && (
+              <div className="decrypted-value">
+                <strong>Decrypted Budget:</strong> {decryptedBudget.toLocaleString()} tokens
+              </div>
+            )}
+          </div>
+
+          <div className="data-item">
+            <div className="data-label">Votes:</div>
+            <div className="data-value">
+              {project.tally
+                ? `Yes ${project.tally.yes} / No ${project.tally.no} / Abstain ${project.tally.abstain}`
+                : project.proposalId !== null ? "Tally stays encrypted until voting ends" : "No governance vote yet"}
+              <div className="fhe-tag">
+                <div className="fhe-icon"></div>
+                <span>FHE Encrypted</span>
+              </div>
+              <button
+                className="decrypt-btn tech-button"
+                onClick={handleDecryptVote}
+                disabled={isDecrypting || project.proposalId === null}
+              >
+                {isDecrypting ? <span className="decrypt-spinner"></span> : decryptedVote !== null ? "Hide My Vote" : "Decrypt My Vote"}
+              </button>
+            </div>
+            {decryptedVote !== null && (
+              <div className="decrypted-value">
+                <strong>My Vote:</strong> {VOTE_LABELS[decryptedVote] ?? decryptedVote}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="decryption-notice">
+          <div className="warning-icon"></div>
+          <span>Decrypted data requires wallet signature verification</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectPage;
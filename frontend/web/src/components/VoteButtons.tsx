@@ -0,0 +1,27 @@
+import React from 'react';
+import { VOTE_LABELS, VoteChoice } from '../projects';
+
+interface VoteButtonsProps {
+  disabled: boolean;
+  onVote: (choice: VoteChoice) => void;
+}
+
+// Shown Yes, No, Abstain; each choice is encrypted as its index in VOTE_LABELS.
+const CHOICES: VoteChoice[] = [1, 0, 2];
+
+const VoteButtons: React.FC<VoteButtonsProps> = ({ disabled, onVote }) => (
+  <>
+    {CHOICES.map(choice => (
+      <button
+        key={choice}
+        className="action-btn tech-button vote"
+        onClick={(e) => { e.stopPropagation(); onVote(choice); }}
+        disabled={disabled}
+      >
+        {VOTE_LABELS[choice]}
+      </button>
+    ))}
+  </>
+);
+
+export default VoteButtons;
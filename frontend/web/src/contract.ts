@@ -1,9 +1,15 @@
 // contract.ts
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
+import daoAbiJson from "./abi/ReFiInfraDAOFHE.json";
+import governorAbiJson from "./abi/ReFiInfraGovernorFHE.json";
+import tokenAbiJson from "./abi/IConfidentialToken.json";
 import configJson from "./config.json";
 
 export const ABI = (abiJson as any).abi || abiJson;
+export const DAO_ABI = (daoAbiJson as any).abi || daoAbiJson;
+export const GOVERNOR_ABI = (governorAbiJson as any).abi || governorAbiJson;
+export const TOKEN_ABI = (tokenAbiJson as any).abi || tokenAbiJson;
 export const config = configJson;
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
@@ -18,43 +24,54 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
+// Chains the app can read from, keyed by chain id; each entry's rpcUrl serves read-only calls and event listeners.
+const chains: Record<string, { rpcUrl?: string }> = (config as { fhe?: Record<string, { rpcUrl?: string }> }).fhe || {};
+const readProviders = new Map<number, Promise<ethers.JsonRpcProvider>>();
+
+// The wallet's chain when it is one we have an endpoint for, otherwise the chain the contracts were deployed to.
+async function getActiveChainId() {
+  const ethereum = (window as any).ethereum;
+  if (ethereum) {
     try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
+      const chainId = Number(await ethereum.request({ method: "eth_chainId" }));
+      if (chains[String(chainId)]?.rpcUrl) return chainId;
     } catch (error) {
+      console.warn("Could not read the wallet's chain:", error);
     }
   }
-  
-  throw new Error("All RPC providers failed");
-};
+  return config.chainId;
+}
 
-export async function getContractReadOnly() {
+async function getReadProvider() {
+  const chainId = await getActiveChainId();
+  let provider = readProviders.get(chainId);
+  if (!provider) {
+    provider = connectReadProvider(chainId);
+    readProviders.set(chainId, provider);
+    // Let an unreachable endpoint be retried on the next call.
+    provider.catch(() => { readProviders.delete(chainId); });
+  }
+  return provider;
+}
+
+async function connectReadProvider(chainId: number) {
+  const rpcUrl = chains[String(chainId)]?.rpcUrl;
+  if (!rpcUrl) throw new Error(`No RPC endpoint configured for chain ${chainId}`);
+  const provider = new ethers.JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true });
+  await Promise.race([
+    provider.getBlockNumber(),
+    new Promise((_, reject) => setTimeout(() => reject(new Error("RPC timeout")), 10000))
+  ]);
+  return provider;
+}
+
+const readOnlyContract = async (address: string, abi: any) => {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    if (!ethers.isAddress(address)) return null;
+    const provider = await getReadProvider();
+    const contract = new ethers.Contract(address, abi, provider);
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(address));
     if (code === "0x") {
       return null;
     }
@@ -64,21 +81,57 @@ export async function getContractReadOnly() {
     console.error("Failed to create read-only contract:", error);
     return null;
   }
-}
+};
 
-export async function getContractWithSigner() {
+const contractWithSigner = async (address: string, abi: any) => {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const contract = new ethers.Contract(address, abi, await getSigner());
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
     throw error;
   }
+};
+
+export async function getSigner() {
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  return provider.getSigner();
+}
+
+export async function getContractReadOnly() {
+  return readOnlyContract(config.contractAddress, ABI);
+}
+
+export async function getContractWithSigner() {
+  return contractWithSigner(config.contractAddress, ABI);
+}
+
+export async function getDAOContractReadOnly() {
+  return readOnlyContract(config.daoContractAddress, DAO_ABI);
+}
+
+export async function getDAOContractWithSigner() {
+  return contractWithSigner(config.daoContractAddress, DAO_ABI);
+}
+
+export async function getGovernorContractReadOnly() {
+  return readOnlyContract(config.governorContractAddress, GOVERNOR_ABI);
+}
+
+export async function getGovernorContractWithSigner() {
+  return contractWithSigner(config.governorContractAddress, GOVERNOR_ABI);
+}
+
+// The DAO's contribution token, whose address is read from dao.contributionToken().
+export async function getTokenContractReadOnly(address: string) {
+  return readOnlyContract(address, TOKEN_ABI);
+}
+
+export async function getTokenContractWithSigner(address: string) {
+  return contractWithSigner(address, TOKEN_ABI);
 }
 
 export function normAddr(a: string) { 
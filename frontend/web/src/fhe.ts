@@ -0,0 +1,143 @@
+// fhe.ts
+import { initSDK, createInstance, SepoliaConfig } from "@zama-fhe/relayer-sdk/web";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+import { ethers } from "ethers";
+import { config } from "./contract";
+
+export interface EncryptedInput {
+  handle: string;
+  inputProof: string;
+}
+
+export type DecryptedValues = Record<string, bigint | boolean | string>;
+
+// What the app needs from an FHE backend; pick one per chain with getFheProvider().
+export interface FheProvider {
+  readonly kind: FheProviderKind;
+  // The proof is bound to both addresses: only `userAddress` can submit it, and only to `contractAddress`.
+  encryptUint64(contractAddress: string, userAddress: string, value: number | bigint): Promise<EncryptedInput>;
+  encryptUint8(contractAddress: string, userAddress: string, value: number): Promise<EncryptedInput>;
+  // Decrypts handles the signer has been granted on-chain.
+  userDecrypt(handles: string[], contractAddress: string, signer: ethers.Signer): Promise<DecryptedValues>;
+}
+
+export type FheProviderKind = "relayer" | "mock";
+
+interface FheChainConfig {
+  provider: FheProviderKind;
+  rpcUrl?: string; // Read-only endpoint; for the "mock" provider, the Hardhat node serving the fhevm mock
+}
+
+// The subset of the relayer SDK instance both backends implement.
+type FhevmClient = Pick<FhevmInstance, "createEncryptedInput" | "generateKeypair" | "createEIP712" | "userDecrypt">;
+
+// How long a user-decryption authorization stays valid once signed.
+const DECRYPTION_DURATION_DAYS = 1;
+
+// Gateway-side verifying contracts the @fhevm/hardhat-plugin mock signs for.
+const MOCK_GATEWAY_CHAIN_ID = 55815;
+const MOCK_DECRYPTION_ADDRESS = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const MOCK_INPUT_VERIFICATION_ADDRESS = "0x812b06e1CDCE800494b79fFE4f925A504a9A9810";
+const DEFAULT_MOCK_RPC_URL = "http://127.0.0.1:8545";
+
+const providers = new Map<number, Promise<FheProvider>>();
+
+export async function getFheProvider(): Promise<FheProvider> {
+  const ethereum = (window as any).ethereum;
+  if (!ethereum) {
+    throw new Error("No injected wallet");
+  }
+  const chainId = Number(await ethereum.request({ method: "eth_chainId" }));
+  let provider = providers.get(chainId);
+  if (!provider) {
+    provider = createFheProvider(chainId, getChainConfig(chainId));
+    providers.set(chainId, provider);
+    // Let a failed init (e.g. relayer or node unreachable) be retried on the next call.
+    provider.catch(() => { providers.delete(chainId); });
+  }
+  return provider;
+}
+
+function getChainConfig(chainId: number): FheChainConfig {
+  const chains = (config as { fhe?: Record<string, FheChainConfig> }).fhe || {};
+  const chainConfig = chains[String(chainId)];
+  if (!chainConfig) {
+    throw new Error(`No FHE provider configured for chain ${chainId}`);
+  }
+  return chainConfig;
+}
+
+async function createFheProvider(chainId: number, chainConfig: FheChainConfig): Promise<FheProvider> {
+  switch (chainConfig.provider) {
+    case "relayer":
+      return clientProvider("relayer", await createRelayerClient());
+    case "mock":
+      return clientProvider("mock", await createMockClient(chainId, chainConfig.rpcUrl || DEFAULT_MOCK_RPC_URL));
+    default:
+      throw new Error(`Unknown FHE provider "${chainConfig.provider}" for chain ${chainId}`);
+  }
+}
+
+async function createRelayerClient(): Promise<FhevmClient> {
+  await initSDK();
+  return createInstance({ ...SepoliaConfig, network: (window as any).ethereum });
+}
+
+// Mirrors the mock engine of @fhevm/hardhat-plugin: the node reports its fhevm contract addresses and
+// answers the relayer calls itself, so ciphertexts are deterministic and no Zama relayer is needed.
+async function createMockClient(chainId: number, rpcUrl: string): Promise<FhevmClient> {
+  // Loaded on demand so relayer-only builds do not pull in the mock.
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const rpc = new ethers.JsonRpcProvider(rpcUrl);
+  const metadata = await rpc.send("fhevm_relayer_metadata", []);
+  const instance = await MockFhevmInstance.create(rpc, rpc, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId,
+    gatewayChainId: MOCK_GATEWAY_CHAIN_ID,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: MOCK_DECRYPTION_ADDRESS,
+    verifyingContractAddressInputVerification: MOCK_INPUT_VERIFICATION_ADDRESS
+  });
+  return instance;
+}
+
+function clientProvider(kind: FheProviderKind, client: FhevmClient): FheProvider {
+  return {
+    kind,
+    async encryptUint64(contractAddress, userAddress, value) {
+      const { handles, inputProof } = await client.createEncryptedInput(contractAddress, userAddress).add64(BigInt(value)).encrypt();
+      return { handle: ethers.hexlify(handles[0]), inputProof: ethers.hexlify(inputProof) };
+    },
+    async encryptUint8(contractAddress, userAddress, value) {
+      const { handles, inputProof } = await client.createEncryptedInput(contractAddress, userAddress).add8(value).encrypt();
+      return { handle: ethers.hexlify(handles[0]), inputProof: ethers.hexlify(inputProof) };
+    },
+    // A fresh keypair is generated per call and the signer authorizes it with an EIP-712 signature,
+    // so results are re-encrypted only for us.
+    async userDecrypt(handles, contractAddress, signer) {
+      const keypair = client.generateKeypair();
+      const startTimestamp = Math.floor(Date.now() / 1000);
+      const eip712 = client.createEIP712(keypair.publicKey, [contractAddress], startTimestamp, DECRYPTION_DURATION_DAYS);
+      const signature = await signer.signTypedData(
+        eip712.domain,
+        { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+        eip712.message
+      );
+      return client.userDecrypt(
+        handles.map(handle => ({ handle, contractAddress })),
+        keypair.privateKey,
+        keypair.publicKey,
+        signature.replace("0x", ""),
+        [contractAddress],
+        await signer.getAddress(),
+        startTimestamp,
+        DECRYPTION_DURATION_DAYS
+      );
+    }
+  };
+}
+
+export function isUnsetHandle(handle: string | null | undefined) {
+  return !handle || handle === ethers.ZeroHash;
+}
@@ -0,0 +1,153 @@
+// projects.ts
+import { ethers } from "ethers";
+import {
+  config,
+  getContractReadOnly,
+  getDAOContractReadOnly,
+  getGovernorContractReadOnly,
+  getGovernorContractWithSigner,
+  getSigner
+} from "./contract";
+import { getFheProvider, isUnsetHandle } from "./fhe";
+
+export interface InfrastructureProject {
+  id: string;
+  name: string;
+  description: string;
+  encryptedBudget: string; // Funding target handle of the project's latest batch
+  batchIds: number[];
+  proposalId: number | null; // Governor proposal whose description is `project:<id>`
+  tally: { yes: number; no: number; abstain: number } | null;
+  timestamp: number;
+  owner: string;
+  status: "proposed" | "approved" | "rejected" | "completed";
+  category: string;
+}
+
+type ProjectProposal = { id: number; tally: InfrastructureProject["tally"] };
+
+const BATCH_STATUS_FINALIZED = 3;
+// Indexed by the encrypted ballot value the governor tallies.
+export const VOTE_LABELS = ["No", "Yes", "Abstain"];
+export type VoteChoice = 0 | 1 | 2;
+
+export async function fetchProjects(): Promise<InfrastructureProject[]> {
+  const dao = await getDAOContractReadOnly();
+  if (!dao) return [];
+  const adapter = await getContractReadOnly();
+  const proposals = await loadProjectProposals();
+
+  const projectCount = Number(await dao.projectCount());
+  const list: InfrastructureProject[] = [];
+  for (const project of await dao.listProjects(0, projectCount)) {
+    try {
+      list.push(await toInfrastructureProject(dao, adapter, proposals, project));
+    } catch (e) { console.error(`Error loading project ${project.id}:`, e); }
+  }
+  return list.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+// Resolves to null for ids the DAO has never issued, so pages can show a not-found state.
+export async function fetchProject(id: string): Promise<InfrastructureProject | null> {
+  const dao = await getDAOContractReadOnly();
+  if (!dao) throw new Error("DAO contract not available");
+  if (!/^\d+$/.test(id) || BigInt(id) === 0n || BigInt(id) > (await dao.projectCount())) return null;
+  const adapter = await getContractReadOnly();
+  return toInfrastructureProject(dao, adapter, await loadProjectProposals(), await dao.getProject(id));
+}
+
+// Only members holding the DAO's VOTER_ROLE may vote on governor proposals.
+export async function isVoterAccount(address: string): Promise<boolean> {
+  const dao = await getDAOContractReadOnly();
+  return dao ? dao.hasRole(await dao.VOTER_ROLE(), address) : false;
+}
+
+// Creating projects and opening their funding batches needs the DAO's BATCH_MANAGER_ROLE.
+export async function isBatchManagerAccount(address: string): Promise<boolean> {
+  const dao = await getDAOContractReadOnly();
+  return dao ? dao.hasRole(await dao.BATCH_MANAGER_ROLE(), address) : false;
+}
+
+export async function castVote(proposalId: number, voter: string, choice: VoteChoice) {
+  const governor = await getGovernorContractWithSigner();
+  if (!governor) throw new Error("Failed to get contract with signer");
+  const ballot = await (await getFheProvider()).encryptUint8(config.governorContractAddress, voter, choice);
+  await (await governor.castVote(proposalId, ballot.handle, ballot.inputProof)).wait();
+}
+
+// Decrypts a single handle the connected wallet has been granted; null when the handle was never set.
+export async function decryptHandle(handle: string, contractAddress: string): Promise<number | null> {
+  if (isUnsetHandle(handle)) return null;
+  const results = await (await getFheProvider()).userDecrypt([handle], contractAddress, await getSigner());
+  return Number(results[handle]);
+}
+
+// Only the voter can decrypt their ballot, so it is looked up from their own VoteCast event.
+export async function findBallot(proposalId: number, voter: string): Promise<string | null> {
+  const governor = await getGovernorContractReadOnly();
+  if (!governor) return null;
+  const events = await governor.queryFilter(governor.filters.VoteCast(proposalId, voter));
+  return events.length > 0 ? (events[0] as ethers.EventLog).args.encryptedChoice : null;
+}
+
+async function loadProjectProposals() {
+  const proposals = new Map<string, ProjectProposal>();
+  const governor = await getGovernorContractReadOnly();
+  if (!governor) return proposals;
+  const proposalCount = Number(await governor.proposalCount());
+  for (let id = 1; id <= proposalCount; id++) {
+    const proposal = await governor.proposals(id);
+    const match = /^project:(\d+)$/.exec(proposal.description);
+    if (!match) continue;
+    proposals.set(match[1], {
+      id,
+      tally: proposal.tallied ? { yes: Number(proposal.yesVotes), no: Number(proposal.noVotes), abstain: Number(proposal.abstainVotes) } : null
+    });
+  }
+  return proposals;
+}
+
+async function toInfrastructureProject(
+  dao: ethers.Contract,
+  adapter: ethers.Contract | null,
+  proposals: Map<string, ProjectProposal>,
+  project: any
+): Promise<InfrastructureProject> {
+  const id = project.id.toString();
+  let encryptedBudget = "";
+  let finalized = false;
+  const batchIds: number[] = (await dao.getProjectBatches(project.id)).map(Number);
+  if (batchIds.length > 0) {
+    const batch = await dao.getBatch(batchIds[batchIds.length - 1]);
+    encryptedBudget = batch.fundingTarget;
+    finalized = Number(batch.status) === BATCH_STATUS_FINALIZED;
+  }
+
+  // Descriptions are public metadata kept in the adapter under the project's metadata hash.
+  let description = "";
+  if (adapter) {
+    try {
+      const metadataBytes = await adapter.getData(`project_meta_${project.metadataHash}`);
+      if (metadataBytes.length > 0) description = JSON.parse(ethers.toUtf8String(metadataBytes)).description || "";
+    } catch (e) { console.error(`Error parsing metadata for project ${id}:`, e); }
+  }
+
+  const proposal = proposals.get(id);
+  let status: InfrastructureProject["status"] = "proposed";
+  if (finalized) status = "completed";
+  else if (proposal?.tally) status = proposal.tally.yes > proposal.tally.no ? "approved" : "rejected";
+
+  return {
+    id,
+    name: project.title,
+    description,
+    encryptedBudget,
+    batchIds,
+    proposalId: proposal ? proposal.id : null,
+    tally: proposal ? proposal.tally : null,
+    timestamp: Number(project.createdAt),
+    owner: project.creator,
+    status,
+    category: project.category || "WiFi"
+  };
+}
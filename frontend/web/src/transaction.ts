@@ -0,0 +1,23 @@
+// transaction.ts
+export type TransactionStatus = { visible: boolean; status: "pending" | "success" | "error"; message: string };
+export type SetTransactionStatus = (status: TransactionStatus) => void;
+
+// Drives the shared transaction modal through pending, success and error; resolves to whether `send` succeeded.
+export async function runTransaction(
+  setTransactionStatus: SetTransactionStatus,
+  messages: { pending: string; success: string; failure: string },
+  send: () => Promise<void>
+): Promise<boolean> {
+  setTransactionStatus({ visible: true, status: "pending", message: messages.pending });
+  try {
+    await send();
+    setTransactionStatus({ visible: true, status: "success", message: messages.success });
+    setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    return true;
+  } catch (e: any) {
+    const errorMessage = e.message?.includes("user rejected transaction") ? "Transaction rejected by user" : messages.failure + (e.message || "Unknown error");
+    setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+    setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    return false;
+  }
+}
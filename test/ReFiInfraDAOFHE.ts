@@ -0,0 +1,254 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import {
+  ConfidentialTokenMock,
+  ConfidentialTokenMock__factory,
+  ReFiInfraDAOFHE,
+  ReFiInfraDAOFHE__factory,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  treasury: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const BATCH_DURATION = 3600;
+const MINTED = 1000n;
+
+async function deployFixture(deployer: HardhatEthersSigner) {
+  const tokenFactory = (await ethers.getContractFactory("ConfidentialTokenMock")) as ConfidentialTokenMock__factory;
+  const token = (await tokenFactory.deploy("ReFi Infra Token", "RIT")) as ConfidentialTokenMock;
+  const daoFactory = (await ethers.getContractFactory("ReFiInfraDAOFHE")) as ReFiInfraDAOFHE__factory;
+  const dao = (await daoFactory.connect(deployer).deploy(await token.getAddress())) as ReFiInfraDAOFHE;
+  return { token, tokenAddress: await token.getAddress(), dao, daoAddress: await dao.getAddress() };
+}
+
+describe("ReFiInfraDAOFHE escrow", function () {
+  let signers: Signers;
+  let token: ConfidentialTokenMock;
+  let tokenAddress: string;
+  let dao: ReFiInfraDAOFHE;
+  let daoAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], treasury: ethSigners[1], alice: ethSigners[2], bob: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ token, tokenAddress, dao, daoAddress } = await deployFixture(signers.deployer));
+  });
+
+  // Opens batch 1 for a new project, with an encrypted funding target only the manager can read.
+  async function openBatch(target: bigint) {
+    await dao.createProject(signers.treasury.address, "Solar microgrid", "energy", ethers.ZeroHash);
+    const encryptedTarget = await fhevm.createEncryptedInput(daoAddress, signers.deployer.address).add64(target).encrypt();
+    const now = await time.latest();
+    await dao.openBatch(1, now, now + BATCH_DURATION, encryptedTarget.handles[0], encryptedTarget.inputProof);
+  }
+
+  async function contribute(contributor: HardhatEthersSigner, amount: bigint) {
+    await token.mint(contributor.address, MINTED);
+    await token.connect(contributor).setOperator(daoAddress, (await time.latest()) + 86400);
+    const encryptedAmount = await fhevm.createEncryptedInput(daoAddress, contributor.address).add64(amount).encrypt();
+    await dao.connect(contributor).submitContribution(1, encryptedAmount.handles[0], encryptedAmount.inputProof);
+  }
+
+  async function balanceOf(account: HardhatEthersSigner) {
+    const handle = await token.confidentialBalanceOf(account.address);
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, tokenAddress, account);
+  }
+
+  async function checkFunding() {
+    await dao.closeBatch(1);
+    await dao.requestFundingCheck(1);
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  it("escrows a contribution that only the contributor can read", async function () {
+    await openBatch(500n);
+    await contribute(signers.alice, 400n);
+
+    const escrowed = await dao.contributionOf(1, signers.alice.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, escrowed, daoAddress, signers.alice)).to.eq(400n);
+    expect(await balanceOf(signers.alice)).to.eq(MINTED - 400n);
+    expect((await dao.getBatch(1)).contributorCount).to.eq(1n);
+  });
+
+  it("releases the escrow to the project treasury once the goal is met", async function () {
+    await openBatch(500n);
+    await contribute(signers.alice, 400n);
+    await contribute(signers.bob, 300n);
+    await checkFunding();
+
+    const batch = await dao.getBatch(1);
+    expect(batch.fundingChecked).to.eq(true);
+    expect(batch.fundingGoalMet).to.eq(true);
+    await expect(dao.connect(signers.alice).claimRefund(1)).to.be.revertedWithCustomError(dao, "RefundNotAvailable");
+
+    await dao.connect(signers.bob).releaseFunds(1);
+    expect(await balanceOf(signers.treasury)).to.eq(700n);
+    await expect(dao.releaseFunds(1)).to.be.revertedWithCustomError(dao, "FundsAlreadyReleased");
+  });
+
+  it("refunds contributors when the goal is missed", async function () {
+    await openBatch(1000n);
+    await contribute(signers.alice, 400n);
+    await checkFunding();
+
+    expect((await dao.getBatch(1)).fundingGoalMet).to.eq(false);
+    await expect(dao.releaseFunds(1)).to.be.revertedWithCustomError(dao, "FundingGoalNotMet");
+
+    await dao.connect(signers.alice).claimRefund(1);
+    expect(await balanceOf(signers.alice)).to.eq(MINTED);
+    await expect(dao.connect(signers.bob).claimRefund(1)).to.be.revertedWithCustomError(dao, "NothingToRefund");
+  });
+
+  it("refunds contributors of a cancelled batch", async function () {
+    await openBatch(500n);
+    await contribute(signers.alice, 400n);
+    await expect(dao.connect(signers.alice).claimRefund(1)).to.be.revertedWithCustomError(dao, "RefundNotAvailable");
+
+    await dao.cancelBatch(1);
+    await dao.connect(signers.alice).claimRefund(1);
+    expect(await balanceOf(signers.alice)).to.eq(MINTED);
+  });
+
+  it("answers the funding check only once", async function () {
+    await openBatch(500n);
+    await contribute(signers.alice, 400n);
+    await expect(dao.requestFundingCheck(1)).to.be.revertedWithCustomError(dao, "BatchNotClosed");
+    await checkFunding();
+
+    await time.increase(Number(await dao.cooldownSeconds()));
+    await expect(dao.requestFundingCheck(1)).to.be.revertedWithCustomError(dao, "FundingAlreadyChecked");
+  });
+
+  it("fixes the noise bound once a summary has drawn noise", async function () {
+    await dao.setAnonymityThresholds(1, 0);
+    await openBatch(500n);
+    await dao.setBatchNoise(1, 16);
+    // A contribution of nothing counts as a contributor but not as a funded one, so the summary is withheld.
+    await contribute(signers.alice, 0n);
+    await dao.closeBatch(1);
+    await dao.requestBatchSummaryDecryption(1);
+    await fhevm.awaitDecryptionOracle();
+
+    expect((await dao.getBatch(1)).status).to.eq(1n); // Closed
+    await expect(dao.setBatchNoise(1, 32)).to.be.revertedWithCustomError(dao, "NoiseAlreadyDrawn");
+  });
+
+  it("keeps a pending funding check from being replaced until the decryption timeout", async function () {
+    await openBatch(500n);
+    await contribute(signers.alice, 400n);
+    await dao.closeBatch(1);
+    await dao.requestFundingCheck(1);
+    await expect(dao.connect(signers.alice).requestFundingCheck(1)).to.be.revertedWithCustomError(dao, "DecryptionPending");
+
+    // A stalled check can be re-requested, and the earlier answer still lands on the same ciphertext.
+    await time.increase(Number(await dao.decryptionTimeout()));
+    await dao.connect(signers.alice).requestFundingCheck(1);
+    await fhevm.awaitDecryptionOracle();
+    const batch = await dao.getBatch(1);
+    expect(batch.fundingChecked).to.eq(true);
+    expect(batch.fundingGoalMet).to.eq(false);
+  });
+});
+
+describe("ReFiInfraDAOFHE usage reports", function () {
+  let signers: Signers;
+  let dao: ReFiInfraDAOFHE;
+  let daoAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], treasury: ethSigners[1], alice: ethSigners[2], bob: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ dao, daoAddress } = await deployFixture(signers.deployer));
+
+    // The deployer holds PROVIDER_ROLE from the constructor, and no staking contract is set.
+    await dao.createProject(signers.treasury.address, "Solar microgrid", "energy", ethers.ZeroHash);
+    const encryptedTarget = await fhevm.createEncryptedInput(daoAddress, signers.deployer.address).add64(1).encrypt();
+    const now = await time.latest();
+    await dao.openBatch(1, now, now + BATCH_DURATION, encryptedTarget.handles[0], encryptedTarget.inputProof);
+  });
+
+  async function reportReadings(readings: bigint[]) {
+    const input = fhevm.createEncryptedInput(daoAddress, signers.deployer.address);
+    readings.forEach(reading => input.add64(reading));
+    const encrypted = await input.encrypt();
+    const devices = readings.map(() => ethers.Wallet.createRandom().address);
+    return dao.reportUsageBatch(1, devices, encrypted.handles, encrypted.inputProof);
+  }
+
+  async function usageOf(provider: HardhatEthersSigner) {
+    const handle = await dao.usageOf(1, provider.address);
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, daoAddress, provider);
+  }
+
+  it("accepts the maximum number of readings in one transaction", async function () {
+    const max = Number(await dao.MAX_READINGS_PER_REPORT());
+    const readings = Array.from({ length: max }, (_, i) => BigInt(i + 1));
+    await reportReadings(readings);
+    expect(await usageOf(signers.deployer)).to.eq(readings.reduce((a, b) => a + b));
+
+    // A provider's later reports add to its existing total.
+    await time.increase(Number(await dao.cooldownSeconds()));
+    await reportReadings(readings);
+    expect(await usageOf(signers.deployer)).to.eq(2n * readings.reduce((a, b) => a + b));
+    expect((await dao.getBatch(1)).providerCount).to.eq(1n);
+  });
+
+  it("keeps each provider's usage readable only by the provider and auditors", async function () {
+    await reportReadings([10n]);
+    await dao.addProvider(signers.alice.address);
+    const encrypted = await fhevm.createEncryptedInput(daoAddress, signers.alice.address).add64(5).encrypt();
+    await dao.connect(signers.alice).reportUsage(1, encrypted.handles[0], encrypted.inputProof);
+
+    const [providers, usage] = await dao.getUsageBreakdown(1);
+    expect(providers).to.deep.eq([signers.deployer.address, signers.alice.address]);
+    expect(usage[1]).to.eq(await dao.usageOf(1, signers.alice.address));
+    expect(await usageOf(signers.alice)).to.eq(5n);
+    expect(await usageOf(signers.deployer)).to.eq(10n);
+
+    const handle = await dao.usageOf(1, signers.alice.address);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint64, handle, daoAddress, signers.bob)).to.be.rejected;
+    await expect(dao.connect(signers.bob).grantUsageAccess(1, signers.alice.address)).to.be.revertedWithCustomError(
+      dao,
+      "MissingRole",
+    );
+    await dao.grantRole(await dao.AUDITOR_ROLE(), signers.bob.address);
+    await expect(dao.connect(signers.bob).grantUsageAccess(1, signers.alice.address))
+      .to.emit(dao, "UsageAccessGranted")
+      .withArgs(1, signers.alice.address, signers.bob.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, handle, daoAddress, signers.bob)).to.eq(5n);
+  });
+
+  it("rejects empty, oversized and mismatched reports", async function () {
+    const max = Number(await dao.MAX_READINGS_PER_REPORT());
+    await expect(reportReadings(Array(max + 1).fill(1n))).to.be.revertedWithCustomError(dao, "InvalidReadings");
+
+    const encrypted = await fhevm.createEncryptedInput(daoAddress, signers.deployer.address).add64(1).encrypt();
+    await expect(dao.reportUsageBatch(1, [], [], encrypted.inputProof)).to.be.revertedWithCustomError(dao, "InvalidReadings");
+    await expect(
+      dao.reportUsageBatch(1, [signers.alice.address, signers.bob.address], encrypted.handles, encrypted.inputProof),
+    ).to.be.revertedWithCustomError(dao, "InvalidReadings");
+  });
+});
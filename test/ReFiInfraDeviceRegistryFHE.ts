@@ -0,0 +1,165 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { HDNodeWallet } from "ethers";
+import {
+  ConfidentialTokenMock,
+  ConfidentialTokenMock__factory,
+  ReFiInfraDAOFHE,
+  ReFiInfraDAOFHE__factory,
+  ReFiInfraDeviceRegistryFHE,
+  ReFiInfraDeviceRegistryFHE__factory,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  treasury: HardhatEthersSigner;
+  relayer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+};
+
+const BATCH_DURATION = 3600;
+
+const USAGE_REPORT_TYPES = {
+  UsageReport: [
+    { name: "device", type: "address" },
+    { name: "batchId", type: "uint256" },
+    { name: "encryptedUsage", type: "bytes32" },
+    { name: "inputProofHash", type: "bytes32" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+// The deployer owns the DAO and holds PROVIDER_ROLE from its constructor.
+async function deployFixture(deployer: HardhatEthersSigner) {
+  const tokenFactory = (await ethers.getContractFactory("ConfidentialTokenMock")) as ConfidentialTokenMock__factory;
+  const token = (await tokenFactory.deploy("ReFi Infra Token", "RIT")) as ConfidentialTokenMock;
+  const daoFactory = (await ethers.getContractFactory("ReFiInfraDAOFHE")) as ReFiInfraDAOFHE__factory;
+  const dao = (await daoFactory.connect(deployer).deploy(await token.getAddress())) as ReFiInfraDAOFHE;
+  const registryFactory = (await ethers.getContractFactory(
+    "ReFiInfraDeviceRegistryFHE",
+  )) as ReFiInfraDeviceRegistryFHE__factory;
+  const registry = (await registryFactory.deploy(await dao.getAddress())) as ReFiInfraDeviceRegistryFHE;
+
+  await dao.setDeviceRegistry(await registry.getAddress());
+  return { dao, daoAddress: await dao.getAddress(), registry, registryAddress: await registry.getAddress() };
+}
+
+describe("ReFiInfraDeviceRegistryFHE", function () {
+  let signers: Signers;
+  let dao: ReFiInfraDAOFHE;
+  let daoAddress: string;
+  let registry: ReFiInfraDeviceRegistryFHE;
+  let registryAddress: string;
+  let device: HDNodeWallet;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], treasury: ethSigners[1], relayer: ethSigners[2], alice: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ dao, daoAddress, registry, registryAddress } = await deployFixture(signers.deployer));
+
+    await dao.createProject(signers.treasury.address, "Solar microgrid", "energy", ethers.ZeroHash);
+    const encryptedTarget = await fhevm.createEncryptedInput(daoAddress, signers.deployer.address).add64(1).encrypt();
+    const now = await time.latest();
+    await dao.openBatch(1, now, now + BATCH_DURATION, encryptedTarget.handles[0], encryptedTarget.inputProof);
+
+    device = ethers.Wallet.createRandom();
+    await registry.registerDevice(device.address);
+  });
+
+  // Encrypts a reading for the DAO with the registry as the user, and has the device sign the EIP-712 report.
+  async function signReading(reading: bigint, signer: HDNodeWallet = device) {
+    const encrypted = await fhevm.createEncryptedInput(daoAddress, registryAddress).add64(reading).encrypt();
+    const deadline = (await time.latest()) + 600;
+    const domain = {
+      name: "ReFiInfraDeviceRegistry",
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: registryAddress,
+    };
+    const signature = await signer.signTypedData(domain, USAGE_REPORT_TYPES, {
+      device: device.address,
+      batchId: 1,
+      encryptedUsage: encrypted.handles[0],
+      inputProofHash: ethers.keccak256(encrypted.inputProof),
+      nonce: await registry.nonces(device.address),
+      deadline,
+    });
+    return { handle: encrypted.handles[0], inputProof: encrypted.inputProof, deadline, signature };
+  }
+
+  async function usageOf(provider: HardhatEthersSigner) {
+    const handle = await dao.usageOf(1, provider.address);
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, daoAddress, provider);
+  }
+
+  it("credits relayed device readings to the device's provider", async function () {
+    expect(await registry.providerOf(device.address)).to.eq(signers.deployer.address);
+    expect(await registry.getProviderDevices(signers.deployer.address)).to.deep.eq([device.address]);
+
+    const report = await signReading(42n);
+    await expect(
+      registry
+        .connect(signers.relayer)
+        .relayUsage(device.address, 1, report.handle, report.inputProof, report.deadline, report.signature),
+    )
+      .to.emit(registry, "DeviceUsageRelayed")
+      .withArgs(device.address, signers.deployer.address, 1, 0, signers.relayer.address);
+    expect(await usageOf(signers.deployer)).to.eq(42n);
+    expect(await registry.nonces(device.address)).to.eq(1n);
+  });
+
+  it("rejects replayed, expired and foreign signatures", async function () {
+    const report = await signReading(42n);
+    await registry.relayUsage(device.address, 1, report.handle, report.inputProof, report.deadline, report.signature);
+    await expect(
+      registry.relayUsage(device.address, 1, report.handle, report.inputProof, report.deadline, report.signature),
+    ).to.be.revertedWithCustomError(registry, "InvalidSignature");
+
+    const forged = await signReading(7n, ethers.Wallet.createRandom());
+    await expect(
+      registry.relayUsage(device.address, 1, forged.handle, forged.inputProof, forged.deadline, forged.signature),
+    ).to.be.revertedWithCustomError(registry, "InvalidSignature");
+
+    const late = await signReading(7n);
+    await time.increase(601);
+    await expect(
+      registry.relayUsage(device.address, 1, late.handle, late.inputProof, late.deadline, late.signature),
+    ).to.be.revertedWithCustomError(registry, "SignatureExpired");
+  });
+
+  it("only lets providers register devices and retire their own", async function () {
+    await expect(
+      registry.connect(signers.alice).registerDevice(ethers.Wallet.createRandom().address),
+    ).to.be.revertedWithCustomError(registry, "MissingRole");
+    await expect(registry.registerDevice(device.address)).to.be.revertedWithCustomError(
+      registry,
+      "DeviceAlreadyRegistered",
+    );
+    await expect(registry.connect(signers.alice).deregisterDevice(device.address)).to.be.revertedWithCustomError(
+      registry,
+      "NotDeviceProvider",
+    );
+
+    const second = ethers.Wallet.createRandom().address;
+    await registry.registerDevice(second);
+    await registry.deregisterDevice(device.address);
+    expect(await registry.getProviderDevices(signers.deployer.address)).to.deep.eq([second]);
+
+    const report = await signReading(42n);
+    await expect(
+      registry.relayUsage(device.address, 1, report.handle, report.inputProof, report.deadline, report.signature),
+    ).to.be.revertedWithCustomError(registry, "DeviceNotRegistered");
+  });
+});
@@ -0,0 +1,206 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import {
+  ConfidentialTokenMock,
+  ConfidentialTokenMock__factory,
+  ReFiInfraDAOFHE,
+  ReFiInfraDAOFHE__factory,
+  ReFiInfraGovernorFHE,
+  ReFiInfraGovernorFHE__factory,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const TIMELOCK_DELAY = 86400;
+const CANCEL_QUORUM = 2;
+const VOTE_NO = 0;
+const VOTE_YES = 1;
+
+// Deploys the DAO, registers the voters and hands DAO ownership to the governor, as deploy/deploy.ts does.
+async function deployFixture(deployer: HardhatEthersSigner, voters: HardhatEthersSigner[]) {
+  const tokenFactory = (await ethers.getContractFactory("ConfidentialTokenMock")) as ConfidentialTokenMock__factory;
+  const token = (await tokenFactory.deploy("ReFi Infra Token", "RIT")) as ConfidentialTokenMock;
+  const daoFactory = (await ethers.getContractFactory("ReFiInfraDAOFHE")) as ReFiInfraDAOFHE__factory;
+  const dao = (await daoFactory.connect(deployer).deploy(await token.getAddress())) as ReFiInfraDAOFHE;
+  const governorFactory = (await ethers.getContractFactory("ReFiInfraGovernorFHE")) as ReFiInfraGovernorFHE__factory;
+  const governor = (await governorFactory
+    .connect(deployer)
+    .deploy(await dao.getAddress(), TIMELOCK_DELAY, CANCEL_QUORUM)) as ReFiInfraGovernorFHE;
+
+  for (const voter of voters) {
+    await dao.grantRole(await dao.VOTER_ROLE(), voter.address);
+  }
+  await dao.transferOwnership(await governor.getAddress());
+  await governor.acceptDAOOwnership();
+  return { dao, governor, governorAddress: await governor.getAddress() };
+}
+
+describe("ReFiInfraGovernorFHE timelock", function () {
+  let signers: Signers;
+  let dao: ReFiInfraDAOFHE;
+  let governor: ReFiInfraGovernorFHE;
+  let governorAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], carol: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ dao, governor, governorAddress } = await deployFixture(signers.deployer, [signers.alice, signers.bob, signers.carol]));
+  });
+
+  // Queues operation 1, which raises the DAO's submission cooldown to 120 seconds.
+  async function queueCooldownChange() {
+    await governor.queueOperation(dao.interface.encodeFunctionData("setCooldownSeconds", [120]));
+  }
+
+  async function vote(voter: HardhatEthersSigner, proposalId: number, choice: number) {
+    const ballot = await fhevm.createEncryptedInput(governorAddress, voter.address).add8(choice).encrypt();
+    await governor.connect(voter).castVote(proposalId, ballot.handles[0], ballot.inputProof);
+  }
+
+  it("hands DAO ownership to the governor", async function () {
+    expect(await dao.owner()).to.eq(governorAddress);
+    expect(await dao.hasRole(await dao.ADMIN_ROLE(), signers.deployer.address)).to.eq(true);
+  });
+
+  it("keeps admins from bypassing the timelock", async function () {
+    const providerRole = await dao.PROVIDER_ROLE();
+    // Hardhat cannot trace these reverts back to the source, so they are checked with static calls.
+    for (const role of [providerRole, await dao.ADMIN_ROLE(), await dao.PAUSER_ROLE(), await dao.VOTER_ROLE()]) {
+      await expect(dao.grantRole.staticCall(role, signers.alice.address)).to.be.revertedWithCustomError(dao, "NotOwner");
+    }
+    await expect(dao.revokeRole.staticCall(providerRole, signers.deployer.address)).to.be.revertedWithCustomError(dao, "NotOwner");
+    await expect(dao.setCooldownSeconds.staticCall(120)).to.be.revertedWithCustomError(dao, "NotOwner");
+    await expect(dao.setDecryptionTimeout.staticCall(3600)).to.be.revertedWithCustomError(dao, "NotOwner");
+    await expect(dao.setAnonymityThresholds.staticCall(1, 1)).to.be.revertedWithCustomError(dao, "NotOwner");
+    await expect(
+      governor
+        .connect(signers.alice)
+        .queueOperation.staticCall(dao.interface.encodeFunctionData("setCooldownSeconds", [120])),
+    ).to.be.revertedWithCustomError(governor, "MissingRole");
+  });
+
+  it("only lets members vote", async function () {
+    await queueCooldownChange();
+    await expect(governor.proposeCancellation(1, "Not a member")).to.be.revertedWithCustomError(governor, "MissingRole");
+    await governor.connect(signers.alice).proposeCancellation(1, "Keep the current cooldown");
+
+    const ballot = await fhevm.createEncryptedInput(governorAddress, signers.deployer.address).add8(VOTE_YES).encrypt();
+    await expect(governor.castVote(1, ballot.handles[0], ballot.inputProof)).to.be.revertedWithCustomError(
+      governor,
+      "MissingRole",
+    );
+    await expect(governor.createProposal("No quorum", 3600, 0)).to.be.revertedWithCustomError(governor, "InvalidQuorum");
+  });
+
+  it("executes a queued operation only after the delay", async function () {
+    await queueCooldownChange();
+    await expect(governor.executeOperation(1)).to.be.revertedWithCustomError(governor, "OperationNotReady");
+
+    await time.increase(TIMELOCK_DELAY);
+    await governor.connect(signers.alice).executeOperation(1);
+    expect(await dao.cooldownSeconds()).to.eq(120n);
+    await expect(governor.executeOperation(1)).to.be.revertedWithCustomError(governor, "OperationNotPending");
+  });
+
+  it("lets members cancel an operation by vote", async function () {
+    await queueCooldownChange();
+    await governor.connect(signers.alice).proposeCancellation(1, "Keep the current cooldown");
+    await expect(governor.connect(signers.bob).proposeCancellation(1, "Again")).to.be.revertedWithCustomError(
+      governor,
+      "CancellationAlreadyProposed",
+    );
+
+    await vote(signers.alice, 1, VOTE_YES);
+    await vote(signers.bob, 1, VOTE_YES);
+    await vote(signers.carol, 1, VOTE_NO);
+
+    // The vote ends at the operation's eta, and reached quorum, so execution waits for its tally.
+    await time.increase(TIMELOCK_DELAY);
+    expect(await governor.isCancellationPending(1)).to.eq(true);
+    await expect(governor.executeOperation(1)).to.be.revertedWithCustomError(governor, "CancellationVotePending");
+
+    await governor.requestTallyDecryption(1);
+    await fhevm.awaitDecryptionOracle();
+    const proposal = await governor.proposals(1);
+    expect([proposal.yesVotes, proposal.noVotes, proposal.abstainVotes]).to.deep.eq([2n, 1n, 0n]);
+
+    await governor.connect(signers.carol).cancelOperationByVote(1);
+    await expect(governor.executeOperation(1)).to.be.revertedWithCustomError(governor, "OperationNotPending");
+    expect(await dao.cooldownSeconds()).to.eq(60n);
+  });
+
+  it("executes once a rejected cancellation vote is tallied", async function () {
+    await queueCooldownChange();
+    await governor.connect(signers.alice).proposeCancellation(1, "Keep the current cooldown");
+    await vote(signers.alice, 1, VOTE_YES);
+    await vote(signers.bob, 1, VOTE_NO);
+    await vote(signers.carol, 1, VOTE_NO);
+
+    await time.increase(TIMELOCK_DELAY);
+    await governor.requestTallyDecryption(1);
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await governor.isProposalRejected(1)).to.eq(true);
+    await expect(governor.cancelOperationByVote(1)).to.be.revertedWithCustomError(governor, "ProposalNotAccepted");
+    await governor.executeOperation(1);
+    expect(await dao.cooldownSeconds()).to.eq(120n);
+  });
+
+  it("does not hold an operation back for a vote that missed quorum", async function () {
+    await queueCooldownChange();
+    await governor.connect(signers.alice).proposeCancellation(1, "Keep the current cooldown");
+    await vote(signers.alice, 1, VOTE_YES);
+
+    await time.increase(TIMELOCK_DELAY);
+    await expect(governor.connect(signers.bob).proposeCancellation(1, "Too late")).to.be.revertedWithCustomError(
+      governor,
+      "CancellationAlreadyProposed",
+    );
+    expect(await governor.isCancellationPending(1)).to.eq(false);
+    await governor.executeOperation(1);
+    expect(await dao.cooldownSeconds()).to.eq(120n);
+  });
+
+  it("keeps cancellation votes running while the DAO is paused", async function () {
+    // The pauser role itself can only be granted through the timelock.
+    await governor.queueOperation(
+      dao.interface.encodeFunctionData("grantRole", [await dao.PAUSER_ROLE(), signers.deployer.address]),
+    );
+    await time.increase(TIMELOCK_DELAY);
+    await governor.executeOperation(1);
+
+    await governor.queueOperation(dao.interface.encodeFunctionData("setCooldownSeconds", [0]));
+    await dao.pause();
+    await governor.connect(signers.alice).proposeCancellation(2, "Keep the cooldown");
+    await vote(signers.alice, 1, VOTE_YES);
+    await vote(signers.bob, 1, VOTE_YES);
+
+    await time.increase(TIMELOCK_DELAY);
+    await expect(governor.executeOperation(2)).to.be.revertedWithCustomError(governor, "CancellationVotePending");
+    await governor.requestTallyDecryption(1);
+    await fhevm.awaitDecryptionOracle();
+    await governor.cancelOperationByVote(1);
+    expect(await dao.cooldownSeconds()).to.eq(60n);
+  });
+
+  it("closes cancellation proposals once the operation is ready", async function () {
+    await queueCooldownChange();
+    await time.increase(TIMELOCK_DELAY);
+    await expect(governor.connect(signers.bob).proposeCancellation(1, "Too late")).to.be.revertedWithCustomError(governor, "VotingClosed");
+  });
+});
@@ -0,0 +1,156 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import {
+  ConfidentialTokenMock,
+  ConfidentialTokenMock__factory,
+  ReFiInfraDAOFHE,
+  ReFiInfraDAOFHE__factory,
+  ReFiInfraRevenueDistributorFHE,
+  ReFiInfraRevenueDistributorFHE__factory,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  treasury: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const BATCH_DURATION = 3600;
+const MINTED = 1000n;
+
+async function deployFixture(deployer: HardhatEthersSigner) {
+  const tokenFactory = (await ethers.getContractFactory("ConfidentialTokenMock")) as ConfidentialTokenMock__factory;
+  const token = (await tokenFactory.deploy("ReFi Infra Token", "RIT")) as ConfidentialTokenMock;
+  const daoFactory = (await ethers.getContractFactory("ReFiInfraDAOFHE")) as ReFiInfraDAOFHE__factory;
+  const dao = (await daoFactory.connect(deployer).deploy(await token.getAddress())) as ReFiInfraDAOFHE;
+  const revenueFactory = (await ethers.getContractFactory(
+    "ReFiInfraRevenueDistributorFHE",
+  )) as ReFiInfraRevenueDistributorFHE__factory;
+  const revenue = (await revenueFactory.deploy(await dao.getAddress())) as ReFiInfraRevenueDistributorFHE;
+
+  await dao.setRevenueDistributor(await revenue.getAddress());
+  // Two contributors and no providers are enough for a summary here.
+  await dao.setAnonymityThresholds(2, 0);
+  return {
+    token,
+    tokenAddress: await token.getAddress(),
+    dao,
+    daoAddress: await dao.getAddress(),
+    revenue,
+    revenueAddress: await revenue.getAddress(),
+  };
+}
+
+describe("ReFiInfraRevenueDistributorFHE", function () {
+  let signers: Signers;
+  let token: ConfidentialTokenMock;
+  let tokenAddress: string;
+  let dao: ReFiInfraDAOFHE;
+  let daoAddress: string;
+  let revenue: ReFiInfraRevenueDistributorFHE;
+  let revenueAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], treasury: ethSigners[1], alice: ethSigners[2], bob: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ token, tokenAddress, dao, daoAddress, revenue, revenueAddress } = await deployFixture(signers.deployer));
+  });
+
+  async function contribute(contributor: HardhatEthersSigner, amount: bigint) {
+    await token.mint(contributor.address, MINTED);
+    await token.connect(contributor).setOperator(daoAddress, (await time.latest()) + 86400);
+    const encryptedAmount = await fhevm.createEncryptedInput(daoAddress, contributor.address).add64(amount).encrypt();
+    await dao.connect(contributor).submitContribution(1, encryptedAmount.handles[0], encryptedAmount.inputProof);
+  }
+
+  // Funds batch 1 with 300 from alice and 100 from bob, finalizes its summary and releases it to the treasury.
+  async function fundBatch() {
+    await dao.createProject(signers.treasury.address, "Solar microgrid", "energy", ethers.ZeroHash);
+    const encryptedTarget = await fhevm.createEncryptedInput(daoAddress, signers.deployer.address).add64(400).encrypt();
+    const now = await time.latest();
+    await dao.openBatch(1, now, now + BATCH_DURATION, encryptedTarget.handles[0], encryptedTarget.inputProof);
+    await contribute(signers.alice, 300n);
+    await contribute(signers.bob, 100n);
+
+    await time.increase(BATCH_DURATION);
+    await dao.finalize(1);
+    await fhevm.awaitDecryptionOracle();
+    await dao.requestFundingCheck(1);
+    await fhevm.awaitDecryptionOracle();
+    await dao.releaseFunds(1);
+  }
+
+  async function depositRevenue(amount: bigint) {
+    await token.mint(signers.deployer.address, amount);
+    await token.setOperator(revenueAddress, (await time.latest()) + 86400);
+    const encryptedAmount = await fhevm.createEncryptedInput(revenueAddress, signers.deployer.address).add64(amount).encrypt();
+    await revenue.depositRevenue(1, encryptedAmount.handles[0], encryptedAmount.inputProof);
+  }
+
+  async function balanceOf(account: HardhatEthersSigner) {
+    const handle = await token.confidentialBalanceOf(account.address);
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, tokenAddress, account);
+  }
+
+  async function claimableOf(account: HardhatEthersSigner) {
+    const handle = await revenue.claimableOf(account.address);
+    return fhevm.userDecryptEuint(FhevmType.euint64, handle, revenueAddress, account);
+  }
+
+  it("only takes revenue for batches whose funds were released", async function () {
+    await dao.createProject(signers.treasury.address, "Solar microgrid", "energy", ethers.ZeroHash);
+    const encryptedTarget = await fhevm.createEncryptedInput(daoAddress, signers.deployer.address).add64(400).encrypt();
+    const now = await time.latest();
+    await dao.openBatch(1, now, now + BATCH_DURATION, encryptedTarget.handles[0], encryptedTarget.inputProof);
+
+    const encryptedAmount = await fhevm.createEncryptedInput(revenueAddress, signers.deployer.address).add64(10).encrypt();
+    await expect(
+      revenue.depositRevenue(1, encryptedAmount.handles[0], encryptedAmount.inputProof),
+    ).to.be.revertedWithCustomError(revenue, "BatchNotFunded");
+    await expect(revenue.accrue(1)).to.be.revertedWithCustomError(revenue, "NoRevenue");
+  });
+
+  it("pays each contributor a share pro rata to their contribution", async function () {
+    await fundBatch();
+    await depositRevenue(200n);
+
+    await revenue.connect(signers.alice).accrue(1);
+    expect(await claimableOf(signers.alice)).to.eq(150n);
+    await revenue.connect(signers.alice).withdraw();
+    expect(await balanceOf(signers.alice)).to.eq(MINTED - 300n + 150n);
+
+    // Later deposits only credit what was not accrued before.
+    await depositRevenue(40n);
+    await revenue.connect(signers.alice).accrue(1);
+    await revenue.connect(signers.bob).accrue(1);
+    expect(await claimableOf(signers.alice)).to.eq(30n);
+    expect(await claimableOf(signers.bob)).to.eq(60n);
+    await expect(revenue.connect(signers.treasury).accrue(1)).to.be.revertedWithCustomError(revenue, "NotAContributor");
+  });
+
+  it("sweeps undistributed revenue to the treasury once deposits have been quiet", async function () {
+    await fundBatch();
+    await depositRevenue(200n);
+    await revenue.connect(signers.alice).accrue(1);
+    await expect(revenue.sweepUnclaimed(1)).to.be.revertedWithCustomError(revenue, "SweepNotAvailable");
+
+    await time.increase(Number(await revenue.UNCLAIMED_REVENUE_PERIOD()));
+    await revenue.sweepUnclaimed(1);
+    // The treasury holds the released escrow plus bob's unaccrued share.
+    expect(await balanceOf(signers.treasury)).to.eq(400n + 50n);
+    await expect(revenue.connect(signers.bob).accrue(1)).to.be.revertedWithCustomError(revenue, "RevenueAlreadySwept");
+    await expect(revenue.sweepUnclaimed(1)).to.be.revertedWithCustomError(revenue, "RevenueAlreadySwept");
+  });
+});
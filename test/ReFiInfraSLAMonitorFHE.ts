@@ -0,0 +1,131 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import {
+  ConfidentialTokenMock,
+  ConfidentialTokenMock__factory,
+  ReFiInfraDAOFHE,
+  ReFiInfraDAOFHE__factory,
+  ReFiInfraSLAMonitorFHE,
+  ReFiInfraSLAMonitorFHE__factory,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  treasury: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+const BATCH_DURATION = 3600;
+const MIN_UPTIME_MINUTES = 1380;
+const MAX_LATENCY_BUCKET = 3;
+
+// The deployer owns the DAO, holds ADMIN_ROLE and PROVIDER_ROLE, and opens batch 1.
+async function deployFixture(deployer: HardhatEthersSigner, treasury: HardhatEthersSigner) {
+  const tokenFactory = (await ethers.getContractFactory("ConfidentialTokenMock")) as ConfidentialTokenMock__factory;
+  const token = (await tokenFactory.deploy("ReFi Infra Token", "RIT")) as ConfidentialTokenMock;
+  const daoFactory = (await ethers.getContractFactory("ReFiInfraDAOFHE")) as ReFiInfraDAOFHE__factory;
+  const dao = (await daoFactory.connect(deployer).deploy(await token.getAddress())) as ReFiInfraDAOFHE;
+  const slaFactory = (await ethers.getContractFactory("ReFiInfraSLAMonitorFHE")) as ReFiInfraSLAMonitorFHE__factory;
+  const sla = (await slaFactory.deploy(await dao.getAddress())) as ReFiInfraSLAMonitorFHE;
+
+  const daoAddress = await dao.getAddress();
+  await dao.createProject(treasury.address, "Solar microgrid", "energy", ethers.ZeroHash);
+  const encryptedTarget = await fhevm.createEncryptedInput(daoAddress, deployer.address).add64(1).encrypt();
+  const now = await time.latest();
+  await dao.openBatch(1, now, now + BATCH_DURATION, encryptedTarget.handles[0], encryptedTarget.inputProof);
+  return { dao, sla, slaAddress: await sla.getAddress() };
+}
+
+describe("ReFiInfraSLAMonitorFHE", function () {
+  let signers: Signers;
+  let dao: ReFiInfraDAOFHE;
+  let sla: ReFiInfraSLAMonitorFHE;
+  let slaAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], treasury: ethSigners[1], alice: ethSigners[2], bob: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ dao, sla, slaAddress } = await deployFixture(signers.deployer, signers.treasury));
+  });
+
+  async function setThresholds() {
+    const encrypted = await fhevm
+      .createEncryptedInput(slaAddress, signers.deployer.address)
+      .add32(MIN_UPTIME_MINUTES)
+      .add32(MAX_LATENCY_BUCKET)
+      .encrypt();
+    return sla.setThresholds(encrypted.handles[0], encrypted.handles[1], encrypted.inputProof);
+  }
+
+  async function reportKpis(provider: HardhatEthersSigner, uptimeMinutes: number, latencyBucket: number) {
+    const encrypted = await fhevm
+      .createEncryptedInput(slaAddress, provider.address)
+      .add32(uptimeMinutes)
+      .add32(latencyBucket)
+      .encrypt();
+    return sla.connect(provider).reportKpis(1, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof);
+  }
+
+  it("only decrypts whether a provider met both thresholds", async function () {
+    await setThresholds();
+    await dao.addProvider(signers.alice.address);
+    await reportKpis(signers.deployer, 1400, 2);
+    await reportKpis(signers.alice, 1400, 4);
+    await fhevm.awaitDecryptionOracle();
+
+    expect(await sla.getSlaStatus(1, signers.deployer.address)).to.deep.eq([true, true, true]);
+    expect(await sla.getSlaStatus(1, signers.alice.address)).to.deep.eq([true, true, false]);
+    expect(await sla.getSlaStatus(1, signers.bob.address)).to.deep.eq([false, false, false]);
+
+    // The raw metrics stay readable by the reporting provider alone.
+    const [uptimeMinutes, latencyBucket] = await sla.getKpis(1, signers.alice.address);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, uptimeMinutes, slaAddress, signers.alice)).to.eq(1400n);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint32, latencyBucket, slaAddress, signers.alice)).to.eq(4n);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint32, uptimeMinutes, slaAddress, signers.deployer)).to.be.rejected;
+  });
+
+  it("accepts one report per provider and batch", async function () {
+    await expect(reportKpis(signers.deployer, 1400, 2)).to.be.revertedWithCustomError(sla, "ThresholdsNotSet");
+    await setThresholds();
+    await reportKpis(signers.deployer, 1000, 2);
+    await expect(reportKpis(signers.deployer, 1400, 2)).to.be.revertedWithCustomError(sla, "AlreadyReported");
+
+    await fhevm.awaitDecryptionOracle();
+    expect(await sla.getSlaStatus(1, signers.deployer.address)).to.deep.eq([true, true, false]);
+  });
+
+  it("leaves thresholds to admins and reports to providers", async function () {
+    // Hardhat cannot trace these reverts back to the source, so they are checked with static calls.
+    const thresholds = await fhevm
+      .createEncryptedInput(slaAddress, signers.alice.address)
+      .add32(MIN_UPTIME_MINUTES)
+      .add32(MAX_LATENCY_BUCKET)
+      .encrypt();
+    await expect(
+      sla
+        .connect(signers.alice)
+        .setThresholds.staticCall(thresholds.handles[0], thresholds.handles[1], thresholds.inputProof),
+    ).to.be.revertedWithCustomError(sla, "MissingRole");
+    await setThresholds();
+
+    const kpis = await fhevm.createEncryptedInput(slaAddress, signers.alice.address).add32(1400).add32(2).encrypt();
+    await expect(
+      sla.connect(signers.alice).reportKpis.staticCall(1, kpis.handles[0], kpis.handles[1], kpis.inputProof),
+    ).to.be.revertedWithCustomError(sla, "MissingRole");
+
+    await dao.cancelBatch(1);
+    await expect(reportKpis(signers.deployer, 1400, 2)).to.be.revertedWithCustomError(sla, "InvalidBatchStatus");
+  });
+});
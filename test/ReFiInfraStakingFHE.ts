@@ -0,0 +1,226 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { ethers, fhevm } from "hardhat";
+import { expect } from "chai";
+import {
+  ConfidentialTokenMock,
+  ConfidentialTokenMock__factory,
+  ReFiInfraDAOFHE,
+  ReFiInfraDAOFHE__factory,
+  ReFiInfraGovernorFHE,
+  ReFiInfraGovernorFHE__factory,
+  ReFiInfraStakingFHE,
+  ReFiInfraStakingFHE__factory,
+} from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  provider: HardhatEthersSigner;
+  challenger: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+};
+
+const MINIMUM_STAKE = ethers.parseEther("1");
+const CHALLENGE_BOND = ethers.parseEther("0.1");
+const CHALLENGE_WINDOW = 3 * 86400;
+const UNBONDING_PERIOD = 86400;
+const SLASH_BPS = 5000;
+const BATCH_DURATION = 3600;
+const VOTING_PERIOD = 3600;
+const CHALLENGE_QUORUM = 2;
+const VOTE_NO = 0;
+const VOTE_YES = 1;
+
+// The deployer keeps DAO ownership here, so it can register providers and voters directly.
+async function deployFixture(deployer: HardhatEthersSigner) {
+  const tokenFactory = (await ethers.getContractFactory("ConfidentialTokenMock")) as ConfidentialTokenMock__factory;
+  const token = (await tokenFactory.deploy("ReFi Infra Token", "RIT")) as ConfidentialTokenMock;
+  const daoFactory = (await ethers.getContractFactory("ReFiInfraDAOFHE")) as ReFiInfraDAOFHE__factory;
+  const dao = (await daoFactory.connect(deployer).deploy(await token.getAddress())) as ReFiInfraDAOFHE;
+  const daoAddress = await dao.getAddress();
+  const governorFactory = (await ethers.getContractFactory("ReFiInfraGovernorFHE")) as ReFiInfraGovernorFHE__factory;
+  const governor = (await governorFactory.connect(deployer).deploy(daoAddress, 86400, 1)) as ReFiInfraGovernorFHE;
+  const stakingFactory = (await ethers.getContractFactory("ReFiInfraStakingFHE")) as ReFiInfraStakingFHE__factory;
+  const staking = (await stakingFactory
+    .connect(deployer)
+    .deploy(
+      daoAddress,
+      await governor.getAddress(),
+      MINIMUM_STAKE,
+      CHALLENGE_BOND,
+      CHALLENGE_WINDOW,
+      UNBONDING_PERIOD,
+      SLASH_BPS,
+      VOTING_PERIOD,
+      CHALLENGE_QUORUM,
+    )) as ReFiInfraStakingFHE;
+
+  await dao.setProviderStaking(await staking.getAddress());
+  await dao.setAnonymityThresholds(1, 1);
+  return { token, dao, daoAddress, governor, governorAddress: await governor.getAddress(), staking };
+}
+
+describe("ReFiInfraStakingFHE", function () {
+  let signers: Signers;
+  let token: ConfidentialTokenMock;
+  let dao: ReFiInfraDAOFHE;
+  let daoAddress: string;
+  let governor: ReFiInfraGovernorFHE;
+  let governorAddress: string;
+  let staking: ReFiInfraStakingFHE;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], provider: ethSigners[1], challenger: ethSigners[2], alice: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ token, dao, daoAddress, governor, governorAddress, staking } = await deployFixture(signers.deployer));
+
+    // Providers must be staked before they can be registered.
+    await staking.connect(signers.provider).stake({ value: MINIMUM_STAKE });
+    await dao.grantRole(await dao.PROVIDER_ROLE(), signers.provider.address);
+    for (const voter of [signers.alice, signers.challenger, signers.deployer]) {
+      await dao.grantRole(await dao.VOTER_ROLE(), voter.address);
+    }
+  });
+
+  // Runs batch 1 through to a decrypted summary: one contribution, one usage report by the provider, then finalize.
+  async function reportAndFinalize() {
+    await dao.createProject(signers.deployer.address, "Solar microgrid", "energy", ethers.ZeroHash);
+    const encryptedTarget = await fhevm.createEncryptedInput(daoAddress, signers.deployer.address).add64(100).encrypt();
+    const now = await time.latest();
+    await dao.openBatch(1, now, now + BATCH_DURATION, encryptedTarget.handles[0], encryptedTarget.inputProof);
+
+    await token.mint(signers.alice.address, 1000);
+    await token.connect(signers.alice).setOperator(daoAddress, now + 86400);
+    const contribution = await fhevm.createEncryptedInput(daoAddress, signers.alice.address).add64(400).encrypt();
+    await dao.connect(signers.alice).submitContribution(1, contribution.handles[0], contribution.inputProof);
+
+    const usage = await fhevm.createEncryptedInput(daoAddress, signers.provider.address).add64(50).encrypt();
+    await dao.connect(signers.provider).reportUsage(1, usage.handles[0], usage.inputProof);
+    expect(await staking.getUsageBatches(signers.provider.address)).to.deep.eq([1n]);
+
+    await time.increase(BATCH_DURATION);
+    await dao.finalize(1);
+    await fhevm.awaitDecryptionOracle();
+    expect((await dao.getBatchSummary(1)).totalUsage).to.eq(50n);
+  }
+
+  // Opens challenge 1 against the provider, which starts governor proposal 1, and lets members decide it.
+  async function challengeWithVote(votes: number[]) {
+    await staking.connect(signers.challenger).openChallenge(1, signers.provider.address, { value: CHALLENGE_BOND });
+
+    const voters = [signers.alice, signers.challenger, signers.deployer];
+    for (const [i, choice] of votes.entries()) {
+      const ballot = await fhevm.createEncryptedInput(governorAddress, voters[i].address).add8(choice).encrypt();
+      await governor.connect(voters[i]).castVote(1, ballot.handles[0], ballot.inputProof);
+    }
+    await time.increase(VOTING_PERIOD);
+    await governor.requestTallyDecryption(1);
+    await fhevm.awaitDecryptionOracle();
+  }
+
+  it("requires a stake to report usage", async function () {
+    await staking.connect(signers.provider).requestUnstake();
+    expect(await staking.isStaked(signers.provider.address)).to.eq(false);
+
+    await dao.createProject(signers.deployer.address, "Solar microgrid", "energy", ethers.ZeroHash);
+    const encryptedTarget = await fhevm.createEncryptedInput(daoAddress, signers.deployer.address).add64(100).encrypt();
+    const now = await time.latest();
+    await dao.openBatch(1, now, now + BATCH_DURATION, encryptedTarget.handles[0], encryptedTarget.inputProof);
+    const usage = await fhevm.createEncryptedInput(daoAddress, signers.provider.address).add64(50).encrypt();
+    await expect(
+      dao.connect(signers.provider).reportUsage(1, usage.handles[0], usage.inputProof),
+    ).to.be.revertedWithCustomError(dao, "StakeRequired");
+  });
+
+  it("returns an unreported stake once unbonding ends", async function () {
+    await staking.connect(signers.provider).requestUnstake();
+    await expect(staking.connect(signers.provider).stake({ value: 1 })).to.be.revertedWithCustomError(staking, "Unbonding");
+    await expect(staking.connect(signers.provider).withdrawStake()).to.be.revertedWithCustomError(staking, "StakeLocked");
+
+    await time.increase(UNBONDING_PERIOD);
+    await expect(staking.connect(signers.provider).withdrawStake()).to.changeEtherBalance(signers.provider, MINIMUM_STAKE);
+  });
+
+  it("keeps an unbonded stake locked while its batch can still be challenged", async function () {
+    await reportAndFinalize();
+    await staking.connect(signers.provider).requestUnstake();
+    await time.increase(UNBONDING_PERIOD);
+    await expect(staking.connect(signers.provider).withdrawStake()).to.be.revertedWithCustomError(staking, "StakeLocked");
+
+    await time.increase(CHALLENGE_WINDOW);
+    await expect(staking.connect(signers.provider).withdrawStake()).to.changeEtherBalance(signers.provider, MINIMUM_STAKE);
+    expect(await staking.getUsageBatches(signers.provider.address)).to.deep.eq([]);
+  });
+
+  it("opens the slashing vote with the fixed period and quorum", async function () {
+    await reportAndFinalize();
+    await expect(
+      staking.connect(signers.challenger).openChallenge(1, signers.provider.address, { value: CHALLENGE_BOND }),
+    ).to.emit(staking, "ChallengeOpened");
+
+    const proposal = await governor.proposals(1);
+    expect(proposal.description).to.eq("challenge:1");
+    expect(proposal.quorum).to.eq(BigInt(CHALLENGE_QUORUM));
+    expect(proposal.endTime - proposal.startTime).to.eq(BigInt(VOTING_PERIOD));
+    expect((await staking.challenges(1)).proposalId).to.eq(1n);
+    await expect(governor.createChallengeProposal("challenge:1", 1, 0)).to.be.revertedWithCustomError(
+      governor,
+      "NotProviderStaking",
+    );
+  });
+
+  it("slashes the provider when members uphold a challenge", async function () {
+    await reportAndFinalize();
+    await challengeWithVote([VOTE_YES, VOTE_YES]);
+
+    const slashed = (MINIMUM_STAKE * BigInt(SLASH_BPS)) / 10_000n;
+    await expect(staking.connect(signers.alice).resolveChallenge(1)).to.changeEtherBalance(
+      signers.challenger,
+      CHALLENGE_BOND + slashed,
+    );
+    expect((await staking.stakes(signers.provider.address)).amount).to.eq(MINIMUM_STAKE - slashed);
+    expect(await staking.isStaked(signers.provider.address)).to.eq(false);
+  });
+
+  it("pays the bond to the provider when a challenge is rejected", async function () {
+    await reportAndFinalize();
+    await challengeWithVote([VOTE_NO, VOTE_NO]);
+
+    await expect(staking.resolveChallenge(1)).to.changeEtherBalance(signers.provider, CHALLENGE_BOND);
+    expect((await staking.stakes(signers.provider.address)).amount).to.eq(MINIMUM_STAKE);
+  });
+
+  it("keeps the stake locked while a challenge is open", async function () {
+    await reportAndFinalize();
+    await staking.connect(signers.challenger).openChallenge(1, signers.provider.address, { value: CHALLENGE_BOND });
+    await staking.connect(signers.provider).requestUnstake();
+    await time.increase(CHALLENGE_WINDOW);
+    await expect(staking.connect(signers.provider).withdrawStake()).to.be.revertedWithCustomError(staking, "StakeLocked");
+    await expect(staking.resolveChallenge(1)).to.be.revertedWithCustomError(staking, "ChallengeNotResolvable");
+
+    // Undecided challenges are dismissed once the resolution period ends, which frees the stake.
+    await time.increase(Number(await staking.CHALLENGE_RESOLUTION_PERIOD()));
+    await expect(staking.resolveChallenge(1)).to.changeEtherBalance(signers.provider, CHALLENGE_BOND);
+    await expect(staking.connect(signers.provider).withdrawStake()).to.changeEtherBalance(signers.provider, MINIMUM_STAKE);
+  });
+
+  it("rejects challenges once the window has closed", async function () {
+    await reportAndFinalize();
+    await expect(
+      staking.connect(signers.challenger).openChallenge(1, signers.provider.address, { value: CHALLENGE_BOND - 1n }),
+    ).to.be.revertedWithCustomError(staking, "IncorrectBond");
+
+    await time.increase(CHALLENGE_WINDOW);
+    await expect(
+      staking.connect(signers.challenger).openChallenge(1, signers.provider.address, { value: CHALLENGE_BOND }),
+    ).to.be.revertedWithCustomError(staking, "ChallengeWindowClosed");
+  });
+});
@@ -0,0 +1,110 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface IProviderStakingInterface extends Interface {
+  getFunction(nameOrSignature: "isStaked" | "recordUsage"): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "isStaked",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordUsage",
+    values: [AddressLike, BigNumberish]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "isStaked", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "recordUsage",
+    data: BytesLike
+  ): Result;
+}
+
+export interface IProviderStaking extends BaseContract {
+  connect(runner?: ContractRunner | null): IProviderStaking;
+  waitForDeployment(): Promise<this>;
+
+  interface: IProviderStakingInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  isStaked: TypedContractMethod<[provider: AddressLike], [boolean], "view">;
+
+  recordUsage: TypedContractMethod<
+    [provider: AddressLike, batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "isStaked"
+  ): TypedContractMethod<[provider: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "recordUsage"
+  ): TypedContractMethod<
+    [provider: AddressLike, batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  filters: {};
+}
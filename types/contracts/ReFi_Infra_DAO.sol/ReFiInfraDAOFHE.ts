@@ -0,0 +1,2719 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export declare namespace ReFiInfraDAOFHE {
+  export type BatchStruct = {
+    id: BigNumberish;
+    projectId: BigNumberish;
+    status: BigNumberish;
+    openedAt: BigNumberish;
+    startTime: BigNumberish;
+    endTime: BigNumberish;
+    closedAt: BigNumberish;
+    decryptionRequestId: BigNumberish;
+    decryptionRequestedAt: BigNumberish;
+    contributorCount: BigNumberish;
+    providerCount: BigNumberish;
+    totalContributions: BytesLike;
+    totalUsage: BytesLike;
+    fundingTarget: BytesLike;
+    overflowed: BytesLike;
+    fundingCheck: BytesLike;
+    fundingCheckRequestedAt: BigNumberish;
+    fundingChecked: boolean;
+    fundingGoalMet: boolean;
+    fundsReleased: boolean;
+    noiseBound: BigNumberish;
+    noisedContributions: BytesLike;
+    noisedUsage: BytesLike;
+    fundedContributors: BytesLike;
+    summaryReleasable: BytesLike;
+    releasedContributions: BytesLike;
+    releasedUsage: BytesLike;
+  };
+
+  export type BatchStructOutput = [
+    id: bigint,
+    projectId: bigint,
+    status: bigint,
+    openedAt: bigint,
+    startTime: bigint,
+    endTime: bigint,
+    closedAt: bigint,
+    decryptionRequestId: bigint,
+    decryptionRequestedAt: bigint,
+    contributorCount: bigint,
+    providerCount: bigint,
+    totalContributions: string,
+    totalUsage: string,
+    fundingTarget: string,
+    overflowed: string,
+    fundingCheck: string,
+    fundingCheckRequestedAt: bigint,
+    fundingChecked: boolean,
+    fundingGoalMet: boolean,
+    fundsReleased: boolean,
+    noiseBound: bigint,
+    noisedContributions: string,
+    noisedUsage: string,
+    fundedContributors: string,
+    summaryReleasable: string,
+    releasedContributions: string,
+    releasedUsage: string
+  ] & {
+    id: bigint;
+    projectId: bigint;
+    status: bigint;
+    openedAt: bigint;
+    startTime: bigint;
+    endTime: bigint;
+    closedAt: bigint;
+    decryptionRequestId: bigint;
+    decryptionRequestedAt: bigint;
+    contributorCount: bigint;
+    providerCount: bigint;
+    totalContributions: string;
+    totalUsage: string;
+    fundingTarget: string;
+    overflowed: string;
+    fundingCheck: string;
+    fundingCheckRequestedAt: bigint;
+    fundingChecked: boolean;
+    fundingGoalMet: boolean;
+    fundsReleased: boolean;
+    noiseBound: bigint;
+    noisedContributions: string;
+    noisedUsage: string;
+    fundedContributors: string;
+    summaryReleasable: string;
+    releasedContributions: string;
+    releasedUsage: string;
+  };
+
+  export type BatchSummaryStruct = {
+    requestId: BigNumberish;
+    totalContributions: BigNumberish;
+    totalUsage: BigNumberish;
+    overflowed: boolean;
+    noiseBound: BigNumberish;
+    decryptedAt: BigNumberish;
+  };
+
+  export type BatchSummaryStructOutput = [
+    requestId: bigint,
+    totalContributions: bigint,
+    totalUsage: bigint,
+    overflowed: boolean,
+    noiseBound: bigint,
+    decryptedAt: bigint
+  ] & {
+    requestId: bigint;
+    totalContributions: bigint;
+    totalUsage: bigint;
+    overflowed: boolean;
+    noiseBound: bigint;
+    decryptedAt: bigint;
+  };
+
+  export type ProjectStruct = {
+    id: BigNumberish;
+    creator: AddressLike;
+    treasury: AddressLike;
+    title: string;
+    category: string;
+    metadataHash: BytesLike;
+    createdAt: BigNumberish;
+  };
+
+  export type ProjectStructOutput = [
+    id: bigint,
+    creator: string,
+    treasury: string,
+    title: string,
+    category: string,
+    metadataHash: string,
+    createdAt: bigint
+  ] & {
+    id: bigint;
+    creator: string;
+    treasury: string;
+    title: string;
+    category: string;
+    metadataHash: string;
+    createdAt: bigint;
+  };
+}
+
+export interface ReFiInfraDAOFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ADMIN_ROLE"
+      | "AUDITOR_ROLE"
+      | "BATCH_MANAGER_ROLE"
+      | "MAX_READINGS_PER_REPORT"
+      | "PAUSER_ROLE"
+      | "PROVIDER_ROLE"
+      | "VOTER_ROLE"
+      | "acceptOwnership"
+      | "addProvider"
+      | "batchCount"
+      | "cancelBatch"
+      | "claimRefund"
+      | "closeBatch"
+      | "contributionOf"
+      | "contributionToken"
+      | "cooldownSeconds"
+      | "createProject"
+      | "decryptionContexts"
+      | "decryptionTimeout"
+      | "deviceRegistry"
+      | "finalize"
+      | "fundingCheckCallback"
+      | "fundingCheckContexts"
+      | "getBatch"
+      | "getBatchSummary"
+      | "getContributionHistory"
+      | "getProject"
+      | "getProjectBatches"
+      | "getRoleMemberCount"
+      | "getRoleMembers"
+      | "getUsageBreakdown"
+      | "grantContributionAccess"
+      | "grantRole"
+      | "grantUsageAccess"
+      | "hasReportedUsage"
+      | "hasRole"
+      | "isAcceptingContributions"
+      | "isProvider"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "listBatches"
+      | "listProjects"
+      | "minContributorsForSummary"
+      | "minProvidersForSummary"
+      | "myCallback"
+      | "openBatch"
+      | "owner"
+      | "pause"
+      | "paused"
+      | "pendingOwner"
+      | "projectCount"
+      | "protocolId"
+      | "providerStaking"
+      | "releaseFunds"
+      | "removeProvider"
+      | "reportDeviceUsage"
+      | "reportUsage"
+      | "reportUsageBatch"
+      | "requestBatchSummaryDecryption"
+      | "requestFundingCheck"
+      | "revenueDistributor"
+      | "revokeRole"
+      | "setAnonymityThresholds"
+      | "setBatchNoise"
+      | "setCooldownSeconds"
+      | "setDecryptionTimeout"
+      | "setDeviceRegistry"
+      | "setProviderStaking"
+      | "setRevenueDistributor"
+      | "submitContribution"
+      | "transferOwnership"
+      | "unpause"
+      | "usageOf"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AnonymityThresholdsUpdated"
+      | "BatchCancelled"
+      | "BatchClosed"
+      | "BatchNoiseConfigured"
+      | "BatchOpened"
+      | "ContributionSubmitted"
+      | "CooldownSecondsUpdated"
+      | "DecryptionCompleted"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "DecryptionSuperseded"
+      | "DecryptionTimeoutUpdated"
+      | "DeviceRegistryUpdated"
+      | "DeviceUsageReported"
+      | "FundingCheckCompleted"
+      | "FundingCheckRequested"
+      | "FundsReleased"
+      | "OwnershipTransferStarted"
+      | "OwnershipTransferred"
+      | "Paused"
+      | "ProjectCreated"
+      | "ProviderAdded"
+      | "ProviderRemoved"
+      | "ProviderStakingUpdated"
+      | "RefundClaimed"
+      | "RevenueDistributorUpdated"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "SummaryWithheld"
+      | "Unpaused"
+      | "UsageAccessGranted"
+      | "UsageReported"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "AUDITOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "BATCH_MANAGER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_READINGS_PER_REPORT",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PAUSER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PROVIDER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "VOTER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimRefund",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "contributionOf",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "contributionToken",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createProject",
+    values: [AddressLike, string, string, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionTimeout",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "deviceRegistry",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finalize",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fundingCheckCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fundingCheckContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchSummary",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getContributionHistory",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getProject",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getProjectBatches",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoleMemberCount",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoleMembers",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getUsageBreakdown",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantContributionAccess",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantUsageAccess",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasReportedUsage",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAcceptingContributions",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "listBatches",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "listProjects",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "minContributorsForSummary",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "minProvidersForSummary",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openBatch",
+    values: [BigNumberish, BigNumberish, BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "pendingOwner",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "projectCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "providerStaking",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releaseFunds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reportDeviceUsage",
+    values: [AddressLike, BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reportUsage",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reportUsageBatch",
+    values: [BigNumberish, AddressLike[], BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestBatchSummaryDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestFundingCheck",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revenueDistributor",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAnonymityThresholds",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setBatchNoise",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldownSeconds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDecryptionTimeout",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setDeviceRegistry",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setProviderStaking",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRevenueDistributor",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitContribution",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "usageOf",
+    values: [BigNumberish, AddressLike]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "ADMIN_ROLE", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "AUDITOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "BATCH_MANAGER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_READINGS_PER_REPORT",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PAUSER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PROVIDER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "VOTER_ROLE", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batchCount", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimRefund",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "contributionOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "contributionToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createProject",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionTimeout",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "deviceRegistry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "finalize", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "fundingCheckCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "fundingCheckContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchSummary",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getContributionHistory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getProject", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getProjectBatches",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleMemberCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleMembers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getUsageBreakdown",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "grantContributionAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "grantUsageAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasReportedUsage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isAcceptingContributions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isProvider", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "listBatches",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "listProjects",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "minContributorsForSummary",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "minProvidersForSummary",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "openBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "projectCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "providerStaking",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "releaseFunds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reportDeviceUsage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reportUsage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reportUsageBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestBatchSummaryDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestFundingCheck",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revenueDistributor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setAnonymityThresholds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setBatchNoise",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDecryptionTimeout",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setDeviceRegistry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setProviderStaking",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRevenueDistributor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitContribution",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "usageOf", data: BytesLike): Result;
+}
+
+export namespace AnonymityThresholdsUpdatedEvent {
+  export type InputTuple = [
+    minContributors: BigNumberish,
+    minProviders: BigNumberish
+  ];
+  export type OutputTuple = [minContributors: bigint, minProviders: bigint];
+  export interface OutputObject {
+    minContributors: bigint;
+    minProviders: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchCancelledEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [batchId: BigNumberish];
+  export type OutputTuple = [batchId: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchNoiseConfiguredEvent {
+  export type InputTuple = [batchId: BigNumberish, noiseBound: BigNumberish];
+  export type OutputTuple = [batchId: bigint, noiseBound: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    noiseBound: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    projectId: BigNumberish,
+    startTime: BigNumberish,
+    endTime: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    projectId: bigint,
+    startTime: bigint,
+    endTime: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    projectId: bigint;
+    startTime: bigint;
+    endTime: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ContributionSubmittedEvent {
+  export type InputTuple = [
+    contributor: AddressLike,
+    batchId: BigNumberish,
+    encryptedAmount: BytesLike
+  ];
+  export type OutputTuple = [
+    contributor: string,
+    batchId: bigint,
+    encryptedAmount: string
+  ];
+  export interface OutputObject {
+    contributor: string;
+    batchId: bigint;
+    encryptedAmount: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSecondsUpdatedEvent {
+  export type InputTuple = [
+    oldCooldownSeconds: BigNumberish,
+    newCooldownSeconds: BigNumberish
+  ];
+  export type OutputTuple = [
+    oldCooldownSeconds: bigint,
+    newCooldownSeconds: bigint
+  ];
+  export interface OutputObject {
+    oldCooldownSeconds: bigint;
+    newCooldownSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    totalContributions: BigNumberish,
+    totalUsage: BigNumberish,
+    overflowed: boolean
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    totalContributions: bigint,
+    totalUsage: bigint,
+    overflowed: boolean
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    totalContributions: bigint;
+    totalUsage: bigint;
+    overflowed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, batchId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionSupersededEvent {
+  export type InputTuple = [
+    previousRequestId: BigNumberish,
+    requestId: BigNumberish,
+    batchId: BigNumberish
+  ];
+  export type OutputTuple = [
+    previousRequestId: bigint,
+    requestId: bigint,
+    batchId: bigint
+  ];
+  export interface OutputObject {
+    previousRequestId: bigint;
+    requestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionTimeoutUpdatedEvent {
+  export type InputTuple = [
+    oldDecryptionTimeout: BigNumberish,
+    newDecryptionTimeout: BigNumberish
+  ];
+  export type OutputTuple = [
+    oldDecryptionTimeout: bigint,
+    newDecryptionTimeout: bigint
+  ];
+  export interface OutputObject {
+    oldDecryptionTimeout: bigint;
+    newDecryptionTimeout: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DeviceRegistryUpdatedEvent {
+  export type InputTuple = [oldRegistry: AddressLike, newRegistry: AddressLike];
+  export type OutputTuple = [oldRegistry: string, newRegistry: string];
+  export interface OutputObject {
+    oldRegistry: string;
+    newRegistry: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DeviceUsageReportedEvent {
+  export type InputTuple = [
+    provider: AddressLike,
+    batchId: BigNumberish,
+    device: AddressLike,
+    encryptedUsage: BytesLike
+  ];
+  export type OutputTuple = [
+    provider: string,
+    batchId: bigint,
+    device: string,
+    encryptedUsage: string
+  ];
+  export interface OutputObject {
+    provider: string;
+    batchId: bigint;
+    device: string;
+    encryptedUsage: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FundingCheckCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    goalMet: boolean
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    goalMet: boolean
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    goalMet: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FundingCheckRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, batchId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, batchId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FundsReleasedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    projectId: BigNumberish,
+    treasury: AddressLike,
+    encryptedAmount: BytesLike
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    projectId: bigint,
+    treasury: string,
+    encryptedAmount: string
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    projectId: bigint;
+    treasury: string;
+    encryptedAmount: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferStartedEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProjectCreatedEvent {
+  export type InputTuple = [
+    projectId: BigNumberish,
+    creator: AddressLike,
+    treasury: AddressLike,
+    title: string,
+    category: string,
+    metadataHash: BytesLike
+  ];
+  export type OutputTuple = [
+    projectId: bigint,
+    creator: string,
+    treasury: string,
+    title: string,
+    category: string,
+    metadataHash: string
+  ];
+  export interface OutputObject {
+    projectId: bigint;
+    creator: string;
+    treasury: string;
+    title: string;
+    category: string;
+    metadataHash: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderStakingUpdatedEvent {
+  export type InputTuple = [oldStaking: AddressLike, newStaking: AddressLike];
+  export type OutputTuple = [oldStaking: string, newStaking: string];
+  export interface OutputObject {
+    oldStaking: string;
+    newStaking: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RefundClaimedEvent {
+  export type InputTuple = [
+    contributor: AddressLike,
+    batchId: BigNumberish,
+    encryptedAmount: BytesLike
+  ];
+  export type OutputTuple = [
+    contributor: string,
+    batchId: bigint,
+    encryptedAmount: string
+  ];
+  export interface OutputObject {
+    contributor: string;
+    batchId: bigint;
+    encryptedAmount: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RevenueDistributorUpdatedEvent {
+  export type InputTuple = [
+    oldDistributor: AddressLike,
+    newDistributor: AddressLike
+  ];
+  export type OutputTuple = [oldDistributor: string, newDistributor: string];
+  export interface OutputObject {
+    oldDistributor: string;
+    newDistributor: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SummaryWithheldEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    contributorCount: BigNumberish,
+    providerCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    contributorCount: bigint,
+    providerCount: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    contributorCount: bigint;
+    providerCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UsageAccessGrantedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    provider: AddressLike,
+    grantee: AddressLike
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    provider: string,
+    grantee: string
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    provider: string;
+    grantee: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UsageReportedEvent {
+  export type InputTuple = [
+    provider: AddressLike,
+    batchId: BigNumberish,
+    encryptedUsage: BytesLike
+  ];
+  export type OutputTuple = [
+    provider: string,
+    batchId: bigint,
+    encryptedUsage: string
+  ];
+  export interface OutputObject {
+    provider: string;
+    batchId: bigint;
+    encryptedUsage: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ReFiInfraDAOFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): ReFiInfraDAOFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: ReFiInfraDAOFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  AUDITOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  BATCH_MANAGER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  MAX_READINGS_PER_REPORT: TypedContractMethod<[], [bigint], "view">;
+
+  PAUSER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  PROVIDER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  VOTER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  acceptOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  addProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  batchCount: TypedContractMethod<[], [bigint], "view">;
+
+  cancelBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  claimRefund: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  closeBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  contributionOf: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+
+  contributionToken: TypedContractMethod<[], [string], "view">;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  createProject: TypedContractMethod<
+    [
+      treasury: AddressLike,
+      title: string,
+      category: string,
+      metadataHash: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  decryptionTimeout: TypedContractMethod<[], [bigint], "view">;
+
+  deviceRegistry: TypedContractMethod<[], [string], "view">;
+
+  finalize: TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+
+  fundingCheckCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  fundingCheckContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [ReFiInfraDAOFHE.BatchStructOutput],
+    "view"
+  >;
+
+  getBatchSummary: TypedContractMethod<
+    [batchId: BigNumberish],
+    [ReFiInfraDAOFHE.BatchSummaryStructOutput],
+    "view"
+  >;
+
+  getContributionHistory: TypedContractMethod<
+    [contributor: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getProject: TypedContractMethod<
+    [projectId: BigNumberish],
+    [ReFiInfraDAOFHE.ProjectStructOutput],
+    "view"
+  >;
+
+  getProjectBatches: TypedContractMethod<
+    [projectId: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  getRoleMemberCount: TypedContractMethod<[role: BytesLike], [bigint], "view">;
+
+  getRoleMembers: TypedContractMethod<[role: BytesLike], [string[]], "view">;
+
+  getUsageBreakdown: TypedContractMethod<
+    [batchId: BigNumberish],
+    [[string[], string[]] & { providers: string[]; usage: string[] }],
+    "view"
+  >;
+
+  grantContributionAccess: TypedContractMethod<
+    [batchId: BigNumberish, contributor: AddressLike],
+    [string],
+    "nonpayable"
+  >;
+
+  grantRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  grantUsageAccess: TypedContractMethod<
+    [batchId: BigNumberish, provider: AddressLike],
+    [string],
+    "nonpayable"
+  >;
+
+  hasReportedUsage: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  hasRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isAcceptingContributions: TypedContractMethod<
+    [batchId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  isProvider: TypedContractMethod<[account: AddressLike], [boolean], "view">;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  listBatches: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [ReFiInfraDAOFHE.BatchStructOutput[]],
+    "view"
+  >;
+
+  listProjects: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [ReFiInfraDAOFHE.ProjectStructOutput[]],
+    "view"
+  >;
+
+  minContributorsForSummary: TypedContractMethod<[], [bigint], "view">;
+
+  minProvidersForSummary: TypedContractMethod<[], [bigint], "view">;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  openBatch: TypedContractMethod<
+    [
+      projectId: BigNumberish,
+      startTime: BigNumberish,
+      endTime: BigNumberish,
+      encryptedTarget: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  pendingOwner: TypedContractMethod<[], [string], "view">;
+
+  projectCount: TypedContractMethod<[], [bigint], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  providerStaking: TypedContractMethod<[], [string], "view">;
+
+  releaseFunds: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  removeProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  reportDeviceUsage: TypedContractMethod<
+    [
+      provider: AddressLike,
+      batchId: BigNumberish,
+      encryptedUsage: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  reportUsage: TypedContractMethod<
+    [batchId: BigNumberish, encryptedUsage: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  reportUsageBatch: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      devices: AddressLike[],
+      encryptedReadings: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  requestBatchSummaryDecryption: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestFundingCheck: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revenueDistributor: TypedContractMethod<[], [string], "view">;
+
+  revokeRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setAnonymityThresholds: TypedContractMethod<
+    [minContributors: BigNumberish, minProviders: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setBatchNoise: TypedContractMethod<
+    [batchId: BigNumberish, noiseBound: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setCooldownSeconds: TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setDecryptionTimeout: TypedContractMethod<
+    [newDecryptionTimeout: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setDeviceRegistry: TypedContractMethod<
+    [newRegistry: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setProviderStaking: TypedContractMethod<
+    [newStaking: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setRevenueDistributor: TypedContractMethod<
+    [newDistributor: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  submitContribution: TypedContractMethod<
+    [batchId: BigNumberish, encryptedAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  usageOf: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "AUDITOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "BATCH_MANAGER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "MAX_READINGS_PER_REPORT"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PAUSER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "PROVIDER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "VOTER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "acceptOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "batchCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "cancelBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimRefund"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "contributionOf"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "contributionToken"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createProject"
+  ): TypedContractMethod<
+    [
+      treasury: AddressLike,
+      title: string,
+      category: string,
+      metadataHash: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "decryptionTimeout"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "deviceRegistry"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "finalize"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "fundingCheckCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "fundingCheckContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        batchId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBatch"
+  ): TypedContractMethod<
+    [batchId: BigNumberish],
+    [ReFiInfraDAOFHE.BatchStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBatchSummary"
+  ): TypedContractMethod<
+    [batchId: BigNumberish],
+    [ReFiInfraDAOFHE.BatchSummaryStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getContributionHistory"
+  ): TypedContractMethod<[contributor: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getProject"
+  ): TypedContractMethod<
+    [projectId: BigNumberish],
+    [ReFiInfraDAOFHE.ProjectStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getProjectBatches"
+  ): TypedContractMethod<[projectId: BigNumberish], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getRoleMemberCount"
+  ): TypedContractMethod<[role: BytesLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getRoleMembers"
+  ): TypedContractMethod<[role: BytesLike], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getUsageBreakdown"
+  ): TypedContractMethod<
+    [batchId: BigNumberish],
+    [[string[], string[]] & { providers: string[]; usage: string[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "grantContributionAccess"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, contributor: AddressLike],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "grantUsageAccess"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, provider: AddressLike],
+    [string],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasReportedUsage"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isAcceptingContributions"
+  ): TypedContractMethod<[batchId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isProvider"
+  ): TypedContractMethod<[account: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "listBatches"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [ReFiInfraDAOFHE.BatchStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "listProjects"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [ReFiInfraDAOFHE.ProjectStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "minContributorsForSummary"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "minProvidersForSummary"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "openBatch"
+  ): TypedContractMethod<
+    [
+      projectId: BigNumberish,
+      startTime: BigNumberish,
+      endTime: BigNumberish,
+      encryptedTarget: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "pendingOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "projectCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "providerStaking"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "releaseFunds"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "removeProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "reportDeviceUsage"
+  ): TypedContractMethod<
+    [
+      provider: AddressLike,
+      batchId: BigNumberish,
+      encryptedUsage: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "reportUsage"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, encryptedUsage: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "reportUsageBatch"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      devices: AddressLike[],
+      encryptedReadings: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestBatchSummaryDecryption"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestFundingCheck"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revenueDistributor"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setAnonymityThresholds"
+  ): TypedContractMethod<
+    [minContributors: BigNumberish, minProviders: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setBatchNoise"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, noiseBound: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setCooldownSeconds"
+  ): TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setDecryptionTimeout"
+  ): TypedContractMethod<
+    [newDecryptionTimeout: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setDeviceRegistry"
+  ): TypedContractMethod<[newRegistry: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setProviderStaking"
+  ): TypedContractMethod<[newStaking: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setRevenueDistributor"
+  ): TypedContractMethod<[newDistributor: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "submitContribution"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, encryptedAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "usageOf"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+
+  getEvent(
+    key: "AnonymityThresholdsUpdated"
+  ): TypedContractEvent<
+    AnonymityThresholdsUpdatedEvent.InputTuple,
+    AnonymityThresholdsUpdatedEvent.OutputTuple,
+    AnonymityThresholdsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchCancelled"
+  ): TypedContractEvent<
+    BatchCancelledEvent.InputTuple,
+    BatchCancelledEvent.OutputTuple,
+    BatchCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchNoiseConfigured"
+  ): TypedContractEvent<
+    BatchNoiseConfiguredEvent.InputTuple,
+    BatchNoiseConfiguredEvent.OutputTuple,
+    BatchNoiseConfiguredEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ContributionSubmitted"
+  ): TypedContractEvent<
+    ContributionSubmittedEvent.InputTuple,
+    ContributionSubmittedEvent.OutputTuple,
+    ContributionSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSecondsUpdated"
+  ): TypedContractEvent<
+    CooldownSecondsUpdatedEvent.InputTuple,
+    CooldownSecondsUpdatedEvent.OutputTuple,
+    CooldownSecondsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionSuperseded"
+  ): TypedContractEvent<
+    DecryptionSupersededEvent.InputTuple,
+    DecryptionSupersededEvent.OutputTuple,
+    DecryptionSupersededEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionTimeoutUpdated"
+  ): TypedContractEvent<
+    DecryptionTimeoutUpdatedEvent.InputTuple,
+    DecryptionTimeoutUpdatedEvent.OutputTuple,
+    DecryptionTimeoutUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DeviceRegistryUpdated"
+  ): TypedContractEvent<
+    DeviceRegistryUpdatedEvent.InputTuple,
+    DeviceRegistryUpdatedEvent.OutputTuple,
+    DeviceRegistryUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DeviceUsageReported"
+  ): TypedContractEvent<
+    DeviceUsageReportedEvent.InputTuple,
+    DeviceUsageReportedEvent.OutputTuple,
+    DeviceUsageReportedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FundingCheckCompleted"
+  ): TypedContractEvent<
+    FundingCheckCompletedEvent.InputTuple,
+    FundingCheckCompletedEvent.OutputTuple,
+    FundingCheckCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FundingCheckRequested"
+  ): TypedContractEvent<
+    FundingCheckRequestedEvent.InputTuple,
+    FundingCheckRequestedEvent.OutputTuple,
+    FundingCheckRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FundsReleased"
+  ): TypedContractEvent<
+    FundsReleasedEvent.InputTuple,
+    FundsReleasedEvent.OutputTuple,
+    FundsReleasedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferStarted"
+  ): TypedContractEvent<
+    OwnershipTransferStartedEvent.InputTuple,
+    OwnershipTransferStartedEvent.OutputTuple,
+    OwnershipTransferStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProjectCreated"
+  ): TypedContractEvent<
+    ProjectCreatedEvent.InputTuple,
+    ProjectCreatedEvent.OutputTuple,
+    ProjectCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderStakingUpdated"
+  ): TypedContractEvent<
+    ProviderStakingUpdatedEvent.InputTuple,
+    ProviderStakingUpdatedEvent.OutputTuple,
+    ProviderStakingUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RefundClaimed"
+  ): TypedContractEvent<
+    RefundClaimedEvent.InputTuple,
+    RefundClaimedEvent.OutputTuple,
+    RefundClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RevenueDistributorUpdated"
+  ): TypedContractEvent<
+    RevenueDistributorUpdatedEvent.InputTuple,
+    RevenueDistributorUpdatedEvent.OutputTuple,
+    RevenueDistributorUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SummaryWithheld"
+  ): TypedContractEvent<
+    SummaryWithheldEvent.InputTuple,
+    SummaryWithheldEvent.OutputTuple,
+    SummaryWithheldEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "UsageAccessGranted"
+  ): TypedContractEvent<
+    UsageAccessGrantedEvent.InputTuple,
+    UsageAccessGrantedEvent.OutputTuple,
+    UsageAccessGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "UsageReported"
+  ): TypedContractEvent<
+    UsageReportedEvent.InputTuple,
+    UsageReportedEvent.OutputTuple,
+    UsageReportedEvent.OutputObject
+  >;
+
+  filters: {
+    "AnonymityThresholdsUpdated(uint256,uint256)": TypedContractEvent<
+      AnonymityThresholdsUpdatedEvent.InputTuple,
+      AnonymityThresholdsUpdatedEvent.OutputTuple,
+      AnonymityThresholdsUpdatedEvent.OutputObject
+    >;
+    AnonymityThresholdsUpdated: TypedContractEvent<
+      AnonymityThresholdsUpdatedEvent.InputTuple,
+      AnonymityThresholdsUpdatedEvent.OutputTuple,
+      AnonymityThresholdsUpdatedEvent.OutputObject
+    >;
+
+    "BatchCancelled(uint256)": TypedContractEvent<
+      BatchCancelledEvent.InputTuple,
+      BatchCancelledEvent.OutputTuple,
+      BatchCancelledEvent.OutputObject
+    >;
+    BatchCancelled: TypedContractEvent<
+      BatchCancelledEvent.InputTuple,
+      BatchCancelledEvent.OutputTuple,
+      BatchCancelledEvent.OutputObject
+    >;
+
+    "BatchClosed(uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchNoiseConfigured(uint256,uint64)": TypedContractEvent<
+      BatchNoiseConfiguredEvent.InputTuple,
+      BatchNoiseConfiguredEvent.OutputTuple,
+      BatchNoiseConfiguredEvent.OutputObject
+    >;
+    BatchNoiseConfigured: TypedContractEvent<
+      BatchNoiseConfiguredEvent.InputTuple,
+      BatchNoiseConfiguredEvent.OutputTuple,
+      BatchNoiseConfiguredEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256,uint256,uint256,uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "ContributionSubmitted(address,uint256,bytes32)": TypedContractEvent<
+      ContributionSubmittedEvent.InputTuple,
+      ContributionSubmittedEvent.OutputTuple,
+      ContributionSubmittedEvent.OutputObject
+    >;
+    ContributionSubmitted: TypedContractEvent<
+      ContributionSubmittedEvent.InputTuple,
+      ContributionSubmittedEvent.OutputTuple,
+      ContributionSubmittedEvent.OutputObject
+    >;
+
+    "CooldownSecondsUpdated(uint256,uint256)": TypedContractEvent<
+      CooldownSecondsUpdatedEvent.InputTuple,
+      CooldownSecondsUpdatedEvent.OutputTuple,
+      CooldownSecondsUpdatedEvent.OutputObject
+    >;
+    CooldownSecondsUpdated: TypedContractEvent<
+      CooldownSecondsUpdatedEvent.InputTuple,
+      CooldownSecondsUpdatedEvent.OutputTuple,
+      CooldownSecondsUpdatedEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,uint256,uint256,bool)": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "DecryptionSuperseded(uint256,uint256,uint256)": TypedContractEvent<
+      DecryptionSupersededEvent.InputTuple,
+      DecryptionSupersededEvent.OutputTuple,
+      DecryptionSupersededEvent.OutputObject
+    >;
+    DecryptionSuperseded: TypedContractEvent<
+      DecryptionSupersededEvent.InputTuple,
+      DecryptionSupersededEvent.OutputTuple,
+      DecryptionSupersededEvent.OutputObject
+    >;
+
+    "DecryptionTimeoutUpdated(uint256,uint256)": TypedContractEvent<
+      DecryptionTimeoutUpdatedEvent.InputTuple,
+      DecryptionTimeoutUpdatedEvent.OutputTuple,
+      DecryptionTimeoutUpdatedEvent.OutputObject
+    >;
+    DecryptionTimeoutUpdated: TypedContractEvent<
+      DecryptionTimeoutUpdatedEvent.InputTuple,
+      DecryptionTimeoutUpdatedEvent.OutputTuple,
+      DecryptionTimeoutUpdatedEvent.OutputObject
+    >;
+
+    "DeviceRegistryUpdated(address,address)": TypedContractEvent<
+      DeviceRegistryUpdatedEvent.InputTuple,
+      DeviceRegistryUpdatedEvent.OutputTuple,
+      DeviceRegistryUpdatedEvent.OutputObject
+    >;
+    DeviceRegistryUpdated: TypedContractEvent<
+      DeviceRegistryUpdatedEvent.InputTuple,
+      DeviceRegistryUpdatedEvent.OutputTuple,
+      DeviceRegistryUpdatedEvent.OutputObject
+    >;
+
+    "DeviceUsageReported(address,uint256,address,bytes32)": TypedContractEvent<
+      DeviceUsageReportedEvent.InputTuple,
+      DeviceUsageReportedEvent.OutputTuple,
+      DeviceUsageReportedEvent.OutputObject
+    >;
+    DeviceUsageReported: TypedContractEvent<
+      DeviceUsageReportedEvent.InputTuple,
+      DeviceUsageReportedEvent.OutputTuple,
+      DeviceUsageReportedEvent.OutputObject
+    >;
+
+    "FundingCheckCompleted(uint256,uint256,bool)": TypedContractEvent<
+      FundingCheckCompletedEvent.InputTuple,
+      FundingCheckCompletedEvent.OutputTuple,
+      FundingCheckCompletedEvent.OutputObject
+    >;
+    FundingCheckCompleted: TypedContractEvent<
+      FundingCheckCompletedEvent.InputTuple,
+      FundingCheckCompletedEvent.OutputTuple,
+      FundingCheckCompletedEvent.OutputObject
+    >;
+
+    "FundingCheckRequested(uint256,uint256)": TypedContractEvent<
+      FundingCheckRequestedEvent.InputTuple,
+      FundingCheckRequestedEvent.OutputTuple,
+      FundingCheckRequestedEvent.OutputObject
+    >;
+    FundingCheckRequested: TypedContractEvent<
+      FundingCheckRequestedEvent.InputTuple,
+      FundingCheckRequestedEvent.OutputTuple,
+      FundingCheckRequestedEvent.OutputObject
+    >;
+
+    "FundsReleased(uint256,uint256,address,bytes32)": TypedContractEvent<
+      FundsReleasedEvent.InputTuple,
+      FundsReleasedEvent.OutputTuple,
+      FundsReleasedEvent.OutputObject
+    >;
+    FundsReleased: TypedContractEvent<
+      FundsReleasedEvent.InputTuple,
+      FundsReleasedEvent.OutputTuple,
+      FundsReleasedEvent.OutputObject
+    >;
+
+    "OwnershipTransferStarted(address,address)": TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+    OwnershipTransferStarted: TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "ProjectCreated(uint256,address,address,string,string,bytes32)": TypedContractEvent<
+      ProjectCreatedEvent.InputTuple,
+      ProjectCreatedEvent.OutputTuple,
+      ProjectCreatedEvent.OutputObject
+    >;
+    ProjectCreated: TypedContractEvent<
+      ProjectCreatedEvent.InputTuple,
+      ProjectCreatedEvent.OutputTuple,
+      ProjectCreatedEvent.OutputObject
+    >;
+
+    "ProviderAdded(address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderRemoved(address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+
+    "ProviderStakingUpdated(address,address)": TypedContractEvent<
+      ProviderStakingUpdatedEvent.InputTuple,
+      ProviderStakingUpdatedEvent.OutputTuple,
+      ProviderStakingUpdatedEvent.OutputObject
+    >;
+    ProviderStakingUpdated: TypedContractEvent<
+      ProviderStakingUpdatedEvent.InputTuple,
+      ProviderStakingUpdatedEvent.OutputTuple,
+      ProviderStakingUpdatedEvent.OutputObject
+    >;
+
+    "RefundClaimed(address,uint256,bytes32)": TypedContractEvent<
+      RefundClaimedEvent.InputTuple,
+      RefundClaimedEvent.OutputTuple,
+      RefundClaimedEvent.OutputObject
+    >;
+    RefundClaimed: TypedContractEvent<
+      RefundClaimedEvent.InputTuple,
+      RefundClaimedEvent.OutputTuple,
+      RefundClaimedEvent.OutputObject
+    >;
+
+    "RevenueDistributorUpdated(address,address)": TypedContractEvent<
+      RevenueDistributorUpdatedEvent.InputTuple,
+      RevenueDistributorUpdatedEvent.OutputTuple,
+      RevenueDistributorUpdatedEvent.OutputObject
+    >;
+    RevenueDistributorUpdated: TypedContractEvent<
+      RevenueDistributorUpdatedEvent.InputTuple,
+      RevenueDistributorUpdatedEvent.OutputTuple,
+      RevenueDistributorUpdatedEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "SummaryWithheld(uint256,uint256,uint256)": TypedContractEvent<
+      SummaryWithheldEvent.InputTuple,
+      SummaryWithheldEvent.OutputTuple,
+      SummaryWithheldEvent.OutputObject
+    >;
+    SummaryWithheld: TypedContractEvent<
+      SummaryWithheldEvent.InputTuple,
+      SummaryWithheldEvent.OutputTuple,
+      SummaryWithheldEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+
+    "UsageAccessGranted(uint256,address,address)": TypedContractEvent<
+      UsageAccessGrantedEvent.InputTuple,
+      UsageAccessGrantedEvent.OutputTuple,
+      UsageAccessGrantedEvent.OutputObject
+    >;
+    UsageAccessGranted: TypedContractEvent<
+      UsageAccessGrantedEvent.InputTuple,
+      UsageAccessGrantedEvent.OutputTuple,
+      UsageAccessGrantedEvent.OutputObject
+    >;
+
+    "UsageReported(address,uint256,bytes32)": TypedContractEvent<
+      UsageReportedEvent.InputTuple,
+      UsageReportedEvent.OutputTuple,
+      UsageReportedEvent.OutputObject
+    >;
+    UsageReported: TypedContractEvent<
+      UsageReportedEvent.InputTuple,
+      UsageReportedEvent.OutputTuple,
+      UsageReportedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,448 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface ReFiInfraDeviceRegistryFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "USAGE_REPORT_TYPEHASH"
+      | "dao"
+      | "deregisterDevice"
+      | "eip712Domain"
+      | "getProviderDevices"
+      | "nonces"
+      | "providerOf"
+      | "registerDevice"
+      | "relayUsage"
+      | "usageReportDigest"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "DeviceDeregistered"
+      | "DeviceRegistered"
+      | "DeviceUsageRelayed"
+      | "EIP712DomainChanged"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "USAGE_REPORT_TYPEHASH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "dao", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "deregisterDevice",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "eip712Domain",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getProviderDevices",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "nonces", values: [AddressLike]): string;
+  encodeFunctionData(
+    functionFragment: "providerOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "registerDevice",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "relayUsage",
+    values: [
+      AddressLike,
+      BigNumberish,
+      BytesLike,
+      BytesLike,
+      BigNumberish,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "usageReportDigest",
+    values: [
+      AddressLike,
+      BigNumberish,
+      BytesLike,
+      BytesLike,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "USAGE_REPORT_TYPEHASH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "dao", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "deregisterDevice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "eip712Domain",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getProviderDevices",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "nonces", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "providerOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "registerDevice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "relayUsage", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "usageReportDigest",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace DeviceDeregisteredEvent {
+  export type InputTuple = [device: AddressLike, provider: AddressLike];
+  export type OutputTuple = [device: string, provider: string];
+  export interface OutputObject {
+    device: string;
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DeviceRegisteredEvent {
+  export type InputTuple = [device: AddressLike, provider: AddressLike];
+  export type OutputTuple = [device: string, provider: string];
+  export interface OutputObject {
+    device: string;
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DeviceUsageRelayedEvent {
+  export type InputTuple = [
+    device: AddressLike,
+    provider: AddressLike,
+    batchId: BigNumberish,
+    nonce: BigNumberish,
+    relayer: AddressLike
+  ];
+  export type OutputTuple = [
+    device: string,
+    provider: string,
+    batchId: bigint,
+    nonce: bigint,
+    relayer: string
+  ];
+  export interface OutputObject {
+    device: string;
+    provider: string;
+    batchId: bigint;
+    nonce: bigint;
+    relayer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EIP712DomainChangedEvent {
+  export type InputTuple = [];
+  export type OutputTuple = [];
+  export interface OutputObject {}
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ReFiInfraDeviceRegistryFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): ReFiInfraDeviceRegistryFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: ReFiInfraDeviceRegistryFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  USAGE_REPORT_TYPEHASH: TypedContractMethod<[], [string], "view">;
+
+  dao: TypedContractMethod<[], [string], "view">;
+
+  deregisterDevice: TypedContractMethod<
+    [device: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  eip712Domain: TypedContractMethod<
+    [],
+    [
+      [string, string, string, bigint, string, string, bigint[]] & {
+        fields: string;
+        name: string;
+        version: string;
+        chainId: bigint;
+        verifyingContract: string;
+        salt: string;
+        extensions: bigint[];
+      }
+    ],
+    "view"
+  >;
+
+  getProviderDevices: TypedContractMethod<
+    [provider: AddressLike],
+    [string[]],
+    "view"
+  >;
+
+  nonces: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  providerOf: TypedContractMethod<[arg0: AddressLike], [string], "view">;
+
+  registerDevice: TypedContractMethod<
+    [device: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  relayUsage: TypedContractMethod<
+    [
+      device: AddressLike,
+      batchId: BigNumberish,
+      encryptedUsage: BytesLike,
+      inputProof: BytesLike,
+      deadline: BigNumberish,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  usageReportDigest: TypedContractMethod<
+    [
+      device: AddressLike,
+      batchId: BigNumberish,
+      encryptedUsage: BytesLike,
+      inputProof: BytesLike,
+      nonce: BigNumberish,
+      deadline: BigNumberish
+    ],
+    [string],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "USAGE_REPORT_TYPEHASH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "dao"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "deregisterDevice"
+  ): TypedContractMethod<[device: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "eip712Domain"
+  ): TypedContractMethod<
+    [],
+    [
+      [string, string, string, bigint, string, string, bigint[]] & {
+        fields: string;
+        name: string;
+        version: string;
+        chainId: bigint;
+        verifyingContract: string;
+        salt: string;
+        extensions: bigint[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getProviderDevices"
+  ): TypedContractMethod<[provider: AddressLike], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "nonces"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "providerOf"
+  ): TypedContractMethod<[arg0: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "registerDevice"
+  ): TypedContractMethod<[device: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "relayUsage"
+  ): TypedContractMethod<
+    [
+      device: AddressLike,
+      batchId: BigNumberish,
+      encryptedUsage: BytesLike,
+      inputProof: BytesLike,
+      deadline: BigNumberish,
+      signature: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "usageReportDigest"
+  ): TypedContractMethod<
+    [
+      device: AddressLike,
+      batchId: BigNumberish,
+      encryptedUsage: BytesLike,
+      inputProof: BytesLike,
+      nonce: BigNumberish,
+      deadline: BigNumberish
+    ],
+    [string],
+    "view"
+  >;
+
+  getEvent(
+    key: "DeviceDeregistered"
+  ): TypedContractEvent<
+    DeviceDeregisteredEvent.InputTuple,
+    DeviceDeregisteredEvent.OutputTuple,
+    DeviceDeregisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "DeviceRegistered"
+  ): TypedContractEvent<
+    DeviceRegisteredEvent.InputTuple,
+    DeviceRegisteredEvent.OutputTuple,
+    DeviceRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "DeviceUsageRelayed"
+  ): TypedContractEvent<
+    DeviceUsageRelayedEvent.InputTuple,
+    DeviceUsageRelayedEvent.OutputTuple,
+    DeviceUsageRelayedEvent.OutputObject
+  >;
+  getEvent(
+    key: "EIP712DomainChanged"
+  ): TypedContractEvent<
+    EIP712DomainChangedEvent.InputTuple,
+    EIP712DomainChangedEvent.OutputTuple,
+    EIP712DomainChangedEvent.OutputObject
+  >;
+
+  filters: {
+    "DeviceDeregistered(address,address)": TypedContractEvent<
+      DeviceDeregisteredEvent.InputTuple,
+      DeviceDeregisteredEvent.OutputTuple,
+      DeviceDeregisteredEvent.OutputObject
+    >;
+    DeviceDeregistered: TypedContractEvent<
+      DeviceDeregisteredEvent.InputTuple,
+      DeviceDeregisteredEvent.OutputTuple,
+      DeviceDeregisteredEvent.OutputObject
+    >;
+
+    "DeviceRegistered(address,address)": TypedContractEvent<
+      DeviceRegisteredEvent.InputTuple,
+      DeviceRegisteredEvent.OutputTuple,
+      DeviceRegisteredEvent.OutputObject
+    >;
+    DeviceRegistered: TypedContractEvent<
+      DeviceRegisteredEvent.InputTuple,
+      DeviceRegisteredEvent.OutputTuple,
+      DeviceRegisteredEvent.OutputObject
+    >;
+
+    "DeviceUsageRelayed(address,address,uint256,uint256,address)": TypedContractEvent<
+      DeviceUsageRelayedEvent.InputTuple,
+      DeviceUsageRelayedEvent.OutputTuple,
+      DeviceUsageRelayedEvent.OutputObject
+    >;
+    DeviceUsageRelayed: TypedContractEvent<
+      DeviceUsageRelayedEvent.InputTuple,
+      DeviceUsageRelayedEvent.OutputTuple,
+      DeviceUsageRelayedEvent.OutputObject
+    >;
+
+    "EIP712DomainChanged()": TypedContractEvent<
+      EIP712DomainChangedEvent.InputTuple,
+      EIP712DomainChangedEvent.OutputTuple,
+      EIP712DomainChangedEvent.OutputObject
+    >;
+    EIP712DomainChanged: TypedContractEvent<
+      EIP712DomainChangedEvent.InputTuple,
+      EIP712DomainChangedEvent.OutputTuple,
+      EIP712DomainChangedEvent.OutputObject
+    >;
+  };
+}
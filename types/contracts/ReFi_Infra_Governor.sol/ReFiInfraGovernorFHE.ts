@@ -0,0 +1,972 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface ReFiInfraGovernorFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "TIMELOCK_GRACE_PERIOD"
+      | "VOTE_ABSTAIN"
+      | "VOTE_NO"
+      | "VOTE_YES"
+      | "acceptDAOOwnership"
+      | "cancelOperation"
+      | "cancelOperationByVote"
+      | "cancelQuorum"
+      | "castVote"
+      | "createChallengeProposal"
+      | "createProposal"
+      | "dao"
+      | "executeOperation"
+      | "hasVoted"
+      | "isCancellationPending"
+      | "isProposalAccepted"
+      | "isProposalRejected"
+      | "operationCount"
+      | "proposalCount"
+      | "proposals"
+      | "proposeCancellation"
+      | "protocolId"
+      | "queueOperation"
+      | "requestTallyDecryption"
+      | "tallyCallback"
+      | "tallyContexts"
+      | "timelockDelay"
+      | "timelockOperations"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "DecryptionFulfilled"
+      | "OperationCancelled"
+      | "OperationExecuted"
+      | "OperationQueued"
+      | "ProposalCreated"
+      | "ProposalTallied"
+      | "TallyDecryptionRequested"
+      | "VoteCast"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "TIMELOCK_GRACE_PERIOD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "VOTE_ABSTAIN",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "VOTE_NO", values?: undefined): string;
+  encodeFunctionData(functionFragment: "VOTE_YES", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "acceptDAOOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelOperation",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelOperationByVote",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelQuorum",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "castVote",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createChallengeProposal",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createProposal",
+    values: [string, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "dao", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "executeOperation",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasVoted",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isCancellationPending",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProposalAccepted",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProposalRejected",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "operationCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposalCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposals",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "proposeCancellation",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "queueOperation",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestTallyDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tallyCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tallyContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "timelockDelay",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "timelockOperations",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "TIMELOCK_GRACE_PERIOD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "VOTE_ABSTAIN",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "VOTE_NO", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "VOTE_YES", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptDAOOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelOperation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelOperationByVote",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelQuorum",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "castVote", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "createChallengeProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createProposal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "dao", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "executeOperation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasVoted", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isCancellationPending",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isProposalAccepted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isProposalRejected",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "operationCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "proposalCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "proposals", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "proposeCancellation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "queueOperation",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestTallyDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tallyCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tallyContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "timelockDelay",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "timelockOperations",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OperationCancelledEvent {
+  export type InputTuple = [operationId: BigNumberish, canceller: AddressLike];
+  export type OutputTuple = [operationId: bigint, canceller: string];
+  export interface OutputObject {
+    operationId: bigint;
+    canceller: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OperationExecutedEvent {
+  export type InputTuple = [operationId: BigNumberish, executor: AddressLike];
+  export type OutputTuple = [operationId: bigint, executor: string];
+  export interface OutputObject {
+    operationId: bigint;
+    executor: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OperationQueuedEvent {
+  export type InputTuple = [
+    operationId: BigNumberish,
+    selector: BytesLike,
+    proposer: AddressLike,
+    data: BytesLike,
+    eta: BigNumberish
+  ];
+  export type OutputTuple = [
+    operationId: bigint,
+    selector: string,
+    proposer: string,
+    data: string,
+    eta: bigint
+  ];
+  export interface OutputObject {
+    operationId: bigint;
+    selector: string;
+    proposer: string;
+    data: string;
+    eta: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProposalCreatedEvent {
+  export type InputTuple = [
+    proposalId: BigNumberish,
+    proposer: AddressLike,
+    operationId: BigNumberish,
+    startTime: BigNumberish,
+    endTime: BigNumberish,
+    quorum: BigNumberish
+  ];
+  export type OutputTuple = [
+    proposalId: bigint,
+    proposer: string,
+    operationId: bigint,
+    startTime: bigint,
+    endTime: bigint,
+    quorum: bigint
+  ];
+  export interface OutputObject {
+    proposalId: bigint;
+    proposer: string;
+    operationId: bigint;
+    startTime: bigint;
+    endTime: bigint;
+    quorum: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProposalTalliedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    proposalId: BigNumberish,
+    yesVotes: BigNumberish,
+    noVotes: BigNumberish,
+    abstainVotes: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    proposalId: bigint,
+    yesVotes: bigint,
+    noVotes: bigint,
+    abstainVotes: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    proposalId: bigint;
+    yesVotes: bigint;
+    noVotes: bigint;
+    abstainVotes: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TallyDecryptionRequestedEvent {
+  export type InputTuple = [requestId: BigNumberish, proposalId: BigNumberish];
+  export type OutputTuple = [requestId: bigint, proposalId: bigint];
+  export interface OutputObject {
+    requestId: bigint;
+    proposalId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VoteCastEvent {
+  export type InputTuple = [
+    proposalId: BigNumberish,
+    voter: AddressLike,
+    encryptedChoice: BytesLike
+  ];
+  export type OutputTuple = [
+    proposalId: bigint,
+    voter: string,
+    encryptedChoice: string
+  ];
+  export interface OutputObject {
+    proposalId: bigint;
+    voter: string;
+    encryptedChoice: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ReFiInfraGovernorFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): ReFiInfraGovernorFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: ReFiInfraGovernorFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  TIMELOCK_GRACE_PERIOD: TypedContractMethod<[], [bigint], "view">;
+
+  VOTE_ABSTAIN: TypedContractMethod<[], [bigint], "view">;
+
+  VOTE_NO: TypedContractMethod<[], [bigint], "view">;
+
+  VOTE_YES: TypedContractMethod<[], [bigint], "view">;
+
+  acceptDAOOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  cancelOperation: TypedContractMethod<
+    [operationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cancelOperationByVote: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cancelQuorum: TypedContractMethod<[], [bigint], "view">;
+
+  castVote: TypedContractMethod<
+    [
+      proposalId: BigNumberish,
+      encryptedChoice: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  createChallengeProposal: TypedContractMethod<
+    [description: string, votingPeriod: BigNumberish, quorum: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createProposal: TypedContractMethod<
+    [description: string, votingPeriod: BigNumberish, quorum: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  dao: TypedContractMethod<[], [string], "view">;
+
+  executeOperation: TypedContractMethod<
+    [operationId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  hasVoted: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isCancellationPending: TypedContractMethod<
+    [operationId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  isProposalAccepted: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  isProposalRejected: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  operationCount: TypedContractMethod<[], [bigint], "view">;
+
+  proposalCount: TypedContractMethod<[], [bigint], "view">;
+
+  proposals: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        string,
+        string,
+        boolean,
+        boolean,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        proposer: string;
+        description: string;
+        operationId: bigint;
+        startTime: bigint;
+        endTime: bigint;
+        quorum: bigint;
+        voterCount: bigint;
+        yesVotesEncrypted: string;
+        noVotesEncrypted: string;
+        abstainVotesEncrypted: string;
+        tallyRequested: boolean;
+        tallied: boolean;
+        yesVotes: bigint;
+        noVotes: bigint;
+        abstainVotes: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  proposeCancellation: TypedContractMethod<
+    [operationId: BigNumberish, description: string],
+    [bigint],
+    "nonpayable"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  queueOperation: TypedContractMethod<
+    [data: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+
+  requestTallyDecryption: TypedContractMethod<
+    [proposalId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  tallyCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  tallyContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        proposalId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  timelockDelay: TypedContractMethod<[], [bigint], "view">;
+
+  timelockOperations: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, boolean, boolean, bigint] & {
+        proposer: string;
+        data: string;
+        eta: bigint;
+        executed: boolean;
+        cancelled: boolean;
+        cancelProposalId: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "TIMELOCK_GRACE_PERIOD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "VOTE_ABSTAIN"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "VOTE_NO"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "VOTE_YES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "acceptDAOOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cancelOperation"
+  ): TypedContractMethod<[operationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cancelOperationByVote"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cancelQuorum"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "castVote"
+  ): TypedContractMethod<
+    [
+      proposalId: BigNumberish,
+      encryptedChoice: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createChallengeProposal"
+  ): TypedContractMethod<
+    [description: string, votingPeriod: BigNumberish, quorum: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createProposal"
+  ): TypedContractMethod<
+    [description: string, votingPeriod: BigNumberish, quorum: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "dao"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "executeOperation"
+  ): TypedContractMethod<[operationId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "hasVoted"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isCancellationPending"
+  ): TypedContractMethod<[operationId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isProposalAccepted"
+  ): TypedContractMethod<[proposalId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isProposalRejected"
+  ): TypedContractMethod<[proposalId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "operationCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "proposalCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "proposals"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        string,
+        string,
+        boolean,
+        boolean,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        proposer: string;
+        description: string;
+        operationId: bigint;
+        startTime: bigint;
+        endTime: bigint;
+        quorum: bigint;
+        voterCount: bigint;
+        yesVotesEncrypted: string;
+        noVotesEncrypted: string;
+        abstainVotesEncrypted: string;
+        tallyRequested: boolean;
+        tallied: boolean;
+        yesVotes: bigint;
+        noVotes: bigint;
+        abstainVotes: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "proposeCancellation"
+  ): TypedContractMethod<
+    [operationId: BigNumberish, description: string],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "queueOperation"
+  ): TypedContractMethod<[data: BytesLike], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "requestTallyDecryption"
+  ): TypedContractMethod<[proposalId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "tallyCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "tallyContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, boolean] & {
+        proposalId: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "timelockDelay"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "timelockOperations"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, boolean, boolean, bigint] & {
+        proposer: string;
+        data: string;
+        eta: bigint;
+        executed: boolean;
+        cancelled: boolean;
+        cancelProposalId: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "OperationCancelled"
+  ): TypedContractEvent<
+    OperationCancelledEvent.InputTuple,
+    OperationCancelledEvent.OutputTuple,
+    OperationCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "OperationExecuted"
+  ): TypedContractEvent<
+    OperationExecutedEvent.InputTuple,
+    OperationExecutedEvent.OutputTuple,
+    OperationExecutedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OperationQueued"
+  ): TypedContractEvent<
+    OperationQueuedEvent.InputTuple,
+    OperationQueuedEvent.OutputTuple,
+    OperationQueuedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProposalCreated"
+  ): TypedContractEvent<
+    ProposalCreatedEvent.InputTuple,
+    ProposalCreatedEvent.OutputTuple,
+    ProposalCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProposalTallied"
+  ): TypedContractEvent<
+    ProposalTalliedEvent.InputTuple,
+    ProposalTalliedEvent.OutputTuple,
+    ProposalTalliedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TallyDecryptionRequested"
+  ): TypedContractEvent<
+    TallyDecryptionRequestedEvent.InputTuple,
+    TallyDecryptionRequestedEvent.OutputTuple,
+    TallyDecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VoteCast"
+  ): TypedContractEvent<
+    VoteCastEvent.InputTuple,
+    VoteCastEvent.OutputTuple,
+    VoteCastEvent.OutputObject
+  >;
+
+  filters: {
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "OperationCancelled(uint256,address)": TypedContractEvent<
+      OperationCancelledEvent.InputTuple,
+      OperationCancelledEvent.OutputTuple,
+      OperationCancelledEvent.OutputObject
+    >;
+    OperationCancelled: TypedContractEvent<
+      OperationCancelledEvent.InputTuple,
+      OperationCancelledEvent.OutputTuple,
+      OperationCancelledEvent.OutputObject
+    >;
+
+    "OperationExecuted(uint256,address)": TypedContractEvent<
+      OperationExecutedEvent.InputTuple,
+      OperationExecutedEvent.OutputTuple,
+      OperationExecutedEvent.OutputObject
+    >;
+    OperationExecuted: TypedContractEvent<
+      OperationExecutedEvent.InputTuple,
+      OperationExecutedEvent.OutputTuple,
+      OperationExecutedEvent.OutputObject
+    >;
+
+    "OperationQueued(uint256,bytes4,address,bytes,uint256)": TypedContractEvent<
+      OperationQueuedEvent.InputTuple,
+      OperationQueuedEvent.OutputTuple,
+      OperationQueuedEvent.OutputObject
+    >;
+    OperationQueued: TypedContractEvent<
+      OperationQueuedEvent.InputTuple,
+      OperationQueuedEvent.OutputTuple,
+      OperationQueuedEvent.OutputObject
+    >;
+
+    "ProposalCreated(uint256,address,uint256,uint256,uint256,uint256)": TypedContractEvent<
+      ProposalCreatedEvent.InputTuple,
+      ProposalCreatedEvent.OutputTuple,
+      ProposalCreatedEvent.OutputObject
+    >;
+    ProposalCreated: TypedContractEvent<
+      ProposalCreatedEvent.InputTuple,
+      ProposalCreatedEvent.OutputTuple,
+      ProposalCreatedEvent.OutputObject
+    >;
+
+    "ProposalTallied(uint256,uint256,uint256,uint256,uint256)": TypedContractEvent<
+      ProposalTalliedEvent.InputTuple,
+      ProposalTalliedEvent.OutputTuple,
+      ProposalTalliedEvent.OutputObject
+    >;
+    ProposalTallied: TypedContractEvent<
+      ProposalTalliedEvent.InputTuple,
+      ProposalTalliedEvent.OutputTuple,
+      ProposalTalliedEvent.OutputObject
+    >;
+
+    "TallyDecryptionRequested(uint256,uint256)": TypedContractEvent<
+      TallyDecryptionRequestedEvent.InputTuple,
+      TallyDecryptionRequestedEvent.OutputTuple,
+      TallyDecryptionRequestedEvent.OutputObject
+    >;
+    TallyDecryptionRequested: TypedContractEvent<
+      TallyDecryptionRequestedEvent.InputTuple,
+      TallyDecryptionRequestedEvent.OutputTuple,
+      TallyDecryptionRequestedEvent.OutputObject
+    >;
+
+    "VoteCast(uint256,address,bytes32)": TypedContractEvent<
+      VoteCastEvent.InputTuple,
+      VoteCastEvent.OutputTuple,
+      VoteCastEvent.OutputObject
+    >;
+    VoteCast: TypedContractEvent<
+      VoteCastEvent.InputTuple,
+      VoteCastEvent.OutputTuple,
+      VoteCastEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,405 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface ReFiInfraRevenueDistributorFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "UNCLAIMED_REVENUE_PERIOD"
+      | "accrue"
+      | "batchRevenue"
+      | "claimableOf"
+      | "dao"
+      | "depositRevenue"
+      | "lastDepositAt"
+      | "protocolId"
+      | "revenueSwept"
+      | "revenueToken"
+      | "sweepUnclaimed"
+      | "withdraw"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "RevenueDeposited"
+      | "RevenueWithdrawn"
+      | "ShareAccrued"
+      | "UnclaimedRevenueSwept"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "UNCLAIMED_REVENUE_PERIOD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "accrue",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchRevenue",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimableOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "dao", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "depositRevenue",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDepositAt",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revenueSwept",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revenueToken",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "sweepUnclaimed",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "withdraw", values?: undefined): string;
+
+  decodeFunctionResult(
+    functionFragment: "UNCLAIMED_REVENUE_PERIOD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "accrue", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "batchRevenue",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimableOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "dao", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "depositRevenue",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDepositAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "revenueSwept",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revenueToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "sweepUnclaimed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
+}
+
+export namespace RevenueDepositedEvent {
+  export type InputTuple = [
+    depositor: AddressLike,
+    batchId: BigNumberish,
+    encryptedAmount: BytesLike
+  ];
+  export type OutputTuple = [
+    depositor: string,
+    batchId: bigint,
+    encryptedAmount: string
+  ];
+  export interface OutputObject {
+    depositor: string;
+    batchId: bigint;
+    encryptedAmount: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RevenueWithdrawnEvent {
+  export type InputTuple = [account: AddressLike, encryptedAmount: BytesLike];
+  export type OutputTuple = [account: string, encryptedAmount: string];
+  export interface OutputObject {
+    account: string;
+    encryptedAmount: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ShareAccruedEvent {
+  export type InputTuple = [
+    contributor: AddressLike,
+    batchId: BigNumberish,
+    encryptedShare: BytesLike
+  ];
+  export type OutputTuple = [
+    contributor: string,
+    batchId: bigint,
+    encryptedShare: string
+  ];
+  export interface OutputObject {
+    contributor: string;
+    batchId: bigint;
+    encryptedShare: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnclaimedRevenueSweptEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    treasury: AddressLike,
+    encryptedAmount: BytesLike
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    treasury: string,
+    encryptedAmount: string
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    treasury: string;
+    encryptedAmount: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ReFiInfraRevenueDistributorFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): ReFiInfraRevenueDistributorFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: ReFiInfraRevenueDistributorFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  UNCLAIMED_REVENUE_PERIOD: TypedContractMethod<[], [bigint], "view">;
+
+  accrue: TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+
+  batchRevenue: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  claimableOf: TypedContractMethod<[account: AddressLike], [string], "view">;
+
+  dao: TypedContractMethod<[], [string], "view">;
+
+  depositRevenue: TypedContractMethod<
+    [batchId: BigNumberish, encryptedAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  lastDepositAt: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  revenueSwept: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  revenueToken: TypedContractMethod<[], [string], "view">;
+
+  sweepUnclaimed: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  withdraw: TypedContractMethod<[], [void], "nonpayable">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "UNCLAIMED_REVENUE_PERIOD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "accrue"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "batchRevenue"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "claimableOf"
+  ): TypedContractMethod<[account: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "dao"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "depositRevenue"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, encryptedAmount: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "lastDepositAt"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "revenueSwept"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "revenueToken"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "sweepUnclaimed"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdraw"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+
+  getEvent(
+    key: "RevenueDeposited"
+  ): TypedContractEvent<
+    RevenueDepositedEvent.InputTuple,
+    RevenueDepositedEvent.OutputTuple,
+    RevenueDepositedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RevenueWithdrawn"
+  ): TypedContractEvent<
+    RevenueWithdrawnEvent.InputTuple,
+    RevenueWithdrawnEvent.OutputTuple,
+    RevenueWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "ShareAccrued"
+  ): TypedContractEvent<
+    ShareAccruedEvent.InputTuple,
+    ShareAccruedEvent.OutputTuple,
+    ShareAccruedEvent.OutputObject
+  >;
+  getEvent(
+    key: "UnclaimedRevenueSwept"
+  ): TypedContractEvent<
+    UnclaimedRevenueSweptEvent.InputTuple,
+    UnclaimedRevenueSweptEvent.OutputTuple,
+    UnclaimedRevenueSweptEvent.OutputObject
+  >;
+
+  filters: {
+    "RevenueDeposited(address,uint256,bytes32)": TypedContractEvent<
+      RevenueDepositedEvent.InputTuple,
+      RevenueDepositedEvent.OutputTuple,
+      RevenueDepositedEvent.OutputObject
+    >;
+    RevenueDeposited: TypedContractEvent<
+      RevenueDepositedEvent.InputTuple,
+      RevenueDepositedEvent.OutputTuple,
+      RevenueDepositedEvent.OutputObject
+    >;
+
+    "RevenueWithdrawn(address,bytes32)": TypedContractEvent<
+      RevenueWithdrawnEvent.InputTuple,
+      RevenueWithdrawnEvent.OutputTuple,
+      RevenueWithdrawnEvent.OutputObject
+    >;
+    RevenueWithdrawn: TypedContractEvent<
+      RevenueWithdrawnEvent.InputTuple,
+      RevenueWithdrawnEvent.OutputTuple,
+      RevenueWithdrawnEvent.OutputObject
+    >;
+
+    "ShareAccrued(address,uint256,bytes32)": TypedContractEvent<
+      ShareAccruedEvent.InputTuple,
+      ShareAccruedEvent.OutputTuple,
+      ShareAccruedEvent.OutputObject
+    >;
+    ShareAccrued: TypedContractEvent<
+      ShareAccruedEvent.InputTuple,
+      ShareAccruedEvent.OutputTuple,
+      ShareAccruedEvent.OutputObject
+    >;
+
+    "UnclaimedRevenueSwept(uint256,address,bytes32)": TypedContractEvent<
+      UnclaimedRevenueSweptEvent.InputTuple,
+      UnclaimedRevenueSweptEvent.OutputTuple,
+      UnclaimedRevenueSweptEvent.OutputObject
+    >;
+    UnclaimedRevenueSwept: TypedContractEvent<
+      UnclaimedRevenueSweptEvent.InputTuple,
+      UnclaimedRevenueSweptEvent.OutputTuple,
+      UnclaimedRevenueSweptEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,470 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface ReFiInfraSLAMonitorFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "checkContexts"
+      | "dao"
+      | "getKpis"
+      | "getSlaStatus"
+      | "protocolId"
+      | "reportKpis"
+      | "setThresholds"
+      | "slaCheckCallback"
+      | "thresholdsUpdatedAt"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "DecryptionFulfilled"
+      | "KpisReported"
+      | "SlaBreached"
+      | "SlaCheckCompleted"
+      | "ThresholdsUpdated"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "checkContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "dao", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getKpis",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSlaStatus",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reportKpis",
+    values: [BigNumberish, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setThresholds",
+    values: [BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "slaCheckCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "thresholdsUpdatedAt",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "checkContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "dao", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getKpis", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getSlaStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "reportKpis", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setThresholds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "slaCheckCallback",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "thresholdsUpdatedAt",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace KpisReportedEvent {
+  export type InputTuple = [
+    provider: AddressLike,
+    batchId: BigNumberish,
+    requestId: BigNumberish
+  ];
+  export type OutputTuple = [
+    provider: string,
+    batchId: bigint,
+    requestId: bigint
+  ];
+  export interface OutputObject {
+    provider: string;
+    batchId: bigint;
+    requestId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SlaBreachedEvent {
+  export type InputTuple = [batchId: BigNumberish, provider: AddressLike];
+  export type OutputTuple = [batchId: bigint, provider: string];
+  export interface OutputObject {
+    batchId: bigint;
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SlaCheckCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    provider: AddressLike,
+    passed: boolean
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    provider: string,
+    passed: boolean
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    provider: string;
+    passed: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ThresholdsUpdatedEvent {
+  export type InputTuple = [updatedBy: AddressLike];
+  export type OutputTuple = [updatedBy: string];
+  export interface OutputObject {
+    updatedBy: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ReFiInfraSLAMonitorFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): ReFiInfraSLAMonitorFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: ReFiInfraSLAMonitorFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  checkContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, boolean] & {
+        batchId: bigint;
+        provider: string;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  dao: TypedContractMethod<[], [string], "view">;
+
+  getKpis: TypedContractMethod<
+    [batchId: BigNumberish, provider: AddressLike],
+    [[string, string] & { uptimeMinutes: string; latencyBucket: string }],
+    "view"
+  >;
+
+  getSlaStatus: TypedContractMethod<
+    [batchId: BigNumberish, provider: AddressLike],
+    [
+      [boolean, boolean, boolean] & {
+        reported: boolean;
+        checked: boolean;
+        passed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  reportKpis: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedUptimeMinutes: BytesLike,
+      encryptedLatencyBucket: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  setThresholds: TypedContractMethod<
+    [
+      encryptedMinUptimeMinutes: BytesLike,
+      encryptedMaxLatencyBucket: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  slaCheckCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  thresholdsUpdatedAt: TypedContractMethod<[], [bigint], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "checkContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, boolean] & {
+        batchId: bigint;
+        provider: string;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "dao"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "getKpis"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, provider: AddressLike],
+    [[string, string] & { uptimeMinutes: string; latencyBucket: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSlaStatus"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, provider: AddressLike],
+    [
+      [boolean, boolean, boolean] & {
+        reported: boolean;
+        checked: boolean;
+        passed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "reportKpis"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      encryptedUptimeMinutes: BytesLike,
+      encryptedLatencyBucket: BytesLike,
+      inputProof: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setThresholds"
+  ): TypedContractMethod<
+    [
+      encryptedMinUptimeMinutes: BytesLike,
+      encryptedMaxLatencyBucket: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "slaCheckCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "thresholdsUpdatedAt"
+  ): TypedContractMethod<[], [bigint], "view">;
+
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "KpisReported"
+  ): TypedContractEvent<
+    KpisReportedEvent.InputTuple,
+    KpisReportedEvent.OutputTuple,
+    KpisReportedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SlaBreached"
+  ): TypedContractEvent<
+    SlaBreachedEvent.InputTuple,
+    SlaBreachedEvent.OutputTuple,
+    SlaBreachedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SlaCheckCompleted"
+  ): TypedContractEvent<
+    SlaCheckCompletedEvent.InputTuple,
+    SlaCheckCompletedEvent.OutputTuple,
+    SlaCheckCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ThresholdsUpdated"
+  ): TypedContractEvent<
+    ThresholdsUpdatedEvent.InputTuple,
+    ThresholdsUpdatedEvent.OutputTuple,
+    ThresholdsUpdatedEvent.OutputObject
+  >;
+
+  filters: {
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "KpisReported(address,uint256,uint256)": TypedContractEvent<
+      KpisReportedEvent.InputTuple,
+      KpisReportedEvent.OutputTuple,
+      KpisReportedEvent.OutputObject
+    >;
+    KpisReported: TypedContractEvent<
+      KpisReportedEvent.InputTuple,
+      KpisReportedEvent.OutputTuple,
+      KpisReportedEvent.OutputObject
+    >;
+
+    "SlaBreached(uint256,address)": TypedContractEvent<
+      SlaBreachedEvent.InputTuple,
+      SlaBreachedEvent.OutputTuple,
+      SlaBreachedEvent.OutputObject
+    >;
+    SlaBreached: TypedContractEvent<
+      SlaBreachedEvent.InputTuple,
+      SlaBreachedEvent.OutputTuple,
+      SlaBreachedEvent.OutputObject
+    >;
+
+    "SlaCheckCompleted(uint256,uint256,address,bool)": TypedContractEvent<
+      SlaCheckCompletedEvent.InputTuple,
+      SlaCheckCompletedEvent.OutputTuple,
+      SlaCheckCompletedEvent.OutputObject
+    >;
+    SlaCheckCompleted: TypedContractEvent<
+      SlaCheckCompletedEvent.InputTuple,
+      SlaCheckCompletedEvent.OutputTuple,
+      SlaCheckCompletedEvent.OutputObject
+    >;
+
+    "ThresholdsUpdated(address)": TypedContractEvent<
+      ThresholdsUpdatedEvent.InputTuple,
+      ThresholdsUpdatedEvent.OutputTuple,
+      ThresholdsUpdatedEvent.OutputObject
+    >;
+    ThresholdsUpdated: TypedContractEvent<
+      ThresholdsUpdatedEvent.InputTuple,
+      ThresholdsUpdatedEvent.OutputTuple,
+      ThresholdsUpdatedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,675 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface ReFiInfraStakingFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "CHALLENGE_RESOLUTION_PERIOD"
+      | "challengeBond"
+      | "challengeCount"
+      | "challengeQuorum"
+      | "challengeVotingPeriod"
+      | "challengeWindow"
+      | "challenges"
+      | "dao"
+      | "getUsageBatches"
+      | "governor"
+      | "isStaked"
+      | "isUsageFinal"
+      | "minimumStake"
+      | "openChallenge"
+      | "openChallengesByBatch"
+      | "recordUsage"
+      | "requestUnstake"
+      | "resolveChallenge"
+      | "slashBps"
+      | "stake"
+      | "stakes"
+      | "unbondingPeriod"
+      | "withdrawStake"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "ChallengeDismissed"
+      | "ChallengeOpened"
+      | "ChallengeUpheld"
+      | "Staked"
+      | "UnstakeRequested"
+      | "Unstaked"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "CHALLENGE_RESOLUTION_PERIOD",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "challengeBond",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "challengeCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "challengeQuorum",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "challengeVotingPeriod",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "challengeWindow",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "challenges",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "dao", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getUsageBatches",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "governor", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "isStaked",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isUsageFinal",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "minimumStake",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openChallenge",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "openChallengesByBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordUsage",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestUnstake",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "resolveChallenge",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "slashBps", values?: undefined): string;
+  encodeFunctionData(functionFragment: "stake", values?: undefined): string;
+  encodeFunctionData(functionFragment: "stakes", values: [AddressLike]): string;
+  encodeFunctionData(
+    functionFragment: "unbondingPeriod",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawStake",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "CHALLENGE_RESOLUTION_PERIOD",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "challengeBond",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "challengeCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "challengeQuorum",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "challengeVotingPeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "challengeWindow",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "challenges", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "dao", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getUsageBatches",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "governor", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "isStaked", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isUsageFinal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "minimumStake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "openChallenge",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "openChallengesByBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recordUsage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestUnstake",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "resolveChallenge",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "slashBps", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "stake", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "stakes", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "unbondingPeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawStake",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace ChallengeDismissedEvent {
+  export type InputTuple = [challengeId: BigNumberish, provider: AddressLike];
+  export type OutputTuple = [challengeId: bigint, provider: string];
+  export interface OutputObject {
+    challengeId: bigint;
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ChallengeOpenedEvent {
+  export type InputTuple = [
+    challengeId: BigNumberish,
+    batchId: BigNumberish,
+    provider: AddressLike,
+    challenger: AddressLike,
+    proposalId: BigNumberish
+  ];
+  export type OutputTuple = [
+    challengeId: bigint,
+    batchId: bigint,
+    provider: string,
+    challenger: string,
+    proposalId: bigint
+  ];
+  export interface OutputObject {
+    challengeId: bigint;
+    batchId: bigint;
+    provider: string;
+    challenger: string;
+    proposalId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ChallengeUpheldEvent {
+  export type InputTuple = [
+    challengeId: BigNumberish,
+    provider: AddressLike,
+    slashedAmount: BigNumberish
+  ];
+  export type OutputTuple = [
+    challengeId: bigint,
+    provider: string,
+    slashedAmount: bigint
+  ];
+  export interface OutputObject {
+    challengeId: bigint;
+    provider: string;
+    slashedAmount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StakedEvent {
+  export type InputTuple = [
+    provider: AddressLike,
+    amount: BigNumberish,
+    totalStake: BigNumberish
+  ];
+  export type OutputTuple = [
+    provider: string,
+    amount: bigint,
+    totalStake: bigint
+  ];
+  export interface OutputObject {
+    provider: string;
+    amount: bigint;
+    totalStake: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnstakeRequestedEvent {
+  export type InputTuple = [provider: AddressLike, unlockAt: BigNumberish];
+  export type OutputTuple = [provider: string, unlockAt: bigint];
+  export interface OutputObject {
+    provider: string;
+    unlockAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnstakedEvent {
+  export type InputTuple = [provider: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [provider: string, amount: bigint];
+  export interface OutputObject {
+    provider: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface ReFiInfraStakingFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): ReFiInfraStakingFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: ReFiInfraStakingFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  CHALLENGE_RESOLUTION_PERIOD: TypedContractMethod<[], [bigint], "view">;
+
+  challengeBond: TypedContractMethod<[], [bigint], "view">;
+
+  challengeCount: TypedContractMethod<[], [bigint], "view">;
+
+  challengeQuorum: TypedContractMethod<[], [bigint], "view">;
+
+  challengeVotingPeriod: TypedContractMethod<[], [bigint], "view">;
+
+  challengeWindow: TypedContractMethod<[], [bigint], "view">;
+
+  challenges: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, bigint, bigint, bigint, bigint] & {
+        batchId: bigint;
+        provider: string;
+        challenger: string;
+        bond: bigint;
+        openedAt: bigint;
+        proposalId: bigint;
+        status: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  dao: TypedContractMethod<[], [string], "view">;
+
+  getUsageBatches: TypedContractMethod<
+    [provider: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  governor: TypedContractMethod<[], [string], "view">;
+
+  isStaked: TypedContractMethod<[provider: AddressLike], [boolean], "view">;
+
+  isUsageFinal: TypedContractMethod<[batchId: BigNumberish], [boolean], "view">;
+
+  minimumStake: TypedContractMethod<[], [bigint], "view">;
+
+  openChallenge: TypedContractMethod<
+    [batchId: BigNumberish, provider: AddressLike],
+    [bigint],
+    "payable"
+  >;
+
+  openChallengesByBatch: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  recordUsage: TypedContractMethod<
+    [provider: AddressLike, batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestUnstake: TypedContractMethod<[], [void], "nonpayable">;
+
+  resolveChallenge: TypedContractMethod<
+    [challengeId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  slashBps: TypedContractMethod<[], [bigint], "view">;
+
+  stake: TypedContractMethod<[], [void], "payable">;
+
+  stakes: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [bigint, bigint, bigint] & {
+        amount: bigint;
+        unlockAt: bigint;
+        openChallenges: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  unbondingPeriod: TypedContractMethod<[], [bigint], "view">;
+
+  withdrawStake: TypedContractMethod<[], [void], "nonpayable">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "CHALLENGE_RESOLUTION_PERIOD"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "challengeBond"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "challengeCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "challengeQuorum"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "challengeVotingPeriod"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "challengeWindow"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "challenges"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, bigint, bigint, bigint, bigint] & {
+        batchId: bigint;
+        provider: string;
+        challenger: string;
+        bond: bigint;
+        openedAt: bigint;
+        proposalId: bigint;
+        status: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "dao"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "getUsageBatches"
+  ): TypedContractMethod<[provider: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "governor"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "isStaked"
+  ): TypedContractMethod<[provider: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isUsageFinal"
+  ): TypedContractMethod<[batchId: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "minimumStake"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "openChallenge"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, provider: AddressLike],
+    [bigint],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "openChallengesByBatch"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "recordUsage"
+  ): TypedContractMethod<
+    [provider: AddressLike, batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestUnstake"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "resolveChallenge"
+  ): TypedContractMethod<[challengeId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "slashBps"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "stake"
+  ): TypedContractMethod<[], [void], "payable">;
+  getFunction(
+    nameOrSignature: "stakes"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [bigint, bigint, bigint] & {
+        amount: bigint;
+        unlockAt: bigint;
+        openChallenges: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "unbondingPeriod"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "withdrawStake"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+
+  getEvent(
+    key: "ChallengeDismissed"
+  ): TypedContractEvent<
+    ChallengeDismissedEvent.InputTuple,
+    ChallengeDismissedEvent.OutputTuple,
+    ChallengeDismissedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ChallengeOpened"
+  ): TypedContractEvent<
+    ChallengeOpenedEvent.InputTuple,
+    ChallengeOpenedEvent.OutputTuple,
+    ChallengeOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ChallengeUpheld"
+  ): TypedContractEvent<
+    ChallengeUpheldEvent.InputTuple,
+    ChallengeUpheldEvent.OutputTuple,
+    ChallengeUpheldEvent.OutputObject
+  >;
+  getEvent(
+    key: "Staked"
+  ): TypedContractEvent<
+    StakedEvent.InputTuple,
+    StakedEvent.OutputTuple,
+    StakedEvent.OutputObject
+  >;
+  getEvent(
+    key: "UnstakeRequested"
+  ): TypedContractEvent<
+    UnstakeRequestedEvent.InputTuple,
+    UnstakeRequestedEvent.OutputTuple,
+    UnstakeRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unstaked"
+  ): TypedContractEvent<
+    UnstakedEvent.InputTuple,
+    UnstakedEvent.OutputTuple,
+    UnstakedEvent.OutputObject
+  >;
+
+  filters: {
+    "ChallengeDismissed(uint256,address)": TypedContractEvent<
+      ChallengeDismissedEvent.InputTuple,
+      ChallengeDismissedEvent.OutputTuple,
+      ChallengeDismissedEvent.OutputObject
+    >;
+    ChallengeDismissed: TypedContractEvent<
+      ChallengeDismissedEvent.InputTuple,
+      ChallengeDismissedEvent.OutputTuple,
+      ChallengeDismissedEvent.OutputObject
+    >;
+
+    "ChallengeOpened(uint256,uint256,address,address,uint256)": TypedContractEvent<
+      ChallengeOpenedEvent.InputTuple,
+      ChallengeOpenedEvent.OutputTuple,
+      ChallengeOpenedEvent.OutputObject
+    >;
+    ChallengeOpened: TypedContractEvent<
+      ChallengeOpenedEvent.InputTuple,
+      ChallengeOpenedEvent.OutputTuple,
+      ChallengeOpenedEvent.OutputObject
+    >;
+
+    "ChallengeUpheld(uint256,address,uint256)": TypedContractEvent<
+      ChallengeUpheldEvent.InputTuple,
+      ChallengeUpheldEvent.OutputTuple,
+      ChallengeUpheldEvent.OutputObject
+    >;
+    ChallengeUpheld: TypedContractEvent<
+      ChallengeUpheldEvent.InputTuple,
+      ChallengeUpheldEvent.OutputTuple,
+      ChallengeUpheldEvent.OutputObject
+    >;
+
+    "Staked(address,uint256,uint256)": TypedContractEvent<
+      StakedEvent.InputTuple,
+      StakedEvent.OutputTuple,
+      StakedEvent.OutputObject
+    >;
+    Staked: TypedContractEvent<
+      StakedEvent.InputTuple,
+      StakedEvent.OutputTuple,
+      StakedEvent.OutputObject
+    >;
+
+    "UnstakeRequested(address,uint256)": TypedContractEvent<
+      UnstakeRequestedEvent.InputTuple,
+      UnstakeRequestedEvent.OutputTuple,
+      UnstakeRequestedEvent.OutputObject
+    >;
+    UnstakeRequested: TypedContractEvent<
+      UnstakeRequestedEvent.InputTuple,
+      UnstakeRequestedEvent.OutputTuple,
+      UnstakeRequestedEvent.OutputObject
+    >;
+
+    "Unstaked(address,uint256)": TypedContractEvent<
+      UnstakedEvent.InputTuple,
+      UnstakedEvent.OutputTuple,
+      UnstakedEvent.OutputObject
+    >;
+    Unstaked: TypedContractEvent<
+      UnstakedEvent.InputTuple,
+      UnstakedEvent.OutputTuple,
+      UnstakedEvent.OutputObject
+    >;
+  };
+}
@@ -2,3 +2,18 @@
 /* tslint:disable */
 /* eslint-disable */
 export type { UniversalAdapter } from "./UniversalAdapter";
+import type * as reFiInfraDaoSol from "./ReFi_Infra_DAO.sol";
+export type { reFiInfraDaoSol };
+import type * as reFiInfraGovernorSol from "./ReFi_Infra_Governor.sol";
+export type { reFiInfraGovernorSol };
+export type { ConfidentialTokenMock } from "./ConfidentialTokenMock";
+export type { IConfidentialToken } from "./IConfidentialToken";
+import type * as reFiInfraRevenueSol from "./ReFi_Infra_Revenue.sol";
+export type { reFiInfraRevenueSol };
+import type * as reFiInfraStakingSol from "./ReFi_Infra_Staking.sol";
+export type { reFiInfraStakingSol };
+export type { IProviderStaking } from "./IProviderStaking";
+import type * as reFiInfraDeviceRegistrySol from "./ReFi_Infra_DeviceRegistry.sol";
+export type { reFiInfraDeviceRegistrySol };
+import type * as reFiInfraSlaSol from "./ReFi_Infra_SLA.sol";
+export type { reFiInfraSlaSol };
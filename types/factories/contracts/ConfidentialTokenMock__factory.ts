@@ -0,0 +1,395 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  ConfidentialTokenMock,
+  ConfidentialTokenMockInterface,
+} from "../../contracts/ConfidentialTokenMock";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name_",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol_",
+        type: "string",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "InvalidAddress",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "UnauthorizedHandle",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "UnauthorizedSpender",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    name: "ConfidentialTransfer",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint48",
+        name: "until",
+        type: "uint48",
+      },
+    ],
+    name: "OperatorSet",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "confidentialBalanceOf",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "confidentialTransfer",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "transferred",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    name: "confidentialTransfer",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "transferred",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    name: "confidentialTransferFrom",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "transferred",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "isOperator",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "amount",
+        type: "uint64",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "uint48",
+        name: "until",
+        type: "uint48",
+      },
+    ],
+    name: "setOperator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052346200042a576200137d803803806200001d816200044e565b9283398101906040818303126200042a5780516001600160401b03908181116200042a57836200004f91840162000474565b91602093848201518381116200042a576200006b920162000474565b925f6060620000796200042e565b82815282848201528260408201520152620000936200042e565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d595808583015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039182541617905582519082821162000348575f54916001948584811c941680156200041f575b8385101462000329578190601f94858111620003cc575b50839085831160011462000368575f926200035c575b50505f19600383901b1c191690851b175f555b8451928311620003485783548481811c911680156200033d575b828210146200032957828111620002e1575b50809183116001146200027d57508192935f9262000271575b50505f19600383901b1c191690821b1790555b604051610e989081620004e58239f35b015190505f806200024e565b90601f19831694845f52825f20925f905b878210620002c957505083859610620002b0575b505050811b01905562000261565b01515f1960f88460031b161c191690555f8080620002a2565b8087859682949686015181550195019301906200028e565b845f52815f208380860160051c8201928487106200031f575b0160051c019085905b8281106200031357505062000235565b5f815501859062000303565b92508192620002fa565b634e487b7160e01b5f52602260045260245ffd5b90607f169062000223565b634e487b7160e01b5f52604160045260245ffd5b015190505f80620001f6565b90879350601f198316915f8052855f20925f5b87828210620003b557505084116200039c575b505050811b015f5562000209565b01515f1960f88460031b161c191690555f80806200038e565b8385015186558b979095019493840193016200037b565b9091505f8052835f208580850160051c82019286861062000415575b918991869594930160051c01915b82811062000406575050620001e0565b5f8155859450899101620003f6565b92508192620003e8565b93607f1693620001c9565b5f80fd5b60405190608082016001600160401b038111838210176200034857604052565b6040519190601f01601f191682016001600160401b038111838210176200034857604052565b919080601f840112156200042a5782516001600160401b0381116200034857602090620004aa601f8201601f191683016200044e565b928184528282870101116200042a575f5b818110620004d05750825f9394955001015290565b8581018301518482018401528201620004bb56fe6080604081815260049182361015610015575f80fd5b5f3560e01c90816306fdde03146106ce575080632893c5b01461056b5780632fb74e62146103d5578063313ce567146103ba578063344ff101146103835780635bebed7e1461032857806395d89b4114610215578063b6363cf2146101df578063d4febb9614610158578063da1f12ab1461013c5763eb3155b514610098575f80fd5b34610138576060366003190112610138576100b161081b565b6100b9610831565b90604435936100c785610c7c565b15610117576100d63383610847565b156100f05750926100e9916020946108b9565b9051908152f35b835163f4da5edd60e01b81526001600160a01b039092169082015233602482015260449150fd5b83516316d8ce7760e31b815290810185815233602082015281906040010390fd5b5f80fd5b5034610138575f36600319011261013857602090516127118152f35b503461013857806003193601126101385761017161081b565b906024359065ffffffffffff821680920361013857335f526003602052805f209260018060a01b031692835f52602052805f208265ffffffffffff19825416179055519081527f921a218a75d18e8ec5704851e6b234a85725b21a2521ce889622c35dedc1fa1260203392a3005b503461013857806003193601126101385760209061020c6101fe61081b565b610206610831565b90610847565b90519015158152f35b5034610138575f366003190112610138578051905f90600191600154928360011c906001851694851561031e575b602095868410811461030b578388528794939291879082156102e957505060011461028e575b505061028a929161027b9103856107bb565b519282849384528301906107dd565b0390f35b9085925060015f527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6915f925b8284106102d1575050508201018161027b610269565b8054848a0186015288955087949093019281016102bb565b60ff19168682015292151560051b8501909201925083915061027b9050610269565b602289634e487b7160e01b5f525260245ffd5b91607f1691610243565b50903461013857816003193601126101385761034261081b565b6024359161034f83610c7c565b15610362576020846100e98585336108b9565b83516316d8ce7760e31b815290810183815233602082015281906040010390fd5b5034610138576020366003190112610138576020906001600160a01b036103a861081b565b165f5260028252805f20549051908152f35b5034610138575f366003190112610138576020905160068152f35b5034610138576060366003190112610138576103ef61081b565b9060443567ffffffffffffffff9283821161013857366023830112156101385781850135938411610138573660248584010111610138575f91826020868197602488519561044685601f19601f86011601886107bb565b8287520183860137830101525f80516020610e4c83398151915254845163196d0b9b60e01b81526024803589830152339082015260806044820152936001600160a01b0392879286929085169183919082906104a69060848301906107dd565b6005606483015203925af1928315610561575f93610532575b505f80516020610e6c8339815191525416803b15610138578351630f8e573b60e21b81529586018381523360208201525f91879182908490829060400103925af1948515610528576100e9939495610519575b50336108b9565b61052290610793565b5f610512565b83513d5f823e3d90fd5b9092508481813d831161055a575b61054a81836107bb565b810103126101385751915f6104bf565b503d610540565b84513d5f823e3d90fd5b503461013857806003193601126101385761058461081b565b906024359067ffffffffffffffff8216809203610138576001600160a01b03838116949085156106bf575f86815260026020528390205480159190826106a45790602092610690575b6064905f80516020610e4c8339815191525416935f8651958694859363022f65e760e31b8552840152886024840152600160f81b60448401525af191821561068757505f91610653575b5061062b92610626919061088a565b610d0f565b905f7f67500e8d0ed826d2194f514dd0d8124f35648ab6e3fb5e6ed867134cffe661e98180a4005b90506020813d60201161067f575b8161066e602093836107bb565b81010312610138575161062b610617565b3d9150610661565b513d5f823e3d90fd5b9050606461069c610d91565b9190506105cd565b505050505061062661062b926106b983610d0f565b9061088a565b50905163e6c4247b60e01b8152fd5b91905034610138575f366003190112610138575f905f549160018360011c9060018516948515610789575b602095868410811461030b578388528794939291879082156102e957505060011461073057505061028a929161027b9103856107bb565b5f80805286935091907f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5635b828410610771575050508201018161027b610269565b8054848a01860152889550879490930192810161075b565b91607f16916106f9565b67ffffffffffffffff81116107a757604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff8211176107a757604052565b91908251928382525f5b848110610807575050825f602080949584010152601f8019910116010190565b6020818301810151848301820152016107e7565b600435906001600160a01b038216820361013857565b602435906001600160a01b038216820361013857565b6001600160a01b03908116911681811491821561086357505090565b9091505f52600360205260405f20905f5260205265ffffffffffff60405f20541642111590565b6001600160a01b0381165f9081526002602052604090208290556108b7916108b23082610de4565b610de4565b565b909291906001600160a01b0380851691905f908315610c6a578083165f52602060028152604090815f2054988915610c5a575b865f5260028252825f20548015610c4c575b888b80159c8d610c3e575b8b15610c2e575b855f80516020610e4c8339815191529360648a865416935f8b519586948593631391547f60e01b8552600485015260248401528160448401525af1908115610ba0579086915f91610bff575b50610965610d91565b898554169089519e8f93637702dcff60e01b8552600485015260248401526044830152815a6064925f91f19a8b15610bf5575f9b610bc6575b508a9c8b9190610bb8575b858c159283610baa575b60648a865416935f8b5195869485936303056db360e31b8552600485015260248401528160448401525af1908115610ba05790869392915f91610b6e575b506109fc908b61088a565b878c918515610b5e575b610b4b575b606491925416935f8851958694859363022f65e760e31b8552600485015260248401528160448401525af1928315610561575f93610b17575b5050610a53610a6d928261088a565b610a5d3089610de4565b610a678689610de4565b87610de4565b815f80516020610e6c833981519152541690813b15610138578051630f8e573b60e21b815260048101889052336024820152915f908390604490829084905af19081156106875750610ae4575b507f67500e8d0ed826d2194f514dd0d8124f35648ab6e3fb5e6ed867134cffe661e99192169180a4565b7f67500e8d0ed826d2194f514dd0d8124f35648ab6e3fb5e6ed867134cffe661e99250610b1090610793565b5f91610aba565b90809350813d8311610b44575b610b2e81836107bb565b8101031261013857610a53610a6d925192610a44565b503d610b24565b60649150610b57610d91565b9150610a0b565b9450610b68610d91565b94610a06565b84819592503d8311610b99575b610b8581836107bb565b81010312610138576109fc869351906109f1565b503d610b7b565b87513d5f823e3d90fd5b50610bb3610d91565b6109b3565b50610bc1610d91565b6109a9565b909a508481813d8311610bee575b610bde81836107bb565b810103126101385751995f61099e565b503d610bd4565b86513d5f823e3d90fd5b82819392503d8311610c27575b610c1681836107bb565b81010312610138578590515f61095c565b503d610c0c565b9150610c38610d91565b91610910565b50610c47610d91565b610909565b50610c55610d91565b6108fe565b9850610c64610d91565b986108ec565b60405163e6c4247b60e01b8152600490fd5b5f80516020610e6c833981519152546040516382027b6d60e01b81526004810192909252336024830152602090829060449082906001600160a01b03165afa908115610d04575f91610ccc575090565b90506020813d602011610cfc575b81610ce7602093836107bb565b81010312610138575180151581036101385790565b3d9150610cda565b6040513d5f823e3d90fd5b5f80516020610e4c83398151915254604051639cd07acb60e01b8152600481019290925260056024830152602090829060449082905f906001600160a01b03165af1908115610d04575f91610d62575090565b90506020813d602011610d89575b81610d7d602093836107bb565b81010312610138575190565b3d9150610d70565b5f80516020610e4c83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af1908115610d04575f91610d62575090565b5f80516020610e6c833981519152546001600160a01b031691823b1561013857604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610d0457610e425750565b6108b79061079356fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type ConfidentialTokenMockConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ConfidentialTokenMockConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ConfidentialTokenMock__factory extends ContractFactory {
+  constructor(...args: ConfidentialTokenMockConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    name_: string,
+    symbol_: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(name_, symbol_, overrides || {});
+  }
+  override deploy(
+    name_: string,
+    symbol_: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(name_, symbol_, overrides || {}) as Promise<
+      ConfidentialTokenMock & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): ConfidentialTokenMock__factory {
+    return super.connect(runner) as ConfidentialTokenMock__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ConfidentialTokenMockInterface {
+    return new Interface(_abi) as ConfidentialTokenMockInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ConfidentialTokenMock {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as ConfidentialTokenMock;
+  }
+}
@@ -0,0 +1,62 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IProviderStaking,
+  IProviderStakingInterface,
+} from "../../contracts/IProviderStaking";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "isStaked",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "recordUsage",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+export class IProviderStaking__factory {
+  static readonly abi = _abi;
+  static createInterface(): IProviderStakingInterface {
+    return new Interface(_abi) as IProviderStakingInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): IProviderStaking {
+    return new Contract(address, _abi, runner) as unknown as IProviderStaking;
+  }
+}
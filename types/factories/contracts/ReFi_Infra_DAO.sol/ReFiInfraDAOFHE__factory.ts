@@ -0,0 +1,2611 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  ReFiInfraDAOFHE,
+  ReFiInfraDAOFHEInterface,
+} from "../../../contracts/ReFi_Infra_DAO.sol/ReFiInfraDAOFHE";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract IConfidentialToken",
+        name: "contributionToken_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AnonymityThresholdNotMet",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotClosed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchNotOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchWindowNotEnded",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DecryptionPending",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DecryptionSupersededError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "FundingAlreadyChecked",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "FundingGoalNotMet",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "FundsAlreadyReleased",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidAddress",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatchId",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatchStatus",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatchWindow",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidNoiseBound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidProjectId",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidReadings",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "MissingRole",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoiseAlreadyDrawn",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotDeviceRegistry",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotPendingOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotRevenueDistributor",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NothingToRefund",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "OutsideBatchWindow",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PausedError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RefundNotAvailable",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayDetected",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StakeRequired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "SummaryNotAvailable",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "minContributors",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "minProviders",
+        type: "uint256",
+      },
+    ],
+    name: "AnonymityThresholdsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "noiseBound",
+        type: "uint64",
+      },
+    ],
+    name: "BatchNoiseConfigured",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "startTime",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "contributor",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+    ],
+    name: "ContributionSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldownSeconds",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSecondsUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "totalContributions",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "totalUsage",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "overflowed",
+        type: "bool",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "previousRequestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionSuperseded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldDecryptionTimeout",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newDecryptionTimeout",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionTimeoutUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "oldRegistry",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newRegistry",
+        type: "address",
+      },
+    ],
+    name: "DeviceRegistryUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "device",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedUsage",
+        type: "bytes32",
+      },
+    ],
+    name: "DeviceUsageReported",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "goalMet",
+        type: "bool",
+      },
+    ],
+    name: "FundingCheckCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "FundingCheckRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "treasury",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+    ],
+    name: "FundsReleased",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferStarted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "treasury",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "title",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "metadataHash",
+        type: "bytes32",
+      },
+    ],
+    name: "ProjectCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "oldStaking",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newStaking",
+        type: "address",
+      },
+    ],
+    name: "ProviderStakingUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "contributor",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+    ],
+    name: "RefundClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "oldDistributor",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newDistributor",
+        type: "address",
+      },
+    ],
+    name: "RevenueDistributorUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "contributorCount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "providerCount",
+        type: "uint256",
+      },
+    ],
+    name: "SummaryWithheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "grantee",
+        type: "address",
+      },
+    ],
+    name: "UsageAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedUsage",
+        type: "bytes32",
+      },
+    ],
+    name: "UsageReported",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "AUDITOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "BATCH_MANAGER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_READINGS_PER_REPORT",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PAUSER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PROVIDER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "VOTER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "batchCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "claimRefund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "contributionOf",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "contributionToken",
+    outputs: [
+      {
+        internalType: "contract IConfidentialToken",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "treasury",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "title",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+      {
+        internalType: "bytes32",
+        name: "metadataHash",
+        type: "bytes32",
+      },
+    ],
+    name: "createProject",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decryptionTimeout",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "deviceRegistry",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "finalize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "fundingCheckCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "fundingCheckContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBatch",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "projectId",
+            type: "uint256",
+          },
+          {
+            internalType: "enum ReFiInfraDAOFHE.BatchStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "openedAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "startTime",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "endTime",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "closedAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "decryptionRequestId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "decryptionRequestedAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "contributorCount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "providerCount",
+            type: "uint256",
+          },
+          {
+            internalType: "euint64",
+            name: "totalContributions",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint64",
+            name: "totalUsage",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint64",
+            name: "fundingTarget",
+            type: "bytes32",
+          },
+          {
+            internalType: "ebool",
+            name: "overflowed",
+            type: "bytes32",
+          },
+          {
+            internalType: "ebool",
+            name: "fundingCheck",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "fundingCheckRequestedAt",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "fundingChecked",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "fundingGoalMet",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "fundsReleased",
+            type: "bool",
+          },
+          {
+            internalType: "uint64",
+            name: "noiseBound",
+            type: "uint64",
+          },
+          {
+            internalType: "euint64",
+            name: "noisedContributions",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint64",
+            name: "noisedUsage",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint64",
+            name: "fundedContributors",
+            type: "bytes32",
+          },
+          {
+            internalType: "ebool",
+            name: "summaryReleasable",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint64",
+            name: "releasedContributions",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint64",
+            name: "releasedUsage",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct ReFiInfraDAOFHE.Batch",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchSummary",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "requestId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "totalContributions",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "totalUsage",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "overflowed",
+            type: "bool",
+          },
+          {
+            internalType: "uint64",
+            name: "noiseBound",
+            type: "uint64",
+          },
+          {
+            internalType: "uint256",
+            name: "decryptedAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct ReFiInfraDAOFHE.BatchSummary",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "contributor",
+        type: "address",
+      },
+    ],
+    name: "getContributionHistory",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+    ],
+    name: "getProject",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "creator",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "treasury",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "title",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "category",
+            type: "string",
+          },
+          {
+            internalType: "bytes32",
+            name: "metadataHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct ReFiInfraDAOFHE.Project",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+    ],
+    name: "getProjectBatches",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleMemberCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleMembers",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "getUsageBreakdown",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "providers",
+        type: "address[]",
+      },
+      {
+        internalType: "euint64[]",
+        name: "usage",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "contributor",
+        type: "address",
+      },
+    ],
+    name: "grantContributionAccess",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "balance",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "grantUsageAccess",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "usage",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasReportedUsage",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "isAcceptingContributions",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isProvider",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "listBatches",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "projectId",
+            type: "uint256",
+          },
+          {
+            internalType: "enum ReFiInfraDAOFHE.BatchStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "openedAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "startTime",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "endTime",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "closedAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "decryptionRequestId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "decryptionRequestedAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "contributorCount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "providerCount",
+            type: "uint256",
+          },
+          {
+            internalType: "euint64",
+            name: "totalContributions",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint64",
+            name: "totalUsage",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint64",
+            name: "fundingTarget",
+            type: "bytes32",
+          },
+          {
+            internalType: "ebool",
+            name: "overflowed",
+            type: "bytes32",
+          },
+          {
+            internalType: "ebool",
+            name: "fundingCheck",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "fundingCheckRequestedAt",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "fundingChecked",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "fundingGoalMet",
+            type: "bool",
+          },
+          {
+            internalType: "bool",
+            name: "fundsReleased",
+            type: "bool",
+          },
+          {
+            internalType: "uint64",
+            name: "noiseBound",
+            type: "uint64",
+          },
+          {
+            internalType: "euint64",
+            name: "noisedContributions",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint64",
+            name: "noisedUsage",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint64",
+            name: "fundedContributors",
+            type: "bytes32",
+          },
+          {
+            internalType: "ebool",
+            name: "summaryReleasable",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint64",
+            name: "releasedContributions",
+            type: "bytes32",
+          },
+          {
+            internalType: "euint64",
+            name: "releasedUsage",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct ReFiInfraDAOFHE.Batch[]",
+        name: "page",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "listProjects",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "id",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "creator",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "treasury",
+            type: "address",
+          },
+          {
+            internalType: "string",
+            name: "title",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "category",
+            type: "string",
+          },
+          {
+            internalType: "bytes32",
+            name: "metadataHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct ReFiInfraDAOFHE.Project[]",
+        name: "page",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minContributorsForSummary",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minProvidersForSummary",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "projectId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "startTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedTarget",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "openBatch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pendingOwner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "projectCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "providerStaking",
+    outputs: [
+      {
+        internalType: "contract IProviderStaking",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "releaseFunds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedUsage",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "reportDeviceUsage",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedUsage",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "reportUsage",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address[]",
+        name: "devices",
+        type: "address[]",
+      },
+      {
+        internalType: "externalEuint64[]",
+        name: "encryptedReadings",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "reportUsageBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestBatchSummaryDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestFundingCheck",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "revenueDistributor",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "minContributors",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "minProviders",
+        type: "uint256",
+      },
+    ],
+    name: "setAnonymityThresholds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint64",
+        name: "noiseBound",
+        type: "uint64",
+      },
+    ],
+    name: "setBatchNoise",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newDecryptionTimeout",
+        type: "uint256",
+      },
+    ],
+    name: "setDecryptionTimeout",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newRegistry",
+        type: "address",
+      },
+    ],
+    name: "setDeviceRegistry",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "contract IProviderStaking",
+        name: "newStaking",
+        type: "address",
+      },
+    ],
+    name: "setProviderStaking",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newDistributor",
+        type: "address",
+      },
+    ],
+    name: "setRevenueDistributor",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitContribution",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "usageOf",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a0604090808252346200020257602081620060f7803803809162000025828562000236565b833981010312620002025751906001600160a01b0380831680840362000202575f60608451620000558162000206565b82815282602082015282868201520152825190620000738262000206565b606073687820221192c5b662b25367f70076a37bc79b6c9283815273848b0066793bcc60346da1f49049357399b8d59580602083015273a02cda4ca3a71d7c46997716f4283aa851c28812918288820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319947f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090868254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908382541617905515620001f157620001b6929360805233905f5416175f55620001ad336200025a565b5f541662000384565b603c60095562015180600a556003600b556002600c5551615b7f908162000558823960805181818161110001528181612b230152614f4f0152f35b825163e6c4247b60e01b8152600490fd5b5f80fd5b608081019081106001600160401b038211176200022257604052565b634e487b7160e01b5f52604160045260245ffd5b601f909101601f19168101906001600160401b038211908210176200022257604052565b6001600160a01b0316801562000372575f8181527fd8ef4509105c3edb0b04658b4528edc5ddd30ea5a81e623a2623c88db1eb54b66020908152604091829020547fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c2177593929060ff166200036c57835f5260058252805f20835f528252805f20600160ff19825416179055835f5260068252805f208054906801000000000000000082101562000222576001820180825582101562000358575f52825f20018360018060a01b0319825416179055835f5260068252805f20549160078152815f2090845f52525f205533915f80516020620060d78339815191525f80a4565b634e487b7160e01b5f52603260045260245ffd5b50505050565b60405163e6c4247b60e01b8152600490fd5b6001600160a01b0390811690811562000372575f8281527ff5cc800c3a437e97cb02bbfb17d2ceb7c94047f8b80d742c9c80a3189dcfe2c86020908152604091829020547f18d9ff454de989bd126b06bd404b47ede75f9e65543e94e8d212f89d7dcbb87c939192919060ff16620005505760035416828115159182620004d3575b5050620004c357825f5260058252805f20845f528252805f20600160ff19825416179055825f5260068252805f208054906801000000000000000082101562000222576001820180825582101562000358575f52825f20018460018060a01b0319825416179055825f5260068252805f20549160078152815f2090855f52525f20558133915f80516020620060d78339815191525f80a47fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2565b516337c2e99960e21b8152600490fd5b60249250835192838092630c2effa360e31b82528960048301525afa90811562000546575f9162000509575b5015825f62000406565b90508281813d83116200053e575b62000523818362000236565b81010312620002025751801515810362000202575f620004ff565b503d62000517565b82513d5f823e3d90fd5b505050505056fe6080806040526004361015610012575f80fd5b5f905f3560e01c90816301df027f146135255750806305261aea1461344057806306f13056146134235780630a24cf5f146133345780630f50d8131461330d57806312439bc9146132b4578063124bd04b1461329d5780631266d4b714613225578063179f9e65146131b9578063224c2a9c1461319c57806324c20a3414613175578063277f9e40146130ff5780632f2ff15d14613081578063362af2461461306457806336fbad26146130475780633722b35414612ff557806338e98a2914612eef5780633ad548e914612d0a5780633eb66ceb14612c905780633f4ba83a14612bf157806346e2577a14612bbe578063488c3f4714612b7a57806348f2bb2214612b525780634bedf9a814612b0e5780634d68282f14612a125780635161fbe11461290557806351d5d7f614612887578063566418c1146128285780635a94a079146127f05780635ac44282146126705780635b7baf64146125475780635c0fea13146124da5780635c975abb146124b85780635ddd9f52146120705780635e7ccbe9146120275780635efb870a14611fff5780636238ab8914611e755780636813947f14611e315780636b074a0714611de35780636e1d616e14611da95780636f03a45e14611d4a5780637137a23e14611cde57806375b238fc14611ca457806379ba509714611c2a5780637b5b115714611bcb5780637de9639a14611aea5780638456cb5914611a0a5780638a355a57146119d55780638ba75a56146119355780638da5cb5b1461190e57806391d14854146118c557806392a5b0021461179c578063a3246ad31461171b578063a4365476146116e3578063a94015c8146116a9578063acb0e3b814611079578063b65e894114611026578063b8221bc414611008578063c6c8276b14610ebe578063c76f27b814610ea2578063c9e8bfa314610e26578063ca15c87314610dfc578063d2c411d314610d1b578063d547741f14610c52578063da1f12ab14610c35578063e30c397814610c0c578063e63ab1e914610bd1578063e8737ac7146109d2578063eae0a488146109a9578063ef778d30146104e5578063f0f3f2c81461043e578063f2fde38b146103a95763f3f7932b14610341575f80fd5b346103a6576103586103523661353f565b90614074565b604051906020808301906020845282518092526020604085019301945b8281106103825784840385f35b90919282610360826103976001948a5161382b565b01960191019492919094610375565b80fd5b50346103a65760203660031901126103a6576103c36136ff565b81546001600160a01b03908116913383900361042c571690811561041a57600180546001600160a01b031916831790557f38d16b8cac22d99fc7c124b9cd0de2d3fa1faef420bfe791d8c362d765e227008380a380f35b60405163e6c4247b60e01b8152600490fd5b6040516330cd747160e01b8152600490fd5b50346103a65760203660031901126103a657610458613ce4565b506104e1610467600435614e06565b600660405191610476836135ce565b8054835260018101546001600160a01b03908116602085015260028201541660408401526104a660038201613d8e565b60608401526104b760048201613d8e565b6080840152600581015460a0840152015460c08201526040519182916020835260208301906137c3565b0390f35b50346103a65760803660031901126103a6576104ff6136ff565b906024356001600160401b0381116109a55761051f903690600401613750565b90926044356001600160401b0381116109a157610540903690600401613750565b909460018060a01b0385541633141580610973575b6109485760ff60085416610936576001600160a01b0383161561041a5761057d600f54613c62565b9485600f5560405161058e816135ce565b86815260208101913383526040820160018060a01b03871681526105b3368987613640565b90606084019182526105c636888d613640565b608085015260643560a08501524260c08501528983526010602052604083208451815594516001860180546001600160a01b03199081166001600160a01b039384161790915591516002870180549093169116179055518051906001600160401b03821161092257819061063d6003870154613d56565b601f81116108d2575b50602090601f831160011461086957849261085e575b50508160011b915f199060031b1c19161760038401555b6080820151908151916001600160401b03831161084a576106976004860154613d56565b601f8111610806575b5091818a97959360209c979593508c91601f84116001146107695761072e94847fd6803c2bd1acf52fa5a0ec0be70b7070a23e01545b3f6261dd61b052b424a0c19a989561073b9a989560069560c0959261075e575b50508160011b915f199060031b1c19161760048501555b60a0810151600585015501519101556040519860608a5260608a0191614054565b918783038a890152614054565b60643560408601526001600160a01b0390931693339381900390a4604051908152f35b015190505f806106f6565b91906004860183528d8320925b601f19851681106107ec575061072e9460018561073b9a989560069560c0957fd6803c2bd1acf52fa5a0ec0be70b7070a23e01545b3f6261dd61b052b424a0c19e9c99601f198116106107d4575b505050811b01600485015561070d565b01515f1960f88460031b161c191690555f80806107c4565b8183015184558d9a50600190930192918e01918e01610776565b60048601835260208320601f850160051c810160208610610843575b601f830160051c820181106108385750506106a0565b5f8155600101610822565b5080610822565b634e487b7160e01b82526041600452602482fd5b015190505f8061065c565b600387018552602085209250601f198416855b8181106108ba57509084600195949392106108a2575b505050811b016003840155610673565b01515f1960f88460031b161c191690555f8080610892565b9293602060018192878601518155019501930161087c565b90915060038601845260208420601f840160051c81016020851061091b575b90849392915b601f830160051c8201811061090d575050610646565b5f81558594506001016108f7565b50806108f1565b634e487b7160e01b83526041600452602483fd5b604051633b3b4caf60e21b8152600490fd5b6040516301d4003760e61b81525f80516020615b538339815191526004820152336024820152604490fd5b505f80516020615b538339815191528552600560205260408520335f5260205260ff60405f20541615610555565b8380fd5b5080fd5b50346103a657806003193601126103a6576002546040516001600160a01b039091168152602090f35b50346103a65760803660031901126103a6576004356001600160401b036024358181116109a157610a079036906004016139d1565b9092604435838111610bcd57610a219036906004016139d1565b9093606435908111610bc957610a3b903690600401613750565b93909560018060a01b03948589541633141580610b9b575b610b705760ff6008541661093657338952602097600d602052610a7d60408b205460095490613d1b565b4210610b5e5784158015610b54575b8015610b4a575b610b3857610aa186336155b9565b948a5b818110610abd578b338152600d60205242604082205580f35b610add610acb82848d614044565b35610ad7368787613640565b90614e3e565b90610ae982338a6156b8565b610af4818888614044565b358a8116809103610b3457896001937f3874cce0c86b949239000e3da24721680ef5a77256aead5d6140ba36d77ed4548f6040519283523392a401610aa4565b8d80fd5b604051631f4468d160e21b8152600490fd5b5084841415610a93565b50600d8511610a8c565b60405163aa9a98df60e01b8152600490fd5b6040516301d4003760e61b81525f80516020615b338339815191526004820152336024820152604490fd5b505f80516020615b338339815191528952600560205260408920335f5260205260ff60405f20541615610a53565b8680fd5b8580fd5b50346103a657806003193601126103a65760206040517f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a8152f35b50346103a657806003193601126103a6576001546040516001600160a01b039091168152602090f35b50346103a657806003193601126103a65760206040516127118152f35b50346103a65760403660031901126103a657600435610c6f6136e9565b82546001600160a01b031633141580610cda575b610c9c5781610c94610c9993614b7d565b6151fb565b80f35b6040516301d4003760e61b81527fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c217756004820152336024820152604490fd5b507fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c217758352600560205260408320335f5260205260ff60405f20541615610c83565b50346103a65760203660031901126103a65760043560018060a01b0382541633141580610dce575b6109485760ff6008541661093657610d5a8161428d565b60028101805460ff81166005811015610dba57610da85760019060ff19161790556006429101557f0d12a96208f78b6b173d4bc5f7de1d8a9377c4e33639c8ef954056f7d35085878280a280f35b60405163f84b8daf60e01b8152600490fd5b634e487b7160e01b86526021600452602486fd5b505f80516020615b538339815191528252600560205260408220335f5260205260ff60405f20541615610d43565b50346103a65760203660031901126103a65760406020916004358152600683522054604051908152f35b50346103a65760203660031901126103a657610e4360043561428d565b60ff6002820154166005811015610e8e5760209250159081610e7f575b81610e71575b506040519015158152f35b60059150015442105f610e66565b60048101544210159150610e60565b634e487b7160e01b83526021600452602483fd5b50346103a657806003193601126103a6576020604051600d8152f35b50346103a657602090816003193601126103a65760043590610edf8261428d565b50818152601883526040812092604051808583829754938481520190855283852092855b85828210610fe957505050610f1a9250038561361f565b835191610f3f610f2984613ccd565b93610f37604051958661361f565b808552613ccd565b8383019490601f1901368637815b8651811015610f93578183526017845260408320600191906001600160a01b03610f77838b613d42565b51165f52855260405f2054610f8c8288613d42565b5201610f4d565b50509091610fb294939280604051968796604088526040880190613995565b928684038288015251928381520193925b828110610fd257505050500390f35b835185528695509381019392810192600101610fc3565b85546001600160a01b031684526001958601958a955093019201610f03565b50346103a657806003193601126103a6576020600954604051908152f35b50346103a65760203660031901126103a6576040906004358152601a6020522080546104e160ff600260018501549401541660405193849384919260409194936060840195845260208401521515910152565b5034611470576110883661395f565b9060ff6008541661093657335f52602092600d84526110ae60405f205460095490613d1b565b4210610b5e576110bd8561428d565b9260ff600285015416600581101561169557610da857600484015442108015611687575b611675576110f492610ad7913691613640565b9160018060a01b0391827f000000000000000000000000000000000000000000000000000000000000000016835f80516020615b138339815191525416803b1561147057604051630f8e573b60e21b8152600481018790526001600160a01b0383166024820152905f908290604490829084905af1801561166a57611651575b509082879260646040518095819363eb3155b560e01b83523360048401523060248401528a60448401525af1918215611646578792611617575b508680600b8301936111c28186548661533b565b9555848115611607575b86861594856115f3575b5f80516020615af383398151915280546040516303056db360e31b8152600481019690965260248601949094526001600160f81b03198216604486015293928391908b1690829081606481015b03925af19081156115e85783916115b4575b506112409033614f32565b508882526015865260408220335f52865260405f2054938415948561158b575b9461157b575b8493851561156b575b88835416946040519063f77f3f1d60e01b825260048201525f6024820152888160648188600160f81b9a8b60448401525af1958615611560578991869761152e575b50889261151e575b60648b865416938760405195869485936336024b2f60e21b855260048501525f602485015260448401525af180156114bc57889185916114e7575b509380958561134e95969082156114d6575b156114c7575b865460405163d99882d560e01b8152600481019390935260248301919091526001600160f81b03198316604483015290948592918c1691839182906064820190565b03925af19081156114bc5787928592611486575b506014604491019889549454169160405195869384926307227b9160e21b84526004840152600560248401525af191821561147b578992611424575b50917fddcf6f2e63428d95208b23984bc18ef32812a8421c2b857205a3135a2d95bfbe956113d361140b95936113e495615535565b906113de308361584b565b55615535565b8587526015835260408720335f5283528060405f2055611404308261584b565b339061584b565b338552600d81524260408620556040519283523392a380f35b939150918484813d8311611474575b61143d818361361f565b810103126114705792519092917fddcf6f2e63428d95208b23984bc18ef32812a8421c2b857205a3135a2d95bfbe61139e565b5f80fd5b503d611433565b6040513d8b823e3d90fd5b92839195508092503d83116114b5575b6114a0818361361f565b81010312611470575189928691906014611362565b503d611496565b6040513d86823e3d90fd5b506114d1826159fb565b61130c565b91506114e1836159fb565b91611306565b9394505082813d8311611517575b6114ff818361361f565b810103126114705790518a929190879061134e6112f4565b503d6114f5565b915061152861595c565b916112b9565b9550955084813d8311611559575b611546818361361f565b8101031261147057878c9451955f6112b1565b503d61153c565b6040513d87823e3d90fd5b935061157561595c565b9361126f565b935061158561595c565b93611266565b3384526016885261159f8b60408620613c99565b600982016115ad8154613c62565b9055611260565b809350878092503d83116115e1575b6115cd818361361f565b81010312611470576112408a925190611235565b503d6115c3565b6040513d85823e3d90fd5b611223925061160061595c565b92506111d6565b905061161161595c565b906111cc565b9091508281813d831161163f575b61162f818361361f565b810103126114705751905f6111ae565b503d611625565b6040513d89823e3d90fd5b839750611660909291926135bb565b5f96919091611174565b6040513d5f823e3d90fd5b60405163f8277c0d60e01b8152600490fd5b5060058401544210156110e1565b634e487b7160e01b5f52602160045260245ffd5b34611470575f3660031901126114705760206040517f72c3eec1760bf69946625c2d4fb8e44e2c806345041960b434674fb9ab3976cf8152f35b34611470576020366003190112611470576001600160a01b036117046136ff565b165f52600d602052602060405f2054604051908152f35b3461147057602080600319360112611470576004355f526006815260405f20906040518083838295549384815201905f52835f20925f5b8582821061177d575050506117699250038361361f565b6104e1604051928284938452830190613995565b85546001600160a01b0316845260019586019588955093019201611752565b34611470576117aa366136a3565b9190815f526020601b815260ff600260405f200154166118b357825f52601b815260405f205493845f526013825260405f209061180a6040516117ec816135e9565b60018152843681830137600f84015461180482613d35565b5261495d565b855f52601b8452600160405f200154036118a157611829908486614994565b8183805181010312611470576011611863837fe334d1b7a0201f98a6fa0b4695a42e73dc84c48e9c7d5e643c2b69fcfacea0ef9501613a15565b91855f52601b8452600260405f2001600160ff1982541617905501600181549215159261ff008460081b169061ffff191617179055604051908152a3005b6040516313b304fb60e21b8152600490fd5b60405163faf8ed4f60e01b8152600490fd5b34611470576040366003190112611470576118de6136e9565b6004355f52600560205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b34611470575f366003190112611470575f546040516001600160a01b039091168152602090f35b34611470576119433661395f565b929160018060a01b035f5416331415806119b0575b610b705760ff6008541661093657335f52600d60205261197f60405f205460095490613d1b565b4210610b5e57610ad76119979261199e953691613640565b9033615046565b335f52600d6020524260405f20555f80f35b50335f9081525f80516020615ad3833981519152602052604090205460ff1615611958565b34611470576020366003190112611470576119ee6136ff565b5f546001600160a01b0316330361042c57611a0890615094565b005b34611470575f366003190112611470575f546001600160a01b031633141580611ab2575b611a745760085460ff81166109365760019060ff1916176008557f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a2586020604051338152a1005b6040516301d4003760e61b81527f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a6004820152336024820152604490fd5b50335f9081527f99f2891db7a8db76249871a02b43b68c0bb8f22ef8a3bc1034ae9375ef6b7c3c602052604090205460ff1615611a2e565b3461147057608036600319011261147057611b036136ff565b6064356001600160401b03811161147057611b22903690600401613750565b60ff60089392935416610936576004546001600160a01b039081163303611bb95782165f8181525f80516020615ad383398151915260205260409020545f80516020615b33833981519152919060ff1615611b9b57611a0884611b91611b8936878a613640565b604435614e3e565b9060243590615046565b60449250604051916301d4003760e61b835260048301526024820152fd5b60405163311da57f60e01b8152600490fd5b34611470576020366003190112611470575f54600435906001600160a01b0316330361042c5760407ff7936cbb6fd8accff179e9d4552814b6a749fd30430b36c219fbda11bbfb004b91600954908060095582519182526020820152a1005b34611470575f366003190112611470576001546001600160a01b038082169133839003611c92575f54906001600160601b0360a01b9084828416175f5516600155167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a3005b604051630614e5c760e21b8152600490fd5b34611470575f3660031901126114705760206040517fa49807205ce4d355092ef5a8a18f56e8913cf4a201fbe287825b095693c217758152f35b3461147057602036600319011261147057611cf76136ff565b5f546001600160a01b03908116330361042c5780600454921691826001600160601b0360a01b821617600455167feb945d6cdf850d4508bd905390d328930beaa272456f431abf14a3c1e0caa0635f80a3005b34611470576020366003190112611470575f54600435906001600160a01b0316330361042c5760407f71a60f22ca0973512d4c4dbe88f7b19afe4aaf34846d131cbf08fe158460bbbb91600a549080600a5582519182526020820152a1005b34611470575f3660031901126114705760206040517f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f58152f35b3461147057602036600319011261147057611dfc6136ff565b6001600160a01b03165f9081525f80516020615ad3833981519152602090815260409182902054915160ff9092161515825290f35b3461147057604036600319011261147057611e4a6136e9565b6004355f52601560205260405f209060018060a01b03165f52602052602060405f2054604051908152f35b34611470576040366003190112611470576004356024356001600160401b03808216808303611470575f546001600160a01b031633141580611fc7575b6109485760ff6008541661093657611ec98461428d565b9160ff6002840154166005811015611695578015159081611fbb575b50611fa9578115159081611f7d575b50611f6b576012820154611f59577f95473d9faa65adf31b10be56803a9a0f8e44c9659c961d4a374f06e2f05f275c92601160209301906affffffffffffffff00000082549160181b16906affffffffffffffff0000001916179055604051908152a2005b60405163fdd331db60e01b8152600490fd5b60405163568c5d7b60e11b8152600490fd5b90505f198201818111611f9557841616151585611ef4565b634e487b7160e01b5f52601160045260245ffd5b604051633d84158f60e21b8152600490fd5b60019150141586611ee5565b50335f9081527f0f462f80136df4eec61415fe0471554d64224bb920e55527497f02430b4c0a81602052604090205460ff1615611eb2565b34611470575f366003190112611470576004546040516001600160a01b039091168152602090f35b34611470576040366003190112611470576120406136e9565b6004355f52601960205260405f209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b34611470576020806003193601126114705760043560ff6008541661093657335f52600e82526120a760405f205460095490613d1b565b4210610b5e576120b68161428d565b9160ff60028401541660058110156116955780159081156124ad575b5061249b5760ff60118401541661248957600f83018054909190156123c6576121026010850154600a5490613d1b565b42106123b4575b60405193612116856135e9565b6001946001815282810193833686375461212f82613d35565b526121398161495d565b955f947f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf009283549660018060a01b03805f80516020615b138339815191525416803b15611470575f6040518092637d6e912360e11b82528b60048301528183816121a6602482018b61492a565b03925af1801561166a576123a1575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b156109a557816040518092633263b83b60e01b82528b60048301526060602483015281838161220d606482018a61492a565b634952d80160e11b604483015203925af1801561239657908291612382575b508890527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018088526040822054612370578882528752604081209151926001600160401b03841161084a57600160401b841161084a578254848455808510612349575b50918152868120905b83811061233857508888600e89896123028f8b6122b58154613c62565b90556002604051916122c6836135a0565b88835285830190815260408301905f8252885f52601b875260405f209351845551600184015551151591019060ff801983541691151516179055565b601042910155335f52524260405f20557f734bc998b8a1cf8d4c49cd8493290dd328f5ae2c23ca2c1083175dad1a8b8e175f80a3005b825182820155918701918401612298565b83835285858a852092830192015b82811061236557505061228f565b5f8155018690612357565b604051633f06d22b60e01b8152600490fd5b61238b906135bb565b6103a657808b61222c565b6040513d84823e3d90fd5b6123ac9192506135bb565b5f908b6121b5565b6040516346aa15df60e11b8152600490fd5b600b84015481600d8601548215612479575b801561246b575b606460018060a01b035f80516020615af38339815191525416935f6040519586948593631391547f60e01b8552600485015260248401528160448401525af190811561166a575f9161243e575b50612437308261584b565b8255612109565b90508181813d8311612464575b612455818361361f565b8101031261147057518561242c565b503d61244b565b5061247461595c565b6123df565b915061248361595c565b916123d8565b604051632b68a0e360e01b8152600490fd5b6040516319417b1d60e21b8152600490fd5b6004915014846120d2565b34611470575f36600319011261147057602060ff600854166040519015158152f35b34611470576020366003190112611470576004356001600160a01b038181169182900361147057805f5416330361042c57600354826001600160601b0360a01b821617600355167fd87a047b4d730d5ea0278216888bb3ef8b51cf1fea64be08b28c55019943d2135f80a3005b3461147057602080600319360112611470576004359060ff60085416610936576125708261428d565b601181015460ff81169182612660575b6002015460ff16600581101561169557600414159182612657575b508115612649575b5061263757815f526015815260405f20335f52815260405f20548015612625576126197f21e17fa1aec740682e598e4cb9a3d978637ae9fc50bc8645ce9cd3d57009fcf2916126136125f361595c565b865f526015865260405f20335f5286528060405f2055611404308261584b565b33614f32565b916040519283523392a3005b60405163f76aef6560e01b8152600490fd5b604051630b4d698160e01b8152600490fd5b60ff915060101c16836125a3565b1591508461259b565b600882901c60ff16159250612580565b3461147057602036600319011261147057612689613f83565b5061269560043561428d565b6040516126a181613584565b815481526001820154602082015260ff6002830154166005811015611695576103609260179160408401526003810154606084015260048101546080840152600581015460a0840152600681015460c0840152600781015460e084015260088101546101008401526009810154610120840152600a810154610140840152600b810154610160840152600c810154610180840152600d8101546101a0840152600e8101546101c0840152600f8101546101e084015260108101546102008401526001600160401b03601182015460ff8116151561022086015260ff8160081c16151561024086015260ff8160101c16151561026086015260181c1661028084015260128101546102a084015260138101546102c084015260148101546102e08401526015810154610300840152601681015461032084015201546103408201526127ee604051809261382b565bf35b34611470576020366003190112611470576001600160a01b036128116136ff565b165f52600e602052602060405f2054604051908152f35b346114705760203660031901126114705760ff6008541661093657335f52600e60205261285c60405f205460095490613d1b565b4210610b5e5761287561287060043561428d565b6142e7565b335f52600e6020524260405f20555f80f35b3461147057602080600319360112611470576004356128a581614e06565b505f52601160205260405f20906040519081602084549182815201935f5260205f20915f905b8282106128ee576104e1856128e28189038261361f565b60405191829182613715565b8354865294850194600193840193909101906128cb565b34611470576040366003190112611470576004356129216136e9565b6002546001600160a01b0392908316331415806129da575b61299c57602092815f526017845260405f20921691825f52835260405f2054908161298d575b6040519233917f8dd38b7ff8814edd1bb96f6848f1c4d87e53a9ceb0abda933ed8041d2f93570a5f80a48152f35b612997338361584b565b61295f565b6040516301d4003760e61b81527f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f56004820152336024820152604490fd5b50335f9081527f318595587b435248c1c0d84f694e524594f9c16fb93ac19f9f10a29801474579602052604090205460ff1615612939565b346114705760203660031901126114705760043560ff6008541661093657612a398161428d565b9060ff600283015416600581101561169557600414611fa95760118201805460ff8116158015612b00575b612aee5760ff8160101c16612adc57620100009062ff00001916179055600182019081545f5260106020527f86da51fc4a5550b8bf9db1016746742fb3d9760fc22b5554bf66756d94ef757f6020612ad0600b60018060a01b03600260405f2001541696015486614f32565b935493604051908152a4005b604051635c1508a760e01b8152600490fd5b6040516379057fdf60e01b8152600490fd5b5060ff8160081c1615612a64565b34611470575f366003190112611470576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b34611470575f366003190112611470576003546040516001600160a01b039091168152602090f35b3461147057604036600319011261147057612b936136e9565b6004355f52601760205260405f209060018060a01b03165f52602052602060405f2054604051908152f35b3461147057602036600319011261147057612bd76136ff565b5f546001600160a01b0316330361042c57611a0890614c22565b34611470575f366003190112611470575f546001600160a01b031633141580612c58575b611a745760085460ff8116156109365760ff19166008557f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa6020604051338152a1005b50335f9081527f99f2891db7a8db76249871a02b43b68c0bb8f22ef8a3bc1034ae9375ef6b7c3c602052604090205460ff1615612c15565b3461147057612ca7612ca13661353f565b90613e30565b60405160209160208201926020835281518094526040830193602060408260051b8601019301915f955b828710612cde5785850386f35b909192938280612cfa600193603f198a820301865288516137c3565b9601920196019592919092612cd1565b346114705760a0366003190112611470576044356024356004356084356001600160401b03811161147057612d43903690600401613750565b9360018060a01b035f541633141580612eb7575b6109485760ff6008541661093657612d6e83614e06565b50838111801590612ead575b612e9b576040612e58947f15adb43cbdf47dbcfd7a0c0200e867cc766e213be67d5f3b1fa1754e3a6a8aaf92612e76600d602099612e60612dbc601254613c62565b9a8b998a6012558a5f5260138e52885f20938b85558c60018601556002850160ff198154169055426003860155886004860155876005860155612dfd61595c565b612e07308261584b565b600b860155612e1461595c565b612e1e308261584b565b600c860155612e2b6159af565b612e35308261584b565b600e860155612e4261595c565b612e4c308261584b565b60148601553691613640565b606435614e3e565b918291612e6d308461584b565b0155339061584b565b855f5260118852612e8985845f20613c99565b825191825287820152a3604051908152f35b60405163ae16a1e560e01b8152600490fd5b5042811115612d7a565b50335f9081527f0f462f80136df4eec61415fe0471554d64224bb920e55527497f02430b4c0a81602052604090205460ff1615612d57565b34611470576020366003190112611470576004355f60a0604051612f1281613555565b828152826020820152826040820152826060820152826080820152015260ff6002612f3c8361428d565b015416600581101561169557600303612fe3575f52601460205260c060405f20604051612f6881613555565b81549182825260018101546020830190815260028201549060408401918252600383015491606085019160ff84161515835260a060046001600160401b03968760808a019760081c168752015496019586526040519687525160208701525160408601525115156060850152511660808301525160a0820152f35b604051630844440f60e21b8152600490fd5b34611470576020366003190112611470576004355f52601b60205260405f2080546104e160ff600260018501549401541660405193849384919260409194936060840195845260208401521515910152565b34611470575f366003190112611470576020600f54604051908152f35b34611470575f366003190112611470576020600c54604051908152f35b346114705760403660031901126114705760043561309d6136e9565b5f546001600160a01b0316331415806130c7575b610c9c57816130c2611a0893614b7d565b614d13565b50335f9081527fd8ef4509105c3edb0b04658b4528edc5ddd30ea5a81e623a2623c88db1eb54b6602052604090205460ff16156130b1565b3461147057602080600319360112611470576001600160a01b036131216136ff565b165f52601660205260405f20906040519081602084549182815201935f5260205f20915f905b82821061315e576104e1856128e28189038261361f565b835486529485019460019384019390910190613147565b34611470575f3660031901126114705760206040515f80516020615b338339815191528152f35b34611470575f366003190112611470576020600b54604051908152f35b34611470576020366003190112611470576131d26136ff565b5f546001600160a01b03908116330361042c5780600254921691826001600160601b0360a01b821617600255167fcc5fe857f3534fca9d2da9d9358d0217abe254ebe721aaae8fc5c2e0bc14b36a5f80a3005b346114705760403660031901126114705761323e6136e9565b6002546001600160a01b03908116330361328b576004355f52601560205260405f2091165f52602052602060405f20548061327c575b604051908152f35b613286338261584b565b613274565b60405163182a3a8f60e01b8152600490fd5b3461147057611a086132ae366136a3565b91613a22565b34611470576132c23661353f565b5f546001600160a01b0316330361042c57816040917f5b096edd405cf02c2cca743de348007d0d42dfebaa135069a47f1e88bbcb0c6593600b5580600c5582519182526020820152a1005b34611470575f3660031901126114705760206040515f80516020615b538339815191528152f35b346114705760203660031901126114705760043560018060a01b035f5416331415806133eb575b610948576133688161428d565b6002810190815460ff811660058110156116955780151590816133df575b50611fa95760ff601183015460101c16612adc576006600492018054156133d6575b5060ff19161790557f1ced0d1c8e8b8f4a42eabfd2c95761ded75ea1e0925f77edfb139bd09b8c3f575f80a2005b429055846133a8565b60019150141585613386565b50335f9081527f0f462f80136df4eec61415fe0471554d64224bb920e55527497f02430b4c0a81602052604090205460ff161561335b565b34611470575f366003190112611470576020601254604051908152f35b346114705760203660031901126114705760043560ff60085416610936576134678161428d565b60028101805460ff8116600581101561169557610da857600583015442106135135760ff19166001179055426006820155604051827f0d12a96208f78b6b173d4bc5f7de1d8a9377c4e33639c8ef954056f7d35085875f80a26134c9826142c5565b156134d95750611a0891506142e7565b60409082600a60097f6643036c49d79c277e98018e4b7b2ec756731c901dbd9ce9a569a42663017a319501549101549082526020820152a2005b60405163629f209360e11b8152600490fd5b34611470575f36600319011261147057602090600a548152f35b6040906003190112611470576004359060243590565b60c081019081106001600160401b0382111761357057604052565b634e487b7160e01b5f52604160045260245ffd5b61036081019081106001600160401b0382111761357057604052565b606081019081106001600160401b0382111761357057604052565b6001600160401b03811161357057604052565b60e081019081106001600160401b0382111761357057604052565b604081019081106001600160401b0382111761357057604052565b602081019081106001600160401b0382111761357057604052565b90601f801991011681019081106001600160401b0382111761357057604052565b9291926001600160401b0382116135705760405191613669601f8201601f19166020018461361f565b829481845281830111611470578281602093845f960137010152565b9080601f83011215611470578160206136a093359101613640565b90565b606060031982011261147057600435916001600160401b0360243581811161147057836136d291600401613685565b92604435918211611470576136a091600401613685565b602435906001600160a01b038216820361147057565b600435906001600160a01b038216820361147057565b60209060206040818301928281528551809452019301915f5b82811061373c575050505090565b83518552938101939281019260010161372e565b9181601f84011215611470578235916001600160401b038311611470576020838186019501011161147057565b5f5b83811061378e5750505f910152565b818101518382015260200161377f565b906020916137b78151809281855285808601910161377d565b601f01601f1916010190565b9081518152602082015160018060a01b038091166020830152604083015116604082015260c080613818613806606086015160e0606087015260e086019061379e565b6080860151858203608087015261379e565b9360a081015160a0850152015191015290565b805182526020810151602083015260408101516005811015611695576040830152606081015160608301526080810151608083015260a081015160a083015260c081015160c083015260e081015160e0830152610100808201519083015261012080820151908301526101408082015190830152610160808201519083015261018080820151908301526101a080820151908301526101c080820151908301526101e0808201519083015261020080820151908301526102208082015115159083015261024080820151151590830152610260808201511515908301526102806001600160401b038183015116908301526102a080820151908301526102c080820151908301526102e080820151908301526103008082015190830152610320808201519083015261034080910151910152565b6060600319820112611470576004359160243591604435906001600160401b0382116114705761399191600401613750565b9091565b9081518082526020808093019301915f5b8281106139b4575050505090565b83516001600160a01b0316855293810193928101926001016139a6565b9181601f84011215611470578235916001600160401b038311611470576020808501948460051b01011161147057565b51906001600160401b038216820361147057565b5190811515820361147057565b9091815f52602092601a845260409060ff6002835f20015416613c5157835f52601a8552815f205494855f5260138152825f209385600786015403613c4057613a72613a6d866148b1565b61495d565b865f52601a83526001855f20015403613c2f57613a90908387614994565b60808280518101031261147057613aa8818301613a01565b86613ab4858501613a01565b95613acd6080613ac660608801613a15565b9601613a15565b885f52601a85526002875f20019060ff199160018382541617905515613bdf57926004601196938360609996600360027fc32c7ab1ae0090d5818ad3c327501403c30035a2c25e8550152adc1809bac6709d9a9701918254161790556001600160401b03988991015460181c169488875194613b4886613555565b8d86521698858501988a8a5216958785018781528b8601921515998a84526080870192835260a08701944286525f5260148852895f2096518755516001870155516002860155613bab6003860192511515839060ff801983541691151516179055565b5168ffffffffffffffff0082549160081b169068ffffffffffffffff001916179055519101558251948552840152820152a3565b9394507f6643036c49d79c277e98018e4b7b2ec756731c901dbd9ce9a569a42663017a3197508095965060019250600291500191825416179055600a6009830154920154908351928352820152a2565b83516313b304fb60e21b8152600490fd5b83516319a03c9b60e11b8152600490fd5b815163faf8ed4f60e01b8152600490fd5b5f198114611f955760010190565b8054821015613c85575f5260205f2001905f90565b634e487b7160e01b5f52603260045260245ffd5b8054600160401b81101561357057613cb691600182018155613c70565b819291549060031b91821b915f19901b1916179055565b6001600160401b0381116135705760051b60200190565b60405190613cf1826135ce565b5f60c083828152826020820152826040820152606080820152606060808201528260a08201520152565b91908201809211611f9557565b91908203918211611f9557565b805115613c855760200190565b8051821015613c855760209160051b010190565b90600182811c92168015613d84575b6020831014613d7057565b634e487b7160e01b5f52602260045260245ffd5b91607f1691613d65565b9060405191825f8254613da081613d56565b908184526020946001916001811690815f14613e0e5750600114613dd0575b505050613dce9250038361361f565b565b5f90815285812095935091905b818310613df6575050613dce93508201015f8080613dbf565b85548884018501529485019487945091830191613ddd565b92505050613dce94925060ff191682840152151560051b8201015f8080613dbf565b9190600f549081841015613f6d578181613e5b93613e4f879485613d1b565b1115613f5d5750613d28565b91613e6583613ccd565b90604093613e76604051938461361f565b808352613e85601f1991613ccd565b015f5b818110613f46575050815f5b8351811015613f3f57613ea78184613d1b565b906001808301809311611f95576001925f52600660209160108352895f20908a5193613ed2856135ce565b82548552868060a01b03809284015416908501526002820154168a840152613efc60038201613d8e565b6060840152613f0d60048201613d8e565b6080840152600581015460a0840152015460c0820152613f2d8287613d42565b52613f388186613d42565b5001613e94565b5093505050565b602090613f51613ce4565b82828701015201613e88565b613f68915082613d1b565b613d28565b50509050604051613f7d81613604565b5f815290565b60405190613f9082613584565b5f610340838281528260208201528260408201528260608201528260808201528260a08201528260c08201528260e08201528261010082015282610120820152826101408201528261016082015282610180820152826101a0820152826101c0820152826101e08201528261020082015282610220820152826102408201528261026082015282610280820152826102a0820152826102c0820152826102e082015282610300820152826103208201520152565b9190811015613c855760051b0190565b908060209392818452848401375f828201840152601f01601f1916010190565b601280549093928183101561427c57818161409493613e4f869485613d1b565b9261409e84613ccd565b916040946140af604051948561361f565b8084526140be601f1991613ccd565b015f5b818110614265575050825f5b845181101561425d576140e08184613d1b565b90600191828101809111611f95575f52601391602092808452895f20938a519261410984613584565b855484528501549083015260ff93846002820154169160059283811015611695576001966017946001600160401b03928f880152600385015460608801526004850154608088015284015460a0870152600684015460c0870152600784015460e0870152806008808601546101008901526009860154610120890152600a860154610140890152600b860154610160890152600c860154610180890152600d8601546101a0890152600e8601546101c0890152600f8601546101e08901526010808701546102008a015260118701549384809382821615156102208d01521c1615156102408a01521c16151561026087015260181c16610280850152888201546102a08501528101546102c084015260148101546102e084015260158101546103008401526016810154610320840152015461034082015261424b8288613d42565b526142568187613d42565b50016140cd565b509450505050565b602090614270613f83565b828288010152016140c1565b5050509050604051613f7d81613604565b801580156142ba575b6142a8575f52601360205260405f2090565b604051633b98df6560e01b8152600490fd5b506012548111614296565b6009810154600b54111590816142d9575090565b600a91500154600c54111590565b60ff60028201541690600582101561169557600781015460028303614896576143176008830154600a5490613d1b565b42106123b4575b614327826142c5565b15614884576001600160401b036011830181815460181c1680151580614878575b614845575b505460181c16151561435d61595c565b906014840154906001600160401b03600b54168215614831575b5f80516020615af383398151915254604051631391547f60e01b815260048101949094526024840191909152600160f81b6044840152602090839060649082905f906001600160a01b03165af190811561166a575f916147fd575b5f92506143df308361584b565b8160158701558083146147f157602060128701545b606460018060a01b035f80516020615af38339815191525416916040519687938492637702dcff60e01b845288600485015260248401528960448401525af1801561166a575f906147be575b6020935061444e308261584b565b6016870155156147b15760646013860154915b5f60018060a01b035f80516020615af383398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af190811561166a575f9161477f575b506144b5308261584b565b60178301556144c3826148b1565b926144cd8461495d565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080545f80516020615b13833981519152549096905f906001600160a01b0316803b15611470575f6040518092637d6e912360e11b82526020600483015281838161453b602482018a61492a565b03925af1801561166a5761476e575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546001600160a01b0316803b156109a557816040518092633263b83b60e01b82528b6004830152606060248301528183816145aa606482018a61492a565b63124bd04b60e01b604483015203925af180156123965790829161475a575b508890527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018060205260408220546123705788825260205260408120908251926001600160401b03841161084a57600160401b841161084a578254848455808510614734575b5060200191815260208120905b838110614720575050505060029291816146596146a99354613c62565b9055838654916040519261466c846135a0565b83526020830190815260408301905f8252895f52601a60205260405f209351845551600184015551151591019060ff801983541691151516179055565b838201805460ff19168317905560078401859055426008850155146146f2575b5054907f81bca54e6c48c44ec959a5581796be73005cbde51156a29bae607f52e9baa16c5f80a3565b828254917fe38584d4dc21df9c26ecc699de57e0d286cd11dac8fa220f38ed2c3293a3bf6d5f80a45f6146c9565b60019060208451940193818401550161463c565b838352846020842091820191015b81811061474f575061462f565b5f8155600101614742565b614763906135bb565b6103a657805f6145c9565b61477891506135bb565b5f8061454a565b90506020813d6020116147a9575b8161479a6020938361361f565b8101031261147057515f6144aa565b3d915061478d565b6064600c86015491614461565b506020833d6020116147e9575b816147d86020938361361f565b810103126114705760209251614440565b3d91506147cb565b6020600b8701546143f4565b90506020823d602011614829575b816148186020938361361f565b81010312611470575f9151906143d2565b3d915061480b565b9150602061483d61595c565b929050614377565b61485390600b860154615735565b601285015561486d600c85015483835460181c1690615735565b60138501555f61434d565b50601285015415614348565b60405163234536cd60e11b8152600490fd5b600183031561431e576040516319417b1d60e21b8152600490fd5b9060405160a081018181106001600160401b0382111761357057604052600481526080366020830137809260168101546148ea83613d35565b526017810154825160011015613c85576040830152600e81015490825160021015613c85576015916060840152015490805160031015613c855760800152565b9081518082526020808093019301915f5b828110614949575050505090565b83518552938101939281019260010161493b565b60405161498e8161497a602082019460408652606083019061492a565b30604083015203601f19810183528261361f565b51902090565b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0191602091838352604093845f205415614b6c57855f528352835f209084518083868295549384815201905f52865f20925f5b88828210614b5657505050614a039250038361361f565b805180850190818611611f95578601809111611f9557614aa45f8694614a5289614ab79681519681614a3e89935180928d808701910161377d565b8201908a820152038881018752018561361f565b614ac660018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416948a51988997889687956378542ead60e01b875260606004880152606487019061492a565b600319938487830301602488015261379e565b9184830301604485015261379e565b03925af1918215614b4c575f92614b16575b505015614b0657507f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b5163cf6c44e960e01b8152600490fd5b90809250813d8311614b45575b614b2d818361361f565b8101031261147057614b3e90613a15565b5f80614ad8565b503d614b23565b83513d5f823e3d90fd5b85548452600195860195889550930192016149ec565b845163d66ca67560e01b8152600490fd5b5f80516020615b538339815191528114159081614bb6575b5080614ba2575b61042c57565b505f546001600160a01b0316331415614b9c565b7f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f5915014155f614b95565b90815491600160401b8310156135705782614c04916001613dce95018155613c70565b90919060018060a01b038084549260031b9316831b921b1916179055565b6001600160a01b03811690811561041a575f8281525f80516020615ad38339815191526020908152604091829020545f80516020615b33833981519152939192919060ff16614d0c5780614c78614ca4926158b2565b845f5260058452825f20865f528452825f20600160ff19825416179055845f5260068452825f20614be1565b825f5260068252805f20549160078152815f2090855f52525f20558133917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a47fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2565b5050505050565b6001600160a01b0382169190821561041a57805f526020600581526040805f20855f52825260ff815f205416614d0c57614d895f80516020615b3383398151915284149485614df8575b845f5260058452825f20875f528452825f20600160ff19825416179055845f5260068452825f20614be1565b825f5260068252805f20549160078152815f2090865f52525f20558233917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4614dd25750565b7fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2565b614e01816158b2565b614d5d565b80158015614e33575b614e21575f52601060205260405f2090565b604051632af342d760e21b8152600490fd5b50600f548111614e0f565b6020614e8e9260018060a01b0392835f80516020615af38339815191525416905f60405180978195829463196d0b9b60e01b8452600484015233602484015260806044840152608483019061379e565b6005606483015203925af191821561166a575f92614efe575b505f80516020615b138339815191525416803b1561147057604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af1801561166a57614ef5575090565b6136a0906135bb565b9091506020813d602011614f2a575b81614f1a6020938361361f565b810103126114705751905f614ea7565b3d9150614f0d565b5f80516020615b13833981519152545f92916001600160a01b03917f00000000000000000000000000000000000000000000000000000000000000008316908316803b1561147057604051630f8e573b60e21b8152600481018690526001600160a01b0383166024820152905f908290604490829084905af1801561166a57615029575b5060209291856044926040519687958694632df5f6bf60e11b865216600485015260248401525af191821561501d5791614fee575090565b90506020813d602011615015575b816150096020938361361f565b81010312611470575190565b3d9150614ffc565b604051903d90823e3d90fd5b60449195509161503b602094936135bb565b5f9591509192614fb6565b60207fa61497bfc6cafcede1f8c00240bde982ac41c3636ac6929e0bd1b92a1b2924f991939293615081848261507c88826155b9565b6156b8565b6040519384526001600160a01b031692a3565b6001600160a01b039081165f8181525f80516020615ad383398151915260209081526040918290205492935f80516020615b338339815191529360ff1615614d0c57835f5260068252825f209060078352835f20865f528352835f20545f1991828201828111611f9557845490848201918211611f9557614c049261511c61512d9388613c70565b90549060031b1c1692839187613c70565b865f5260078552855f20905f528452845f2055815480156151e757019061516c6151578383613c70565b81549060018060a01b039060031b1b19169055565b55825f5260078152815f20845f5281525f82812055825f5260058152815f2090845f52525f2060ff1981541690558133917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b5f80a47f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d95f80a2565b634e487b7160e01b5f52603160045260245ffd5b90815f52602091600583526040805f209360018060a01b0380941694855f52815260ff825f20541615614d0c57825f5260068152815f2060078252825f20865f528252825f20545f1995868201828111611f9557835490888201918211611f9557614c049261526d61527e9387613c70565b90549060031b1c1692839186613c70565b855f5260078452845f20905f528352835f205580549485156151e7575f80516020615b338339815191529501906152b86151578383613c70565b55825f5260078152815f20855f5281525f82812055825f5260058152815f2090855f52525f2060ff1981541690553383827ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b5f80a4146153155750565b7f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d95f80a2565b906004939261534a8183615535565b91600e6153578285615a4e565b94019384549281948415615525575b821561550f575b5f9394959660018060a01b03905f80516020615af383398151915298828a5416906040998a519d8e6363a2db2960e01b8152015260248d01528660448d01528b6064816020998a945af1908115615505575f916154d6575b5f9b506153d2308361584b565b55846153dc61595c565b936064838b5416918a519d8e938492637702dcff60e01b998a85528b6004860152602485015260448401525af180156154cc5785969798999a5f91615497575b50915f91606494939a5416908951988996879586526004860152602485015260448401525af192831561548e57505f92615460575b505061545d308261584b565b91565b90809250813d8311615487575b615477818361361f565b8101031261147057515f80615451565b503d61546d565b513d5f823e3d90fd5b86819395949792503d83116154c5575b6154b1818361361f565b81010312611470575185949192905f61541c565b503d6154a7565b87513d5f823e3d90fd5b9050858b813d83116154fe575b6154ed818361361f565b81010312611470575f9a51906153c5565b503d6154e3565b88513d5f823e3d90fd5b5f9394955061551c6159af565b9594935061536d565b935061552f6159af565b93615366565b9081156155a9575b8015615597575b602090606460018060a01b035f80516020615af38339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af190811561166a575f91614fee575090565b5060206155a261595c565b9050615544565b90506155b361595c565b9061553d565b91906155c4836158b2565b6155cd8161428d565b9260ff600285015416600581101561169557610da857815f526019602052604090815f209060018060a01b039081811692835f5260205260ff845f20541615615617575050505050565b61564a90855f526019602052845f20845f52602052845f20600160ff19825416179055855f526018602052845f20614be1565b600a86016156588154613c62565b905560035416928361566b575b80614d0c565b833b156114705760445f92838551968794859363016f8e3f60e61b8552600485015260248401525af190811561548e57506156a9575b808080615665565b6156b2906135bb565b5f6156a1565b613dce926156cc600c83019182548461533b565b915581545f5260176020526156ff60405f209160018060a01b03851692835f5260205260405f2054801561572757615535565b91545f52601760205260405f20905f526020528060405f2055615722308261584b565b61584b565b5061573061595c565b615535565b5f929160018060a01b03915f80516020615af3833981519152838154166001600160401b03604051946324777a3f60e11b865216600485015260056024850152836044816020998a945af1801561166a5786935f9161581a575b50905f61579e60649385615535565b956157a98588615a4e565b9254166040519687958694637702dcff60e01b86526004860152602485015260448401525af192831561166a575f936157ea575b5050613dce82309061584b565b9080929350813d8311615813575b615802818361361f565b810103126114705751905f806157dd565b503d6157f8565b8481939592503d8311615844575b615832818361361f565b8101031261147057518592905f61578f565b503d615828565b5f80516020615b13833981519152546001600160a01b031691823b1561147057604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af1801561166a576158a95750565b613dce906135bb565b6003546001600160a01b0390811680151592909190836158e8575b5050506158d657565b6040516337c2e99960e21b8152600490fd5b604051630c2effa360e31b8152911660048201529150602090829060249082905afa90811561166a575f91615922575b50155f80806158cd565b90506020813d602011615954575b8161593d6020938361361f565b810103126114705761594e90613a15565b5f615918565b3d9150615930565b5f80516020615af383398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af190811561166a575f91614fee575090565b5f602060018060a01b035f80516020615af38339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af190811561166a575f91614fee575090565b5f80516020615af383398151915254604051639cd07acb60e01b815260048101929092525f6024830181905260209183916044918391906001600160a01b03165af190811561166a575f91614fee575090565b908115615ac2575b8015615ab0575b602090606460018060a01b035f80516020615af38339815191525416935f6040519586948593637210768160e01b8552600485015260248401528160448401525af190811561166a575f91614fee575090565b506020615abb61595c565b9050615a5d565b9050615acc61595c565b90615a5656fef5cc800c3a437e97cb02bbfb17d2ceb7c94047f8b80d742c9c80a3189dcfe2c89e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970018d9ff454de989bd126b06bd404b47ede75f9e65543e94e8d212f89d7dcbb87c28eb28c26cbbd48a6bfad016505ccf4a189452995f59d16217af8920961ed25ca164736f6c6343000818000a2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d";
+
+type ReFiInfraDAOFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ReFiInfraDAOFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ReFiInfraDAOFHE__factory extends ContractFactory {
+  constructor(...args: ReFiInfraDAOFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    contributionToken_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(contributionToken_, overrides || {});
+  }
+  override deploy(
+    contributionToken_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(contributionToken_, overrides || {}) as Promise<
+      ReFiInfraDAOFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): ReFiInfraDAOFHE__factory {
+    return super.connect(runner) as ReFiInfraDAOFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ReFiInfraDAOFHEInterface {
+    return new Interface(_abi) as ReFiInfraDAOFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ReFiInfraDAOFHE {
+    return new Contract(address, _abi, runner) as unknown as ReFiInfraDAOFHE;
+  }
+}
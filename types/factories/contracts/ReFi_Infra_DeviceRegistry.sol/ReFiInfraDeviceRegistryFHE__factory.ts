@@ -0,0 +1,497 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  ReFiInfraDeviceRegistryFHE,
+  ReFiInfraDeviceRegistryFHEInterface,
+} from "../../../contracts/ReFi_Infra_DeviceRegistry.sol/ReFiInfraDeviceRegistryFHE";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract ReFiInfraDAOFHE",
+        name: "dao_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "DeviceAlreadyRegistered",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DeviceNotRegistered",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ECDSAInvalidSignature",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "length",
+        type: "uint256",
+      },
+    ],
+    name: "ECDSAInvalidSignatureLength",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "s",
+        type: "bytes32",
+      },
+    ],
+    name: "ECDSAInvalidSignatureS",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidAddress",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidShortString",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidSignature",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "MissingRole",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotDeviceProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "SignatureExpired",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "str",
+        type: "string",
+      },
+    ],
+    name: "StringTooLong",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "device",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "DeviceDeregistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "device",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "DeviceRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "device",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "relayer",
+        type: "address",
+      },
+    ],
+    name: "DeviceUsageRelayed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [],
+    name: "EIP712DomainChanged",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "USAGE_REPORT_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "dao",
+    outputs: [
+      {
+        internalType: "contract ReFiInfraDAOFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "device",
+        type: "address",
+      },
+    ],
+    name: "deregisterDevice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "eip712Domain",
+    outputs: [
+      {
+        internalType: "bytes1",
+        name: "fields",
+        type: "bytes1",
+      },
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "version",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "chainId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "verifyingContract",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "salt",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256[]",
+        name: "extensions",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "getProviderDevices",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "nonces",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "providerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "device",
+        type: "address",
+      },
+    ],
+    name: "registerDevice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "device",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedUsage",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "signature",
+        type: "bytes",
+      },
+    ],
+    name: "relayUsage",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "device",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedUsage",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+    ],
+    name: "usageReportDigest",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x61018034620001c757601f6200169838819003918201601f19168301926001600160401b0392909183851183861017620001b3578160209284926040978852833981010312620001c757516001600160a01b0381168103620001c75782516200006881620001cb565b60178152602081017f52654669496e667261446576696365526567697374727900000000000000000081528451620000a081620001cb565b6001815260208101603160f81b8152620000ba84620001e7565b92610120938452620000cc83620003b1565b94610140958652519020918260e052519020610100968188524660a05280519160208301937f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f85528284015260608301524660808301523060a083015260a0825260c082019682881090881117620001b3578690525190206080523060c05261016092835261113f948562000559863960805185610d01015260a05185610dcd015260c05185610ccb015260e05185610d5001525184610d760152518361065901525182610683015251818181610217015281816104b7015281816107bb01526109f50152f35b634e487b7160e01b5f52604160045260245ffd5b5f80fd5b604081019081106001600160401b03821117620001b357604052565b805160209081811015620002815750601f8251116200022257808251920151908083106200021457501790565b825f19910360031b1b161790565b90604051809263305a27a960e01b82528060048301528251908160248401525f935b82851062000267575050604492505f838284010152601f80199101168101030190fd5b848101820151868601604401529381019385935062000244565b906001600160401b038211620001b3575f54926001938481811c91168015620003a6575b838210146200039257601f81116200035c575b5081601f8411600114620002f657509282939183925f94620002ea575b50501b915f199060031b1c1916175f5560ff90565b015192505f80620002d5565b919083601f1981165f8052845f20945f905b8883831062000341575050501062000328575b505050811b015f5560ff90565b01515f1960f88460031b161c191690555f80806200031b565b85870151885590960195948501948793509081019062000308565b5f805284601f845f20920160051c820191601f860160051c015b82811062000386575050620002b8565b5f815501859062000376565b634e487b7160e01b5f52602260045260245ffd5b90607f1690620002a5565b8051602090818110156200043d5750601f825111620003de57808251920151908083106200021457501790565b90604051809263305a27a960e01b82528060048301528251908160248401525f935b82851062000423575050604492505f838284010152601f80199101168101030190fd5b848101820151868601604401529381019385935062000400565b9192916001600160401b038111620001b35760019182548381811c911680156200054d575b828210146200039257601f811162000517575b5080601f8311600114620004b35750819293945f92620004a7575b50505f19600383901b1c191690821b17905560ff90565b015190505f8062000490565b90601f19831695845f52825f20925f905b888210620004ff5750508385969710620004e6575b505050811b01905560ff90565b01515f1960f88460031b161c191690555f8080620004d9565b808785968294968601518155019501930190620004c4565b835f5283601f835f20920160051c820191601f850160051c015b8281106200054157505062000475565b5f815501849062000531565b90607f16906200046256fe60406080815260049081361015610014575f80fd5b5f905f3560e01c806303157ee314610a5d57806321338b3814610a245780634162169f146109e15780636dc7b9a5146107845780637ecebe001461074d57806384b0196e1461064257806395e7ca4c14610608578063a5f092ec146103cb578063ddd649961461031f5763f7062c1b1461008c575f80fd5b3461031b57602080600319360112610317576001600160a01b0391826100b0610abb565b169182855260028152838286205416938415610307578433141580610208575b6101f85784865286825282862084875260058352838720545f19908181018181116101e55783548381019081116101d25761012491866101136101429388610c9f565b90549060031b1c1692839187610c9f565b90919060018060a01b038084549260031b9316831b921b1916179055565b89526005855285892055815480156101bf5760029493910191906101668383610c9f565b909182549160031b1b19169055558386526005815285838120555283206bffffffffffffffffffffffff60a01b81541690557f73d15b3e6e961d09c78357c98ffbc863c81e1cb5232292ec47b99e884694634b8380a380f35b634e487b7160e01b895260318a52602489fd5b634e487b7160e01b8b5260118c5260248bfd5b634e487b7160e01b8a5260118b5260248afd5b825163aeadb25760e01b81528790fd5b508251631d6c8e3f60e21b81527f0000000000000000000000000000000000000000000000000000000000000000821683828a81845afa80156102fd5784918a918a906102c5575b8751632474521560e21b81529283019081523360208201529193508391829081906040015b03915afa9081156102bb57879161028e575b50156100d0565b6102ae9150833d85116102b4575b6102a68183610b6d565b810190610c87565b5f610287565b503d61029c565b84513d89823e3d90fd5b5091905082813d83116102f6575b6102dd8183610b6d565b810103126102f2578884916102759351610250565b5f80fd5b503d6102d3565b85513d8a823e3d90fd5b825163438af56d60e11b81528790fd5b8280fd5b5080fd5b5090346103c857602090816003193601126103c8576001600160a01b039384610346610abb565b168252825282812091835190818185549182815201908195855282852090855b8181106103b2575050508261037c910383610b6d565b8451948186019282875251809352850193925b82811061039c5785850386f35b835187168552938101939281019260010161038f565b82548a1684529284019260019283019201610366565b80fd5b5082346102f25760c03660031901126102f2576103e6610abb565b6024359267ffffffffffffffff916044356064358481116102f25761040e9036908701610ad1565b9590946084359660a4358281116102f25761042c9036908501610ad1565b6001600160a01b038781165f81815260026020528a90205482169b909a93919291908c156105f8578042116105e8578b5f5260036020528a5f20998a549a5f198c146105d557938f86948f966104af958f8f8c8e916104a0976104a69a61049897600187019055610bd5565b923691610b8f565b90610fe8565b90929192611022565b16036105c5577f000000000000000000000000000000000000000000000000000000000000000016803b156102f257895f60a487868f969784988e519c8d998a988996633ef4b1cd60e11b88528701526024860152604485015260806064850152816084850152848401378181018301849052601f01601f191681010301925af180156105bb57610570575b505050907f8132d51e1fdc136446f33c78e2a9beca18c65d5c79d99695475182fe54a7ef05918151908152336020820152a480f35b909180939850116105a8575081525f947f8132d51e1fdc136446f33c78e2a9beca18c65d5c79d99695475182fe54a7ef05878061053b565b604190634e487b7160e01b5f525260245ffd5b85513d5f823e3d90fd5b8751638baa579f60e01b81528590fd5b60118a634e487b7160e01b5f525260245ffd5b8a51630819bdcd60e01b81528890fd5b8a5163438af56d60e11b81528890fd5b50346102f2575f3660031901126102f257602090517fdf9d1808e7fb56654eae8abfe0a0daecc7c0b3aecf56ab77a755f7e508d791bd8152f35b5082346102f2575f3660031901126102f25761067d7f0000000000000000000000000000000000000000000000000000000000000000610df3565b916106a77f0000000000000000000000000000000000000000000000000000000000000000610f17565b815191602091602084019484861067ffffffffffffffff8711176105a8575061070282602092876106f599989795525f85528151988998600f60f81b8a5260e0868b015260e08a0190610aff565b9188830390890152610aff565b914660608701523060808701525f60a087015285830360c087015251918281520192915f5b82811061073657505050500390f35b835185528695509381019392810192600101610727565b50346102f25760203660031901126102f2576020906001600160a01b03610772610abb565b165f5260038252805f20549051908152f35b8382346102f257602090816003193601126102f2576107a1610abb565b8151630930828d60e21b8082526001600160a01b039592917f00000000000000000000000000000000000000000000000000000000000000008716919086818681865afa80156109a85787905f906109b2575b8751632474521560e21b81528781019182523360208301529250829081906040015b0381865afa9081156109a8575f9161098b575b501561090a5750508481169485156108fa57855f5260028552835f2054166108eb57845f5260028452825f20336bffffffffffffffffffffffff60a01b825416179055335f52818452825f20805490680100000000000000008210156108d8578161012491600161089d9594018155610c9f565b335f5282526005815f205492845f52525f205533907fd1bf5725f9e2c326501a9777c6a5a3819cd20ac3c16efa678f1c596ddbcc03e25f80a3005b604184634e487b7160e01b5f525260245ffd5b50905163024a9f8b60e01b8152fd5b835163e6c4247b60e01b81528390fd5b8484928780938584518094819382525afa928315610981575f9361094f575b5050516301d4003760e61b815291820190815233602082015281906040010390fd5b0390fd5b9080929350813d831161097a575b6109678183610b6d565b810103126102f257519061094b84610929565b503d61095d565b82513d5f823e3d90fd5b6109a29150873d89116102b4576102a68183610b6d565b88610829565b86513d5f823e3d90fd5b5081813d83116109da575b6109c78183610b6d565b810103126102f2578661081691516107f4565b503d6109bd565b50346102f2575f3660031901126102f257517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b50346102f25760203660031901126102f2576020906001600160a01b0380610a4a610abb565b165f5260028352815f2054169051908152f35b8382346102f25760c03660031901126102f257610a78610abb565b916064359267ffffffffffffffff84116102f257610a9e610ab492602095369101610ad1565b60a4359260843592906044359060243590610bd5565b9051908152f35b600435906001600160a01b03821682036102f257565b9181601f840112156102f25782359167ffffffffffffffff83116102f257602083818601950101116102f257565b91908251928382525f5b848110610b29575050825f602080949584010152601f8019910116010190565b602081830181015184830182015201610b09565b6040810190811067ffffffffffffffff821117610b5957604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff821117610b5957604052565b92919267ffffffffffffffff8211610b595760405191610bb9601f8201601f191660200184610b6d565b8294818452818301116102f2578281602093845f960137010152565b9492610be49196943691610b8f565b60208151910120906040519560208701957fdf9d1808e7fb56654eae8abfe0a0daecc7c0b3aecf56ab77a755f7e508d791bd875260018060a01b031660408801526060870152608086015260a085015260c084015260e083015260e0825261010082019180831067ffffffffffffffff841117610b5957604292604052519020610c6c610cc8565b906040519161190160f01b8352600283015260228201522090565b908160209103126102f2575180151581036102f25790565b8054821015610cb4575f5260205f2001905f90565b634e487b7160e01b5f52603260045260245ffd5b307f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03161480610dca575b15610d23577f000000000000000000000000000000000000000000000000000000000000000090565b60405160208101907f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f82527f000000000000000000000000000000000000000000000000000000000000000060408201527f000000000000000000000000000000000000000000000000000000000000000060608201524660808201523060a082015260a0815260c0810181811067ffffffffffffffff821117610b595760405251902090565b507f00000000000000000000000000000000000000000000000000000000000000004614610cfa565b60ff8114610e315760ff811690601f8211610e1f5760405191610e1583610b3d565b8252602082015290565b604051632cd44ac360e21b8152600490fd5b506040515f8054906001908260011c60018416928315610f0d575b6020948583108514610ef9578287528694908115610ed95750600114610e7e575b5050610e7b92500382610b6d565b90565b5f8080527f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e56395935091905b818310610ec1575050610e7b93508201015f80610e6d565b85548784018501529485019486945091830191610ea9565b915050610e7b94925060ff191682840152151560051b8201015f80610e6d565b634e487b7160e01b5f52602260045260245ffd5b90607f1690610e4c565b60ff8114610f395760ff811690601f8211610e1f5760405191610e1583610b3d565b506040515f60018054918260011c60018416928315610fde575b6020948583108514610ef9578287528694908115610ed95750600114610f81575050610e7b92500382610b6d565b9093915060015f527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6935f915b818310610fc6575050610e7b93508201015f80610e6d565b85548784018501529485019486945091830191610fae565b90607f1690610f53565b8151919060418303611018576110119250602082015190606060408401519301515f1a906110a5565b9192909190565b50505f9160029190565b60048110156110915780611034575050565b6001810361104e5760405163f645eedf60e01b8152600490fd5b6002810361106f5760405163fce698f760e01b815260048101839052602490fd5b6003146110795750565b602490604051906335e2f38360e21b82526004820152fd5b634e487b7160e01b5f52602160045260245ffd5b91907f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a08411611127579160209360809260ff5f9560405194855216868401526040830152606082015282805260015afa1561111c575f516001600160a01b0381161561111257905f905f90565b505f906001905f90565b6040513d5f823e3d90fd5b5050505f916003919056fea164736f6c6343000818000a";
+
+type ReFiInfraDeviceRegistryFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ReFiInfraDeviceRegistryFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ReFiInfraDeviceRegistryFHE__factory extends ContractFactory {
+  constructor(...args: ReFiInfraDeviceRegistryFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    dao_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(dao_, overrides || {});
+  }
+  override deploy(
+    dao_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(dao_, overrides || {}) as Promise<
+      ReFiInfraDeviceRegistryFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): ReFiInfraDeviceRegistryFHE__factory {
+    return super.connect(runner) as ReFiInfraDeviceRegistryFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ReFiInfraDeviceRegistryFHEInterface {
+    return new Interface(_abi) as ReFiInfraDeviceRegistryFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ReFiInfraDeviceRegistryFHE {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as ReFiInfraDeviceRegistryFHE;
+  }
+}
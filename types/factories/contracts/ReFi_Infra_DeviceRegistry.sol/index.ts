@@ -0,0 +1,4 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { ReFiInfraDeviceRegistryFHE__factory } from "./ReFiInfraDeviceRegistryFHE__factory";
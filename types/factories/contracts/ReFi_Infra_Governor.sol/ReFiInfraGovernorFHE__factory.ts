@@ -0,0 +1,1040 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  BigNumberish,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  ReFiInfraGovernorFHE,
+  ReFiInfraGovernorFHEInterface,
+} from "../../../contracts/ReFi_Infra_Governor.sol/ReFiInfraGovernorFHE";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract ReFiInfraDAOFHE",
+        name: "dao_",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timelockDelay_",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "cancelQuorum_",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AlreadyVoted",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CancellationAlreadyProposed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CancellationVotePending",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidOperationId",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidProposalId",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidQuorum",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidVotingPeriod",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "MissingRole",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProviderStaking",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "OperationExpired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "OperationNotPending",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "OperationNotReady",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PausedError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ProposalNotAccepted",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "QuorumNotReached",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayDetected",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TallyAlreadyRequested",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnsupportedOperation",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "VotingClosed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "VotingNotEnded",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "canceller",
+        type: "address",
+      },
+    ],
+    name: "OperationCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "executor",
+        type: "address",
+      },
+    ],
+    name: "OperationExecuted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "bytes4",
+        name: "selector",
+        type: "bytes4",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "proposer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "eta",
+        type: "uint256",
+      },
+    ],
+    name: "OperationQueued",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "proposer",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "startTime",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "quorum",
+        type: "uint256",
+      },
+    ],
+    name: "ProposalCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "yesVotes",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "noVotes",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "abstainVotes",
+        type: "uint256",
+      },
+    ],
+    name: "ProposalTallied",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "TallyDecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "voter",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedChoice",
+        type: "bytes32",
+      },
+    ],
+    name: "VoteCast",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "TIMELOCK_GRACE_PERIOD",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "VOTE_ABSTAIN",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "VOTE_NO",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "VOTE_YES",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptDAOOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelOperation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelOperationByVote",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cancelQuorum",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedChoice",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "castVote",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "votingPeriod",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "quorum",
+        type: "uint256",
+      },
+    ],
+    name: "createChallengeProposal",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "votingPeriod",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "quorum",
+        type: "uint256",
+      },
+    ],
+    name: "createProposal",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "dao",
+    outputs: [
+      {
+        internalType: "contract ReFiInfraDAOFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+    ],
+    name: "executeOperation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasVoted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+    ],
+    name: "isCancellationPending",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "isProposalAccepted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "isProposalRejected",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "operationCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "proposalCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "proposals",
+    outputs: [
+      {
+        internalType: "address",
+        name: "proposer",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "startTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "endTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "quorum",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "voterCount",
+        type: "uint256",
+      },
+      {
+        internalType: "euint32",
+        name: "yesVotesEncrypted",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "noVotesEncrypted",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "abstainVotesEncrypted",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "tallyRequested",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "tallied",
+        type: "bool",
+      },
+      {
+        internalType: "uint32",
+        name: "yesVotes",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "noVotes",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "abstainVotes",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+    ],
+    name: "proposeCancellation",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "queueOperation",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "operationId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "requestTallyDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "tallyCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "tallyContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "timelockDelay",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "timelockOperations",
+    outputs: [
+      {
+        internalType: "address",
+        name: "proposer",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "eta",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "executed",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "cancelled",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "cancelProposalId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60e0346200024757601f62002f7238819003918201601f191683019291906001600160401b038411838510176200024b57816060928492604096875283398101031262000247578051906001600160a01b03821682036200024757826020820151910151915f6060620000716200025f565b828152826020820152828782015201526200008b6200025f565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d59580602083015273a02cda4ca3a71d7c46997716f4283aa851c28812918289820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703918254161790558215620002365760805260a05260c05251612cf2908162000280823960805181818161052b0152818161060501528181610715015281816108860152818161097d01528181610b8801528181610c8b01528181610e6501528181610f71015281816113e6015281816116b40152611941015260a05181818161135d0152611d1c015260c051818181610e0f01526115a60152f35b835163d173577960e01b8152600490fd5b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b038111838210176200024b5760405256fe60806040526004361015610011575f80fd5b5f3560e01c8063013cf08b146101d4578063076ed71f146101cf5780630aa13c8f146101ca5780630c83db32146101c55780630e70306d146101c057806316df819d146101bb57806322e2e12d146101b657806323d3c142146101b15780634162169f146101ac57806343859632146101a75780634c2eec31146101a2578063561602721461019d5780635c945227146101985780638589c7a5146101935780638702038d1461018e5780638dbb3a4b1461018957806391a4980214610184578063acfe714c1461017f578063ae611e7a1461017a578063c105203814610175578063cd1bd79c14610170578063d8fad50b1461016b578063da1f12ab14610166578063da35c66414610161578063df01d73e1461015c578063e19a653114610157578063eef09bad146101525763fd55c4821461014d575f80fd5b611380565b611346565b6112fb565b611119565b611050565b611034565b610f2f565b610f11565b610ef6565b610e32565b610df8565b610dde565b610d98565b610d70565b610c49565b610b66565b610a69565b610a0f565b6109bd565b610968565b61094b565b610861565b6106d1565b610591565b610518565b6104fb565b610499565b610364565b90600182811c92168015610207575b60208310146101f357565b634e487b7160e01b5f52602260045260245ffd5b91607f16916101e8565b634e487b7160e01b5f52604160045260245ffd5b6001600160401b03811161023857604052565b610211565b608081019081106001600160401b0382111761023857604052565b90601f801991011681019081106001600160401b0382111761023857604052565b5f5b83811061028a5750505f910152565b818101518382015260200161027b565b906020916102b381518092818552858086019101610279565b601f01601f1916010190565b9c9a989694929f9e9d9b9997959391908d806101e09283926102e79160018060a01b03169052565b602001528d016102f69161029a565b9e60408d015260608c015260808b015260a08a015260c089015260e088015261010087015261012086015261014085016103309115159052565b151561016084015263ffffffff1661018083015263ffffffff166101a08201526101c0016103629163ffffffff169052565b565b3461049557602080600319360112610495576004355f52600180825260405f209160018060a01b03835416916001840191604051925f928154916103a7836101d9565b8087529260018116908115610473575060011461043a575b8787610436886103d1818a0382610258565b60028401546003850154936004860154956005810154926006820154916007810154600882015490600a60098401549301549463ffffffff976040519c8d9c8d978b8a60501c169c8c8b60301c169c8b60101c169b60ff808d60081c169c169a6102bf565b0390f35b5f908152838120939450925b828410610460575050508201016103d1826104365f6103bf565b8054868501860152928401928101610446565b60ff191685880152505050151560051b83010190506103d1826104365f6103bf565b5f80fd5b34610495576020366003190112610495576004355f5260016020526020600a60405f20015460ff8160081c1690816104d7575b506040519015158152f35b905063ffffffff808260301c169160101c1611155f6104cc565b5f91031261049557565b34610495575f366003190112610495576020604051621275008152f35b34610495575f80600319360112610495577f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316803b15610495575f80916004604051809481936379ba509760e01b83525af1801561058c57610580575080f35b61058a9150610225565b005b611443565b34610495576020366003190112610495576004356105ae81611fc3565b6002810154804210610692576105c390611462565b421015610680576105d3826119f7565b61066e575f6001826105f06003849501600160ff19825416179055565b6106006040518093819301611484565b0390827f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165af1610637611504565b9015610666575033907f77f54c45c0e4a2d4b98fba3d169352d7f4c3d62dd02ccf895473f4f30116cdaf5f80a3005b602081519101fd5b604051630cc97be160e41b8152600490fd5b604051633a76bc0560e11b8152600490fd5b60405163f800799b60e01b8152600490fd5b9181601f84011215610495578235916001600160401b038311610495576020838186019501011161049557565b34610495576040366003190112610495576024356001600160401b038111610495576107019036906004016106a4565b60405163152802b960e31b815290919060207f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168183600481845afa92831561058c575f936107fc575b50604051632474521560e21b815260048101849052336024820152908290829060449082905afa91821561058c575f926107cf575b5050156107af5761043661079f848460043561155a565b6040519081529081906020820190565b6040516301d4003760e61b81526004810191909152336024820152604490fd5b6107ee9250803d106107f5575b6107e68183610258565b810190611542565b5f80610788565b503d6107dc565b61081d919350823d8411610824575b6108158183610258565b810190611533565b915f610753565b503d61080b565b606060031982011261049557600435906001600160401b03821161049557610855916004016106a4565b90916024359060443590565b346104955761086f3661082b565b604051631d6c8e3f60e21b815290939192919060207f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168183600481845afa92831561058c575f9361092c575b50604051632474521560e21b815260048101849052336024820152908290829060449082905afa91821561058c575f9261090f575b5050156107af5761043661079f8686868661169b565b6109259250803d106107f5576107e68183610258565b5f806108f9565b610944919350823d8411610824576108158183610258565b915f6108c4565b34610495575f366003190112610495576020600454604051908152f35b34610495575f366003190112610495576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b6001600160a01b0381160361049557565b3461049557604036600319011261049557602060ff610a036024356109e1816109ac565b6004355f526002845260405f209060018060a01b03165f5260205260405f2090565b54166040519015158152f35b34610495575f36600319011261049557602060405160028152f35b9296959491610a519060a09592600180881b0316855260c0602086015260c085019061029a565b96604084015215156060830152151560808201520152565b3461049557602080600319360112610495576004355f526005815260405f209060018060a01b038254166001808401906040519384925f92815491610aad836101d9565b8087529260018116908115610b445750600114610aff575b888661043689610ad7838a0384610258565b600284015493600460038201549101549160405195869560ff808560081c1694169287610a2a565b5f9081528381209695945091905b818310610b2c57509394509192509082010181610ad76104365f610ac5565b86548884018501529586019587945091830191610b0d565b60ff191685880152505050151560051b830101905081610ad76104365f610ac5565b346104955760208060031936011261049557604051631d6c8e3f60e21b8152907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168183600481845afa92831561058c575f93610c2a575b50604051632474521560e21b815260048101849052336024820152908290829060449082905afa91821561058c575f92610c0d575b5050156107af5761058a6004356121c2565b610c239250803d106107f5576107e68183610258565b5f80610bfb565b610c42919350823d8411610824576108158183610258565b915f610bc6565b34610495576060366003190112610495576044356001600160401b03811161049557610c799036906004016106a4565b60405163152802b960e31b81529160207f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168185600481845afa94851561058c575f95610d51575b50604051632474521560e21b815260048101869052336024820152908290829060449082905afa91821561058c575f92610d34575b505015610d155761058a9250602435600435611753565b6040516301d4003760e61b815260048101849052336024820152604490fd5b610d4a9250803d106107f5576107e68183610258565b5f80610cfe565b610d69919550823d8411610824576108158183610258565b935f610cc9565b34610495576020366003190112610495576020610d8e6004356119ac565b6040519015158152f35b34610495576020366003190112610495576004355f526003602052606060405f2080549060ff600260018301549201541690604051928352602083015215156040820152f35b34610495575f3660031901126104955760206040515f8152f35b34610495575f3660031901126104955760206040517f00000000000000000000000000000000000000000000000000000000000000008152f35b3461049557610e403661082b565b6040516324795d9160e11b8152929391929091906001600160a01b03906020816004817f000000000000000000000000000000000000000000000000000000000000000086165afa90811561058c575f91610ec7575b50163303610eb55761043693610eaf61079f9442611477565b916120f8565b604051630eb5ab0360e01b8152600490fd5b610ee9915060203d602011610eef575b610ee18183610258565b8101906119e2565b5f610e96565b503d610ed7565b34610495575f36600319011261049557602060405160018152f35b34610495576020366003190112610495576020610d8e6004356119f7565b3461049557602080600319360112610495576004356001600160401b03811161049557610f609036906004016106a4565b604051631d6c8e3f60e21b815290927f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168183600481845afa92831561058c575f93611015575b50604051632474521560e21b815260048101849052336024820152908290829060449082905afa91821561058c575f92610ff8575b5050156107af5761043661079f8484611c6c565b61100e9250803d106107f5576107e68183610258565b5f80610fe4565b61102d919350823d8411610824576108158183610258565b915f610faf565b34610495575f3660031901126104955760206040516127118152f35b34610495575f3660031901126104955760205f54604051908152f35b6040519060c082018281106001600160401b0382111761023857604052565b60405190606082018281106001600160401b0382111761023857604052565b6001600160401b03811161023857601f01601f191660200190565b9291926110d1826110aa565b916110df6040519384610258565b829481845281830111610495578281602093845f960137010152565b9080601f8301121561049557816020611116933591016110c5565b90565b34610495576060366003190112610495576001600160401b036004356024358281116104955761114d9036906004016110fb565b91604435908111610495576111669036906004016110fb565b611185600261117d845f52600360205260405f2090565b015460ff1690565b6112e95761119b825f52600360205260405f2090565b54926111af845f52600160205260405f2090565b6111c06111bb82612552565b6125d5565b60016111d4865f52600360205260405f2090565b0154036112d7576112d2600a611222846112137f6c045cacf4355356c19ee193472535f0536ea313d71f5b63e7bb491762bf39ba976112aa978a61260c565b60208082518301019101611e72565b92839196929561124d600261123f8c5f52600360205260405f2090565b01805460ff19166001179055565b018054603088901b69ffffffff0000000000001661010065ffffffffff0019909216601089901b65ffffffff00001617919091176dffffffffffffffff00000000000019161760509290921b63ffffffff60501b16919091179055565b6040805163ffffffff9485168152948416602086015292169183019190915281906060820190565b0390a3005b6040516313b304fb60e21b8152600490fd5b60405163faf8ed4f60e01b8152600490fd5b3461049557602036600319011261049557600435611318816119ac565b15611334575f52600160205261058a600260405f2001546121c2565b6040516330e3d62d60e21b8152600490fd5b34610495575f3660031901126104955760206040517f00000000000000000000000000000000000000000000000000000000000000008152f35b346104955760203660031901126104955760043560026113a8825f52600160205260405f2090565b015415806113d0575b6113be5761058a90611ecc565b604051633b3b4caf60e21b8152600490fd5b50604051635c975abb60e01b81526020816004817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa90811561058c575f91611424575b506113b1565b61143d915060203d6020116107f5576107e68183610258565b5f61141e565b6040513d5f823e3d90fd5b634e487b7160e01b5f52601160045260245ffd5b9062127500820180921161147257565b61144e565b9190820180921161147257565b5f92918154611492816101d9565b926001918083169081156114e957506001146114af575b50505050565b9091929394505f5260209060205f20905f915b8583106114d8575050505001905f8080806114a9565b8054858401529183019181016114c2565b60ff191684525050508115159091020191505f8080806114a9565b3d1561152e573d90611515826110aa565b916115236040519384610258565b82523d5f602084013e565b606090565b90816020910312610495575190565b90816020910312610495575180151581036104955790565b92919261156681611fc3565b936004850194855461168957600201549081421015611677577f8b6db1e8bf2f36cfa26dc90b4a539c5280a8531c988f1734450a6d919c6569a0611602947f0000000000000000000000000000000000000000000000000000000000000000906115d05f5461199e565b968794855f556115e8865f52600160205260405f2090565b80546001600160a01b031916331781559260018401612031565b8560028201556003810190428255856004820155826005820155611624612725565b61162e30826128b6565b600782015561164361163e612725565b612524565b6008820155600961165561163e612725565b91015554604080519182526020820195909552938401523392606090a4809255565b60405163335b65a560e11b8152600490fd5b604051638efbbb5760e01b8152600490fd5b604051635c975abb60e01b8152909392906020816004817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa90811561058c575f91611734575b506113be5780156117225782156117105742019081421161147257611116936120f8565b60405163d173577960e01b8152600490fd5b6040516305a612e360e01b8152600490fd5b61174d915060203d6020116107f5576107e68183610258565b5f6116ec565b91929092600261176b845f52600160205260405f2090565b0154158061192b575b6113be5761178a835f52600160205260405f2090565b93600385015415611919576004850154421015611677576117d26117cb6117b9865f52600260205260405f2090565b335f9081526020919091526040902090565b5460ff1690565b611907576117e76117ed9260069436916110c5565b90612203565b9261187a6117fa85612313565b611873611806876123a4565b91611873611812612777565b61186b61181d612725565b9361183660078a019361183c8554611836898487612864565b9061241c565b855560088b01966118548a61183683858c5493612864565b885561186660098d019a8b54956124a0565b612864565b855554612524565b5054612524565b5061188484612524565b5061188f33856128b6565b6118ca6118bd336118a8865f52600260205260405f2090565b9060018060a01b03165f5260205260405f2090565b805460ff19166001179055565b016118d5815461199e565b905560405191825233917f38a83bc97fe3c67d89842c1c27a230b6538d70d76059eb5354488ea03ef2426290602090a3565b604051637c9a1cf960e01b8152600490fd5b604051630992f7ad60e01b8152600490fd5b50604051635c975abb60e01b81526020816004817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa90811561058c575f9161197f575b50611774565b611998915060203d6020116107f5576107e68183610258565b5f611979565b5f1981146114725760010190565b5f526001602052600a60405f20015460ff8160081c1690816119cc575090565b905063ffffffff808260301c169160101c161190565b908160209103126104955751611116816109ac565b5f526005602052600460405f2001548015611a50575f52600160205260405f2060048101544210908115611a29575090565b600681015460058201541115915081611a40575090565b60ff9150600a015460081c161590565b505f90565b906004116104955790600490565b6001600160e01b03199035818116939260048110611a8057505050565b60040360031b82901b16169150565b601f8211611a9c57505050565b5f5260205f20906020601f840160051c83019310611ad4575b601f0160051c01905b818110611ac9575050565b5f8155600101611abe565b9091508190611ab5565b815181546001600160a01b0319166001600160a01b0391909116178155906001808301906020808401518051926001600160401b03841161023857611b2d84611b2787546101d9565b87611a8f565b602092601f8511600114611bca575050826004959360a09593611b65935f92611bbf575b50508160011b915f199060031b1c19161790565b90555b60408101516002850155611bb860038501611b9b611b896060850151151590565b829060ff801983541691151516179055565b60808301511515815461ff00191690151560081b61ff0016179055565b0151910155565b015190505f80611b51565b929190601f19851690611be0875f5260205f2090565b945f915b838310611c27575050509260019285926004989660a0989610611c0f575b505050811b019055611b68565b01515f1960f88460031b161c191690555f8080611c02565b848601518755958601959481019491810191611be4565b9392918060609160209360408852816040890152838801375f828288010152601f8019910116850101930152565b91909160048310611da557611c94611c848483611a55565b6001600160e01b03199291611a63565b1663f2fde38b60e01b81141580611e50575b80611e3f575b80611e2e575b80611e1d575b80611e0c575b80611dfb575b80611dea575b80611dd9575b80611dc8575b80611db7575b611da557611ceb60045461199e565b611cf481600455565b7f287771109ea3a4d787247e5425740bcc591d02b4462424e26c7d79cd621df6238195611d417f000000000000000000000000000000000000000000000000000000000000000042611477565b90611d8f611d4d61106c565b338152611d5b36848a6110c5565b60208201528360408201525f60608201525f60808201525f60a0820152611d8a865f52600560205260405f2090565b611ade565b611da0604051928392339884611c3e565b0390a4565b604051639ba6061b60e01b8152600490fd5b506312439bc960e01b811415611cdc565b50633781d22f60e11b811415611cd6565b5063389bd11f60e11b811415611cd0565b50635c0fea1360e01b811415611cca565b5063179f9e6560e01b811415611cc4565b50637b5b115760e01b811415611cbe565b50638a355a5760e01b811415611cb8565b506323712bbd60e11b811415611cb2565b5063d547741f60e01b811415611cac565b50632f2ff15d60e01b811415611ca6565b519063ffffffff8216820361049557565b9081606091031261049557611e8681611e61565b916111166040611e9860208501611e61565b9301611e61565b600260406103629380518455602081015160018501550151151591019060ff801983541691151516179055565b611ede815f52600160205260405f2090565b6003810154156119195760048101544210611fb1576006810154600582015411611f9f57600a810190611f12825460ff1690565b611f8d57611f22611f6791612552565b916118bd611f38611f32856125d5565b94612a86565b93611f4161108b565b9086825260208201525f6040820152611f62855f52600360205260405f2090565b611e9f565b7fceb294c3058a45afa01a5999f69d6b6b7b3ab68d7427a9d9cd7d563906c434245f80a3565b6040516305a7a9f560e51b8152600490fd5b60405163aa26a69360e01b8152600490fd5b604051633fc30bd160e11b8152600490fd5b80158015612026575b612014575f52600560205260405f2090600382015460ff8116908115612006575b50611ff457565b60405163e436bddf60e01b8152600490fd5b60ff915060081c165f611fed565b60405163282da36560e01b8152600490fd5b506004548111611fcc565b9092916001600160401b038111610238576120568161205084546101d9565b84611a8f565b5f601f82116001146120935781906120849394955f926120885750508160011b915f199060031b1c19161790565b9055565b013590505f80611b51565b601f198216946120a6845f5260205f2090565b915f5b8781106120e05750836001959697106120c7575b505050811b019055565b01355f19600384901b60f8161c191690555f80806120bd565b909260206001819286860135815501940191016120a9565b7f8b6db1e8bf2f36cfa26dc90b4a539c5280a8531c988f1734450a6d919c6569a05f93929594612128855461199e565b9283865561214384986115e8865f52600160205260405f2090565b8560028201556003810190428255856004820155826005820155612165612725565b61216f30826128b6565b600782015561217c612725565b61218630826128b6565b60088201556009612195612725565b916121a030846128b6565b0155546040805191825260208201959095529384015233928060608101611da0565b60036121cd82611fc3565b01805461ff00191661010017905533907ffd6081567ca53e7c77aff76e8cc9cfb2872b64e660f64d885730829bc5a18ca15f80a3565b5f80516020612cc68339815191525461225b92602092909161223b9061222f906001600160a01b031681565b6001600160a01b031690565b905f60405180968195829463196d0b9b60e01b84523390600485016126f4565b03925af190811561058c575f916122f4575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546122a49061222f906001600160a01b031681565b803b1561049557604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af1801561058c576122e1575090565b806122ee61111692610225565b806104f1565b61230d915060203d602011610824576108158183610258565b5f61226d565b8015612390575b5f80516020612cc68339815191525460405163f77f3f1d60e01b8152600481019290925260016024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af190811561058c575f91612377575090565b611116915060203d602011610824576108158183610258565b505f602061239c6127c5565b91505061231a565b8015612408575b5f80516020612cc68339815191525460405163f77f3f1d60e01b815260048101929092525f60248301819052600160f81b604484015260209183916064918391906001600160a01b03165af190811561058c575f91612377575090565b505f60206124146127c5565b9150506123ab565b908115612490575b801561247e575b602090606460018060a01b035f80516020612cc68339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af190811561058c575f91612377575090565b506020612489612725565b905061242b565b905061249a612725565b90612424565b908115612514575b8015612502575b602090606460018060a01b035f80516020612cc68339815191525416935f60405195869485936363a2db2960e01b8552600485015260248401528160448401525af190811561058c575f91612377575090565b50602061250d612818565b90506124af565b905061251e612818565b906124a8565b61111630826128b6565b80516002101561253e5760600190565b634e487b7160e01b5f52603260045260245ffd5b9060405161255f8161023d565b6003815260208101926060368537819360078201549083511561253e5752600881015482516001101561253e576040830152600901549061259f9061252e565b52565b9081518082526020808093019301915f5b8281106125c1575050505090565b8351855293810193928101926001016125b3565b604051612606816125f260208201946040865260608301906125a2565b30604083015203601f198101835282610258565b51902090565b9190825f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020908060205260405f2054156126e257845f5260205260405f206040519182602083549182815201925f5260205f20915f905b8282106126cb5750505050918161268661268f959361268b950382610258565b612985565b1590565b6126b9577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b60405163cf6c44e960e01b8152600490fd5b835485529384019360019384019390910190612666565b60405163d66ca67560e01b8152600490fd5b939261272090600293606093875260018060a01b0316602087015260806040870152608086019061029a565b930152565b5f80516020612cc683398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af190811561058c575f91612377575090565b5f602060018060a01b035f80516020612cc68339815191525416604460405180948193639cd07acb60e01b835260016004840152600460248401525af190811561058c575f91612377575090565b5f80516020612cc683398151915254604051639cd07acb60e01b81525f60048201819052600260248301529091602091839160449183916001600160a01b03165af190811561058c575f91612377575090565b5f602060018060a01b035f80516020612cc68339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af190811561058c575f91612377575090565b9060646020925f60018060a01b035f80516020612cc683398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af190811561058c575f91612377575090565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561049557604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af1801561058c576129275750565b61036290610225565b6020929190612946849282815194859201610279565b019081520190565b916129779061296961111695936060865260608601906125a2565b90848203602086015261029a565b91604081840391015261029a565b9190805191602093838501938486116114725760400180941161147257612a20936129ca86946129bc604051938492888401612930565b03601f198101835282610258565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703545f90612a029061222f906001600160a01b031681565b92604051968795869485936378542ead60e01b85526004850161294e565b03925af191821561058c575f92612a3657505090565b6111169250803d106107f5576107e68183610258565b9060206111169281815201906125a2565b9291612a769184526060602085015260608401906125a2565b916040636f80eb9f60e11b910152565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0080547f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700549093929190612ae49061222f906001600160a01b031681565b803b15610495575f6040518092637d6e912360e11b8252818381612b0b8960048301612a4c565b03925af1801561058c57612bd9575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970254612b519061222f906001600160a01b031681565b90813b15610495575f6040518093633263b83b60e01b8252818381612b7a898c60048401612a5d565b03925af1801561058c5761036293612ba293612b9c92612bc6575b5086612bec565b5461199e565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0055565b806122ee612bd392610225565b5f612b95565b806122ee612be692610225565b5f612b1a565b805f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf016020918160205260405f2054612cb3575f5260205260405f20908251926001600160401b03841161023857680100000000000000008411610238578254848455808510612c8d575b506020612c6a9101925f5260205f2090565b905f5b848110612c7b575050505050565b83518382015592810192600101612c6d565b835f528460205f2091820191015b818110612ca85750612c58565b5f8155600101612c9b565b604051633f06d22b60e01b8152600490fdfe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type ReFiInfraGovernorFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ReFiInfraGovernorFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ReFiInfraGovernorFHE__factory extends ContractFactory {
+  constructor(...args: ReFiInfraGovernorFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    dao_: AddressLike,
+    timelockDelay_: BigNumberish,
+    cancelQuorum_: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      dao_,
+      timelockDelay_,
+      cancelQuorum_,
+      overrides || {}
+    );
+  }
+  override deploy(
+    dao_: AddressLike,
+    timelockDelay_: BigNumberish,
+    cancelQuorum_: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(
+      dao_,
+      timelockDelay_,
+      cancelQuorum_,
+      overrides || {}
+    ) as Promise<
+      ReFiInfraGovernorFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): ReFiInfraGovernorFHE__factory {
+    return super.connect(runner) as ReFiInfraGovernorFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ReFiInfraGovernorFHEInterface {
+    return new Interface(_abi) as ReFiInfraGovernorFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ReFiInfraGovernorFHE {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as ReFiInfraGovernorFHE;
+  }
+}
@@ -0,0 +1,406 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  ReFiInfraRevenueDistributorFHE,
+  ReFiInfraRevenueDistributorFHEInterface,
+} from "../../../contracts/ReFi_Infra_Revenue.sol/ReFiInfraRevenueDistributorFHE";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract ReFiInfraDAOFHE",
+        name: "dao_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "BatchNotFunded",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EmptyBatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoRevenue",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotAContributor",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NothingToWithdraw",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RevenueAlreadySwept",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "SweepNotAvailable",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "depositor",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+    ],
+    name: "RevenueDeposited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+    ],
+    name: "RevenueWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "contributor",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedShare",
+        type: "bytes32",
+      },
+    ],
+    name: "ShareAccrued",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "treasury",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+    ],
+    name: "UnclaimedRevenueSwept",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "UNCLAIMED_REVENUE_PERIOD",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "accrue",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchRevenue",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "claimableOf",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "dao",
+    outputs: [
+      {
+        internalType: "contract ReFiInfraDAOFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "depositRevenue",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "lastDepositAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "revenueSwept",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "revenueToken",
+    outputs: [
+      {
+        internalType: "contract IConfidentialToken",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "sweepUnclaimed",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60c0604090808252346200023d5780620018f0803803809162000023828562000283565b83396020928391810103126200023d57516001600160a01b0390818116908181036200023d5760049184915f606088516200005e8162000253565b8281528286820152828a820152015286516200007a8162000253565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d595808783015273a02cda4ca3a71d7c46997716f4283aa851c2881291828c820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039182541617905560805285519283809263097dbf3560e31b82525afa92831562000249575f9362000205575b50505060a052516116489081620002a882396080518181816101760152818161056501528181610a1f0152610e40015260a0518181816101ef015281816106f201528181610dfc0152610eb90152f35b9080929350813d831162000241575b62000220818362000283565b810103126200023d575190811681036200023d575f8080620001b5565b5f80fd5b503d62000214565b84513d5f823e3d90fd5b608081019081106001600160401b038211176200026f57604052565b634e487b7160e01b5f52604160045260245ffd5b601f909101601f19168101906001600160401b038211908210176200026f5760405256fe60806040818152600480361015610014575f80fd5b5f925f3560e01c90816334d70d0b14611026575080633ccfd60b14610e6f5780634162169f14610e2b578063556e4e6814610de757806370fd226214610dc0578063744f4cf6146109c15780638903ab9d14610988578063abe868391461096a578063d30c05db146104fb578063da1f12ab146104de578063e50e64d5146100d35763e68dfc5f146100a4575f80fd5b346100cf5760203660031901126100cf578160209360ff923581526002855220541690519015158152f35b8280fd5b50346100cf57602090816003193601126104da578035918285528481528385205480156104ca578386526002825260ff85872054166104ba57838652600182528486205462ed4e0081018091116104a75742106104975783865260028252848620805460ff19166001179055600382528486205480156104905761015691611359565b935b8051632d62214160e11b81528381018590526001600160a01b0395907f00000000000000000000000000000000000000000000000000000000000000008716908890610360908181602481875afa91821561048657908792918492610459575b505001516024855180948193631e1e7e5960e31b83528a8301525afa90811561044f57879184918a91610362575b500151169587817f000000000000000000000000000000000000000000000000000000000000000016915f8051602061161c8339815191525416803b1561035e578451630f8e573b60e21b81528088018581526001600160a01b03851660208201529091839183919082908490829060400103925af180156103545790899291610338575b508451632df5f6bf60e11b81526001600160a01b039092169682019687526020870193909352948492869291839190829060400103925af190811561032f5786916102dc575b7f3590cae72dd609f44772b9dadd9248716438240ddcf83e52077c4b304e8aab3f935051908152a380f35b90508183813d8311610328575b6102f38183611072565b81010312610324577f3590cae72dd609f44772b9dadd9248716438240ddcf83e52077c4b304e8aab3f9251906102b1565b5f80fd5b503d6102e9565b513d87823e3d90fd5b81949392506103469061104a565b6100cf57909187905f61026b565b85513d84823e3d90fd5b5080fd5b925050503d8089833e6103758183611072565b810190848183031261044b57805167ffffffffffffffff9182821161042c57019160e0838203126104475784519060e0820182811084821117610434578652835182526103c38785016112b0565b878301526103d28685016112b0565b86830152606084015183811161043057816103ee9186016112e5565b6060830152608084015192831161042c578361041060c09288958d97016112e5565b608084015260a081015160a0840152015160c08201525f6101e6565b8a80fd5b8b80fd5b604189634e487b7160e01b5f525260245ffd5b8980fd5b8880fd5b83513d8a823e3d90fd5b6104789250803d1061047f575b6104708183611072565b810190611127565b5f806101b8565b503d610466565b86513d85823e3d90fd5b5093610158565b845163daac7d1b60e01b81528390fd5b634e487b7160e01b875260118452602487fd5b8451631a6aa6a760e11b81528390fd5b845163d55eb96360e01b81528390fd5b8380fd5b50503461035e578160031936011261035e57602090516127118152f35b5090346100cf5760603660031901126100cf5781359160246044359167ffffffffffffffff91828411610966573660238501121561096657838201359283116109665736818486010111610966578451632d62214160e11b81528281018790526001600160a01b037f000000000000000000000000000000000000000000000000000000000000000081169490939161036090818186818a5afa91821561095c579061026092918c9261093f575b5050015115610930578789526020946002865260ff888b2054166109205760c084918951928380926338e98a2960e01b82528d888301525afa908115610916579086918b916108e7575b500151156108d857610673818a8761060b8195611294565b926106188c519485611072565b80845280888386019c018c3783010152855f805160206115fc8339815191525416908b60a48b51809b8196829563196d0b9b60e01b84528b358b850152338c85015260806044850152518092816084860152858501906112c4565b60056064830152601f01601f191681010301925af19485156108ce57889561089f575b50875f8051602061161c8339815191528481541694853b156100cf578851630f8e573b60e21b8082528582018a81523360208201529097859183919082908490829060400103925af1801561089557908491610881575b5050807f000000000000000000000000000000000000000000000000000000000000000016915416803b156100cf5788519586528386018881526001600160a01b03831660208201528391879182908490829060400103925af180156108775790869493929161085d575b6064939495508851978895869463eb3155b560e01b86523390860152309085015260448401525af1918215610853578592610804575b508385528481528285205491927f0fbd1511e837bca378dce09279d1043759fc57864649881fff95b20d1a8a729992849080156107fa576107e4916107d291611417565b86885287845280838920553090611594565b848652600182524281872055519283523392a380f35b506107e4906107d2565b91508082813d831161084c575b61081b8183611072565b81010312610324577f0fbd1511e837bca378dce09279d1043759fc57864649881fff95b20d1a8a729991519161078e565b503d610811565b83513d87823e3d90fd5b92935061086a819561104a565b6104da5783859392610758565b88513d84823e3d90fd5b61088a9061104a565b6100cf57825f6106ed565b8a513d86823e3d90fd5b9094508381813d83116108c7575b6108b78183611072565b810103126103245751935f610696565b503d6108ad565b86513d8a823e3d90fd5b50855163c2e5347d60e01b8152fd5b610909915060c03d60c01161090f575b6109018183611072565b8101906110b6565b5f6105f3565b503d6108f7565b88513d8c823e3d90fd5b8751631a6aa6a760e11b81528390fd5b50855163b441beb760e01b8152fd5b6109559250803d1061047f576104708183611072565b5f806105a9565b89513d8d823e3d90fd5b8680fd5b50503461035e578160031936011261035e576020905162ed4e008152f35b50346100cf5760203660031901126100cf57356001600160a01b038116908190036100cf57828291602094526005845220549051908152f35b50346100cf57602091826003193601126104da5781359283855284815281852054918215610db1578486526002825260ff8187205416610da2578051631266d4b760e01b8152848101869052336024820152926001600160a01b03907f0000000000000000000000000000000000000000000000000000000000000000821684866044818c855af1958615610d1c578996610d73575b508515610d635760c06024918551928380926338e98a2960e01b82528c8c8301525afa908115610d1c5785610aa092610a9a928c91610d44575b50015196611541565b91611541565b8115610d34575b8015610d26575b845f805160206115fc833981519152926064898c8787541689519687958694630afe14ad60e31b8652850152602484015260ff60f81b821660448401525af1908115610d1c579085918a91610ced575b508015610cdf575b6064888b868654166fffffffffffffffffffffffffffffffff89519b8c968795635a53accb60e01b8752860152166024840152600160f81b60448401525af194851561044f578895610caf575b505482516307227b9160e21b815286810195909552600560248601528391859160449183915f91165af1928315610ca5575f93610c74575b50610bf17fd7922513f02d4f1e08ceb56df590d5ed691a505c77b8326cfe8f8ca4067790ad93868852858452828820335f528452825f20548015155f14610c6c57610bd69082611359565b955b8789528452828820335f52845280835f20553090611594565b8486526003825280862054848115610c6557610c0c91611417565b610c163082611594565b8587526003835281872055338652600582528086205484908015610c5b57610c4791610c4191611417565b3361132a565b610c513385611594565b519283523392a380f35b50610c4790610c41565b9050610c0c565b508095610bd8565b92508183813d8311610c9e575b610c8b8183611072565b8101031261032457915191610bf1610b8b565b503d610c81565b50513d5f823e3d90fd5b94508385813d8311610cd8575b610cc68183611072565b81010312610324579351936044610b53565b503d610cbc565b50610ce86114ee565b610b06565b82819392503d8311610d15575b610d048183611072565b81010312610324578490515f610afe565b503d610cfa565b84513d8b823e3d90fd5b50610d2f6114ee565b610aae565b9050610d3e6114ee565b90610aa7565b610d5d915060c03d60c01161090f576109018183611072565b5f610a91565b8351634f2d35b360e11b81528790fd5b9095508481813d8311610d9b575b610d8b8183611072565b810103126103245751945f610a57565b503d610d81565b51631a6aa6a760e11b81528390fd5b5163d55eb96360e01b81528390fd5b50346100cf5760203660031901126100cf5760209282913581526001845220549051908152f35b50503461035e578160031936011261035e57517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b50503461035e578160031936011261035e57517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b50919034610324575f36600319011261032457335f52602060058152815f2054801561101657610ea0610c4161149b565b5f8051602061161c833981519152546001600160a01b037f000000000000000000000000000000000000000000000000000000000000000081169116803b15610324578451630f8e573b60e21b81528088018481526001600160a01b038416602082015290915f9183919082908490829060400103925af1801561100c57610fef575b508351632df5f6bf60e11b8152339681019687526020870192909252939492939092829184918290889082906040015b03925af1918215610fe2578492610f93575b507f93422bdc95211515f8fe4700994913ac4c5a176c23074acc6d55a16064bf721e9192519283523392a280f35b91508082813d8311610fdb575b610faa8183611072565b81010312610324577f93422bdc95211515f8fe4700994913ac4c5a176c23074acc6d55a16064bf721e915191610f65565b503d610fa0565b50505051903d90823e3d90fd5b610f539495509061100184939261104a565b5f9594509091610f23565b85513d5f823e3d90fd5b8251630686827b60e51b81528590fd5b9050823461032457602036600319011261032457602092355f525f83525f20548152f35b67ffffffffffffffff811161105e57604052565b634e487b7160e01b5f52604160045260245ffd5b90601f8019910116810190811067ffffffffffffffff82111761105e57604052565b5190811515820361032457565b519067ffffffffffffffff8216820361032457565b908160c0910312610324576040519060c082019082821067ffffffffffffffff83111761105e5760a09160405280518352602081015160208401526040810151604084015261110760608201611094565b6060840152611118608082016110a1565b6080840152015160a082015290565b809161036092839103126103245760405191820182811067ffffffffffffffff82111761105e57604052805182526020810151602083015260408101516005811015610324576040830152606081015160608301526080810151608083015260a081015160a083015260c081015160c083015260e081015160e0830152610100808201519083015261012080820151908301526101408082015190830152610160808201519083015261018080820151908301526101a080820151908301526101c080820151908301526101e080820151908301526102008082015190830152610220611215818301611094565b90830152610240611227818301611094565b90830152610260611239818301611094565b9083015261028061124b8183016110a1565b908301526102a080820151908301526102c080820151908301526102e0808201519083015261030080820151908301526103208082015190830152610340809101519082015290565b67ffffffffffffffff811161105e57601f01601f191660200190565b51906001600160a01b038216820361032457565b5f5b8381106112d55750505f910152565b81810151838201526020016112c6565b81601f820112156103245780516112fb81611294565b926113096040519485611072565b818452602082840101116103245761132791602080850191016112c4565b90565b6001600160a01b0381165f908152600560205260409020829055611357916113523082611594565b611594565b565b908115611407575b80156113f5575b602090606460018060a01b035f805160206115fc8339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af19081156113ea575f916113bb575090565b90506020813d6020116113e2575b816113d660209383611072565b81010312610324575190565b3d91506113c9565b6040513d5f823e3d90fd5b50602061140061149b565b9050611368565b905061141161149b565b90611361565b90811561148b575b8015611479575b602090606460018060a01b035f805160206115fc8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af19081156113ea575f916113bb575090565b50602061148461149b565b9050611426565b905061149561149b565b9061141f565b5f805160206115fc83398151915254604051639cd07acb60e01b81525f60048201819052600560248301529091602091839160449183916001600160a01b03165af19081156113ea575f916113bb575090565b5f805160206115fc83398151915254604051639cd07acb60e01b81525f60048201819052600660248301529091602091839160449183916001600160a01b03165af19081156113ea575f916113bb575090565b5f805160206115fc833981519152546040516307227b9160e21b8152600481019290925260066024830152602090829060449082905f906001600160a01b03165af19081156113ea575f916113bb575090565b5f8051602061161c833981519152546001600160a01b031691823b1561032457604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156113ea576115f25750565b6113579061104a56fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c6343000818000a";
+
+type ReFiInfraRevenueDistributorFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ReFiInfraRevenueDistributorFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ReFiInfraRevenueDistributorFHE__factory extends ContractFactory {
+  constructor(...args: ReFiInfraRevenueDistributorFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    dao_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(dao_, overrides || {});
+  }
+  override deploy(
+    dao_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(dao_, overrides || {}) as Promise<
+      ReFiInfraRevenueDistributorFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): ReFiInfraRevenueDistributorFHE__factory {
+    return super.connect(runner) as ReFiInfraRevenueDistributorFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ReFiInfraRevenueDistributorFHEInterface {
+    return new Interface(_abi) as ReFiInfraRevenueDistributorFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ReFiInfraRevenueDistributorFHE {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as ReFiInfraRevenueDistributorFHE;
+  }
+}
@@ -0,0 +1,471 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  ReFiInfraSLAMonitorFHE,
+  ReFiInfraSLAMonitorFHEInterface,
+} from "../../../contracts/ReFi_Infra_SLA.sol/ReFiInfraSLAMonitorFHE";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract ReFiInfraDAOFHE",
+        name: "dao_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AlreadyReported",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatchStatus",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "MissingRole",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PausedError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayDetected",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ThresholdsNotSet",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "KpisReported",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "SlaBreached",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "passed",
+        type: "bool",
+      },
+    ],
+    name: "SlaCheckCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "updatedBy",
+        type: "address",
+      },
+    ],
+    name: "ThresholdsUpdated",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "checkContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "dao",
+    outputs: [
+      {
+        internalType: "contract ReFiInfraDAOFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "getKpis",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "uptimeMinutes",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "latencyBucket",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "getSlaStatus",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "reported",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "checked",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "passed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedUptimeMinutes",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedLatencyBucket",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "reportKpis",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "encryptedMinUptimeMinutes",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedMaxLatencyBucket",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "setThresholds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "slaCheckCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "thresholdsUpdatedAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a0346101b457601f61177438819003918201601f19168301916001600160401b038311848410176101b8578084926020946040528339810103126101b457516001600160a01b03811681036101b4575f606061005a6101cc565b82815282602082015282604082015201526100736101cc565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d59580602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497039182541617905560805260405161158890816101ec823960805181818161013d0152818161070201526107890152f35b5f80fd5b634e487b7160e01b5f52604160045260245ffd5b60405190608082016001600160401b038111838210176101b85760405256fe6080806040526004361015610012575f80fd5b5f905f3560e01c908163018a20df146110d15750806302dc089a146110b457806322da510d146107315780634162169f146106ec578063473255981461032057806385ddbaac146102c657806396e98577146100fa578063b3d45a14146100a05763da1f12ab14610081575f80fd5b3461009d578060031936011261009d5760206040516127118152f35b80fd5b503461009d57602036600319011261009d576040608091600435815260046020522080549060018060a01b036001820154169060ff6003600283015492015416916040519384526020840152604083015215156060820152f35b503461009d57606036600319011261009d5760443567ffffffffffffffff81116102c25761012c903690600401611135565b604051631d6c8e3f60e21b815260207f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168183600481845afa92831561028457869361028f575b50604051632474521560e21b815260048101849052336024820152908290829060449082905afa91821561028457869261024a575b50501561022a57506101f1916101e9916101d66101ce3683856111c9565b60043561125b565b6101e03082611412565b855536916111c9565b60243561125b565b6101fb3082611412565b60015542600255337fcee3ac74c79463467311b04b918360a7d050f18c9a6f24ff26bccd1e43344d968280a280f35b6040516301d4003760e61b81526004810191909152336024820152604490fd5b90809250813d831161027d575b61026181836111a7565b81010312610279576102729061122d565b5f806101b0565b8480fd5b503d610257565b6040513d88823e3d90fd5b9092508181813d83116102bb575b6102a781836111a7565b810103126102b75751915f61017b565b5f80fd5b503d61029d565b5080fd5b503461009d5760406102d73661110f565b929081526003602052209060018060a01b03165f52602052606060405f2060ff6005600383015415159201546040519283528181161515602084015260081c1615156040820152f35b503461009d57606036600319011261009d5767ffffffffffffffff6024358181116106e85761035390369060040161120f565b906044359081116106e85761036c90369060040161120f565b600435835260046020526040832060ff6003820154166106d657805484526003602052604084209060018060a01b0391826001830154165f5260205260405f20906103db6040516103bc8161118b565b600181526020368183013760028401546103d58261123a565b52611395565b6002820154036106c45760043586527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01806020526040872054156106b25760043587526020526040862093604051808660208298549384815201908a5260208a20928a5b818110610699575050610454925003866111a7565b85519485602001958660201161068557604001809611610671576040518088519760208a019880602084019061048a918c6113cc565b8201906020820152036020810182526040016104a690826111a7565b857f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970354169160405193849283926378542ead60e01b84526004840160609052606484016104f291611362565b838103600319016024850152610507916113ed565b82810360031901604484015261051c916113ed565b03818a5a94602095f1908115610666578791610628575b5015610616576020604051956004357f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d8980a280518101031261061257600561057d60019561122d565b928560ff19600385015416176003840155019283549215938585159461ff008660081b169061ffff191617179055815494859201541694859281527f58689af211ce08a8ea99eb596866061379e04fd354265d81a68247ade81b1f7a602060043592a46105e8578280f35b7fb8a19dfc2d4bd59853f074ade4e30132a83e4545b6a96860089575747a3ae6c98380a35f808280f35b8580fd5b60405163cf6c44e960e01b8152600490fd5b90506020813d60201161065e575b81610643602093836111a7565b8101031261065a576106549061122d565b5f610533565b8680fd5b3d9150610636565b6040513d89823e3d90fd5b634e487b7160e01b88526011600452602488fd5b634e487b7160e01b89526011600452602489fd5b845483526001948501948a94506020909301920161043f565b60405163d66ca67560e01b8152600490fd5b6040516313b304fb60e21b8152600490fd5b60405163faf8ed4f60e01b8152600490fd5b8280fd5b503461009d578060031936011261009d576040517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b50346102b75760803660031901126102b75760249067ffffffffffffffff6004356064358281116102b75761076a903690600401611135565b604051630930828d60e21b81526020966001600160a01b0393909290917f00000000000000000000000000000000000000000000000000000000000000008516908981600481855afa908115610d1e575f91611087575b50604051632474521560e21b8152600481018290523360248201528a81604481865afa908115610d1e575f91611052575b501561022a5750604051635c975abb60e01b81528981600481855afa908115610d1e575f9161101d575b5061100b5760025415610ff9576040518091632d62214160e11b825287600483015281866103609384935afa908115610d1e575f91610e63575b506040915001516005811015610e50578015159081610e44575b50610e3257845f526003885260405f20335f52885260405f209360038501928354610e20576108b96108c1916108b16108aa3687846111c9565b883561125b565b9436916111c9565b60443561125b565b5f5483908115610e10575b8015610e02575b8b5f8051602061155c83398151915291606486845416975f604051998a948593631391547f60e01b855260048501528d8401528160448401525af1948515610d1e575f95610dd3575b50600154908c88858615610dc5575b8415610db1575b6064905f898654166040519788958694631d44e90160e21b865260048601528401528160448401525af18015610d1e578d925f91610d82575b50808715610d6f575b869015610d5c575b606491925416965f604051988994859363d99882d560e01b855260048501528c8401528160448401525af1938415610d1e575f94610d29575b50806109f79394956109f09289558360018a01558660028a01554290556109dc3082611412565b6109e63084611412565b6109f03087611412565b3390611412565b60405195610a048761118b565b600187528887019289368537610a198861123a565b52610a2387611395565b927f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0090815498847f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b156102b757604051637d6e912360e11b8152600481018e9052905f908290818381610a9c818f0189611362565b03925af18015610d1e57610d0b575b50847f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b15610d07578b6040518092633263b83b60e01b82528d600483015260608b830152818381610b036064820189611362565b6308e64ab360e31b604483015203925af18015610cfc57908c91610ce4575b508a90527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808d5260408c2054610cd2578a8c528c5260408b20905191848311610cbf57680100000000000000008311610cbf578154838355838e8e838310610c95575b50505050908b528b8b208c8c5b848110610c8257505050505080545f198114610c6f576001019055604051936080850191821185831017610c5c5750600387969592946004948b89978c956040528984528782850192338452604086019485528a6060870198808a52525260408d2093518455600184019151166bffffffffffffffffffffffff60a01b825416179055516002820155019051151560ff801983541691161790550155604051937fc18c43b6eb6f2a268c3f4fdbb70e11abe2fdb2a874211a09ad3c6c3fd94de387339180a48152f35b634e487b7160e01b5f9081526041600452fd5b634e487b7160e01b8a526011600452858afd5b8351838201559201918d90600101610b93565b9190858352822092830192015b828110610cb257508e8591610b86565b6001918155018d90610ca2565b634e487b7160e01b8c526041600452878cfd5b604051633f06d22b60e01b8152600490fd5b610ced90611163565b610cf8578a5f610b22565b8a80fd5b6040513d8e823e3d90fd5b8b80fd5b610d16919b50611163565b5f995f610aab565b6040513d5f823e3d90fd5b909293508a81813d8311610d55575b610d4281836111a7565b810103126102b7575192916109f06109b5565b503d610d38565b60649150610d6861150f565b915061097c565b965085610d7a61150f565b979050610974565b83819492503d8311610daa575b610d9981836111a7565b810103126102b7578c91515f61096b565b503d610d8f565b93506064610dbd61148e565b949050610932565b50610dce61148e565b61092b565b9094508b81813d8311610dfb575b610deb81836111a7565b810103126102b75751935f61091c565b503d610de1565b50610e0b61148e565b6108d3565b9350610e1a61148e565b936108cc565b60405163770c15e360e01b8152600490fd5b604051633d84158f60e21b8152600490fd5b6001915014155f610870565b83634e487b7160e01b5f5260216004525ffd5b80915082813d8311610ff2575b610e7a81836111a7565b810103126102b75760405190810181811089821117610fdf5760405281518152898201518a820152604082015160058110156102b7576040820152606082015160608201526080820151608082015260a082015160a082015260c082015160c082015260e082015160e0820152610100808301519082015261012080830151908201526101408083015190820152610160808301519082015261018080830151908201526101a080830151908201526101c080830151908201526101e080830151908201526102008083015190820152610220610f5881840161122d565b90820152610240610f6a81840161122d565b90820152610260610f7c81840161122d565b90820152610280918281015189811681036102b7576040938301526102a080820151908301526102c080820151908301526102e080820151908301526103008082015190830152610320808201519083015261034080910151908201525f610856565b85634e487b7160e01b5f5260416004525ffd5b503d610e70565b60405163abc61e8d60e01b8152600490fd5b604051633b3b4caf60e21b8152600490fd5b90508981813d831161104b575b61103481836111a7565b810103126102b7576110459061122d565b5f61081c565b503d61102a565b90508a81813d8311611080575b61106981836111a7565b810103126102b75761107a9061122d565b5f6107f2565b503d61105f565b90508981813d83116110ad575b61109e81836111a7565b810103126102b757515f6107c1565b503d611094565b346102b7575f3660031901126102b7576020600254604051908152f35b346102b7576040906110e23661110f565b905f526003602052825f209060018060a01b03165f52602052815f20600181549101549082526020820152f35b60409060031901126102b757600435906024356001600160a01b03811681036102b75790565b9181601f840112156102b75782359167ffffffffffffffff83116102b757602083818601950101116102b757565b67ffffffffffffffff811161117757604052565b634e487b7160e01b5f52604160045260245ffd5b6040810190811067ffffffffffffffff82111761117757604052565b90601f8019910116810190811067ffffffffffffffff82111761117757604052565b92919267ffffffffffffffff821161117757604051916111f3601f8201601f1916602001846111a7565b8294818452818301116102b7578281602093845f960137010152565b9080601f830112156102b75781602061122a933591016111c9565b90565b519081151582036102b757565b8051156112475760200190565b634e487b7160e01b5f52603260045260245ffd5b60206112ab9260018060a01b0392835f8051602061155c8339815191525416905f60405180978195829463196d0b9b60e01b845260048401523360248401526080604484015260848301906113ed565b6004606483015203925af1918215610d1e575f9261132e575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b156102b757604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af18015610d1e57611325575090565b61122a90611163565b9091506020813d60201161135a575b8161134a602093836111a7565b810103126102b75751905f6112c4565b3d915061133d565b9081518082526020808093019301915f5b828110611381575050505090565b835185529381019392810192600101611373565b6040516113c6816113b26020820194604086526060830190611362565b30604083015203601f1981018352826111a7565b51902090565b5f5b8381106113dd5750505f910152565b81810151838201526020016113ce565b90602091611406815180928185528580860191016113cc565b601f01601f1916010190565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b156102b757604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610d1e576114835750565b61148c90611163565b565b5f8051602061155c83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610d1e575f916114e0575090565b90506020813d602011611507575b816114fb602093836111a7565b810103126102b7575190565b3d91506114ee565b5f602060018060a01b035f8051602061155c8339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115610d1e575f916114e057509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type ReFiInfraSLAMonitorFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ReFiInfraSLAMonitorFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ReFiInfraSLAMonitorFHE__factory extends ContractFactory {
+  constructor(...args: ReFiInfraSLAMonitorFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    dao_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(dao_, overrides || {});
+  }
+  override deploy(
+    dao_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(dao_, overrides || {}) as Promise<
+      ReFiInfraSLAMonitorFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): ReFiInfraSLAMonitorFHE__factory {
+    return super.connect(runner) as ReFiInfraSLAMonitorFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ReFiInfraSLAMonitorFHEInterface {
+    return new Interface(_abi) as ReFiInfraSLAMonitorFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ReFiInfraSLAMonitorFHE {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as ReFiInfraSLAMonitorFHE;
+  }
+}
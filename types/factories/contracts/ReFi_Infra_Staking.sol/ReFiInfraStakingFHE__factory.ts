@@ -0,0 +1,754 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  BigNumberish,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  ReFiInfraStakingFHE,
+  ReFiInfraStakingFHEInterface,
+} from "../../../contracts/ReFi_Infra_Staking.sol/ReFiInfraStakingFHE";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract ReFiInfraDAOFHE",
+        name: "dao_",
+        type: "address",
+      },
+      {
+        internalType: "contract ReFiInfraGovernorFHE",
+        name: "governor_",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "minimumStake_",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "challengeBond_",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "challengeWindow_",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "unbondingPeriod_",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "slashBps_",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "challengeVotingPeriod_",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "challengeQuorum_",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "ChallengeNotOpen",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ChallengeNotResolvable",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ChallengeWindowClosed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "IncorrectBond",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidChallengeId",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidParameters",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoUsageReported",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotDAO",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NothingStaked",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StakeLocked",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TransferFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "Unbonding",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ZeroStake",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ChallengeDismissed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "challenger",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+    ],
+    name: "ChallengeOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "slashedAmount",
+        type: "uint256",
+      },
+    ],
+    name: "ChallengeUpheld",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "totalStake",
+        type: "uint256",
+      },
+    ],
+    name: "Staked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "unlockAt",
+        type: "uint256",
+      },
+    ],
+    name: "UnstakeRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "Unstaked",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "CHALLENGE_RESOLUTION_PERIOD",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "challengeBond",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "challengeCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "challengeQuorum",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "challengeVotingPeriod",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "challengeWindow",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "challenges",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "challenger",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "bond",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "openedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "proposalId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum ReFiInfraStakingFHE.ChallengeStatus",
+        name: "status",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "dao",
+    outputs: [
+      {
+        internalType: "contract ReFiInfraDAOFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "getUsageBatches",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "governor",
+    outputs: [
+      {
+        internalType: "contract ReFiInfraGovernorFHE",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "isStaked",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "isUsageFinal",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "minimumStake",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "openChallenge",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "openChallengesByBatch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "recordUsage",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "requestUnstake",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "challengeId",
+        type: "uint256",
+      },
+    ],
+    name: "resolveChallenge",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "slashBps",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "stake",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "stakes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "unlockAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "openChallenges",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unbondingPeriod",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "withdrawStake",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6101a034620001be57620018d138819003601f8101601f191683016001600160401b03811184821017620001c25783928291604052833961012091829181010312620001be5781516001600160a01b038082168203620001be5760208401519081168103620001be5760408401516060850151608086015160a08701519160c08801519360e089015195610100809a0151976127108711620001955787158015620001b0575b8015620001a7575b620001955760805260a05260c05260e05286528452610140908152610160918252610180928352604051936116fa9586620001d7873960805186818161053b01528181610e4501528181610f4701528181610ff70152611468015260a0518681816107ab01528181610b1701526111f4015260c0518681816101d80152610df8015260e0518681816105130152610ef10152518581816104c70152818161058f01528181610f8c015261150101525184818161014d0152610d8d015251838181610b75015261123a015251828181610212015261075701525181818161077c01526110b10152f35b604051630e52390960e41b8152600490fd5b508815620000ad565b5062127500881015620000a5565b5f80fd5b634e487b7160e01b5f52604160045260245ffdfe6080604081815260049182361015610015575f80fd5b5f3560e01c908163038ca6441461125d575080630681e651146112235780630c340a24146111e05780630fb3ed951461113d57806316934fc4146110f1578063187109ec146110d457806326d5abc91461109a5780633a4b66f1146110265780634162169f14610fe3578063425b0f3314610f145780635230515114610eda5780635be38fc014610e215780636177fd1814610db05780636cf6d67514610d76578063761c7cfe14610a8957806380939806146104ea578063861a1412146104b05780638f1d37761461041d578063a2f05725146103ff578063bed9d86114610235578063cd69808e146101fb578063ec5ffac2146101c15763fc63958e1461011c575f80fd5b346101bd575f3660031901126101bd57335f525f602052805f208054156101af576001019182546101a157506101727f0000000000000000000000000000000000000000000000000000000000000000426112cd565b809255519081527f828764c21e74c28710e19919735825aba966621c95cbd913f8ed65a2d298f48c60203392a2005b9051636ed1af2160e01b8152fd5b5051639fe7bfd960e01b8152fd5b5f80fd5b50346101bd575f3660031901126101bd57602090517f00000000000000000000000000000000000000000000000000000000000000008152f35b50346101bd575f3660031901126101bd57602090517f00000000000000000000000000000000000000000000000000000000000000008152f35b5090346101bd575f3660031901126101bd57335f525f602052815f20908154156103f157600182015480159081156103e7575b506102d0576002820154158015906102de575b6102d057505490335f525f6020525f600282822082815582600182015501556102a48233611401565b519081527f0f5bb82176feb1b5e747e28471aa92156a04d9f3ab9f45f28e2d704232b93f7560203392a2005b8251630a68850160e11b8152fd5b50335f526001602052825f208054805b6102fb575054151561027b565b5f198181018281116103d45790816103166103249386611381565b939054600394851b1c61144f565b61033b575b505050610335906113d9565b806102ee565b84548281019081116103c1579061036561035861037d9388611381565b905490861b1c9187611381565b90919082549060031b91821b915f19901b1916179055565b835480156103ae57908061033594939201916103998387611381565b81939154921b1b191690558355905f80610329565b603186634e487b7160e01b5f525260245ffd5b601187634e487b7160e01b5f525260245ffd5b601185634e487b7160e01b5f525260245ffd5b905042105f610268565b8251639fe7bfd960e01b8152fd5b50346101bd575f3660031901126101bd576020906002549051908152f35b50346101bd5760203660031901126101bd5781355f526003602052805f209081549160018060a01b03918260018301541692600283015416600383015490868401549260ff600660058701549601541695815197885260208801528601526060850152608084015260a08301528281101561049d5760e0925060c0820152f35b602183634e487b7160e01b5f525260245ffd5b50346101bd575f3660031901126101bd57602090517f00000000000000000000000000000000000000000000000000000000000000008152f35b50806003193601126101bd576024906001600160a01b038235818116918535918390036101bd577f00000000000000000000000000000000000000000000000000000000000000003403610a7957807f0000000000000000000000000000000000000000000000000000000000000000169584516338e98a2960e01b8152838282015260c08188818b5afa908115610a32576105b49160a0915f91610a4a575b5001517f0000000000000000000000000000000000000000000000000000000000000000906112cd565b421015610a3c5784518097635e7ccbe960e01b82528483830152858883015281604460209a8b935afa908115610a32575f916109fd575b50156109ef57835f525f8752845f2054156109e15761060b6002546113aa565b9586600255869288885f7a184f03e93ff9f4daa797ed6e38ed64bf6a1f010000000000000000808c10156109d5575b50826d04ee2d6d415b85acef8100000000808410156109c9575b5050662386f26fc10000808310156109bc575b506305f5e100808310156109af575b5085612710808410156109a3575b50506064821015610995575b600a8092101561098d575b896001979260018301986106c66106b18b6113e5565b9a6106be85519c8d611297565b808c526113e5565b94816021888d0196601f198099013689378d0101905b610958575b505050506107559261072a602a6931b430b63632b733b29d60b11b9a60849561071a95519586928a84019e8f52518092858501906113b8565b810103600a810185520183611297565b601f8c51998a9586946357308f3d60e11b865260608c870152518092816064880152878701906113b8565b7f0000000000000000000000000000000000000000000000000000000000000000898501527f00000000000000000000000000000000000000000000000000000000000000006044850152011681010301815f857f0000000000000000000000000000000000000000000000000000000000000000165af193841561094e575f9461091f575b5086519060e0820182811067ffffffffffffffff82111761090d5791858a8c8b6006956001989782528b8652828601908d8252828701923384526003606089019534875260808a019742895260a08b01998a5260c08b019d8e525f52525f20965187558060018801925116916bffffffffffffffffffffffff60a01b92838254161790556002870192511690825416179055516003840155518683015551600582015501915190838210156108fb5750927f2d86606694bdd5a66fa81de5c830f81c5430f7180c0a90e9b4085c18689f456d928792899560ff80198354169116179055865f525f8a526002835f20016108d481546113aa565b9055855f528952815f206108e881546113aa565b905581519033825289820152a451908152f35b634e487b7160e01b5f90815260218552fd5b83604186634e487b7160e01b5f52525ffd5b9093508881813d8311610947575b6109378183611297565b810103126101bd5751925f6107db565b503d61092d565b87513d5f823e3d90fd5b5f19019083906f181899199a1a9b1b9c1cb0b131b232b360811b8282061a835304918215610988579190826106dc565b6106e1565b60010161069b565b906064600291049101610690565b9092049101855f610684565b600891920491015f610676565b601091920491015f610667565b9092049101825f610654565b9150508904885f61063a565b8451639fe7bfd960e01b8152fd5b845163189bd60960e11b8152fd5b90508781813d8311610a2b575b610a148183611297565b810103126101bd57610a25906112ee565b5f6105eb565b503d610a0a565b86513d5f823e3d90fd5b8451631588dee160e11b8152fd5b610a6c915060c03d60c011610a72575b610a648183611297565b810190611310565b5f61058a565b503d610a5a565b8351630fb99e0760e11b81528690fd5b50346101bd576020806003193601126101bd5782359081158015610d6b575b610d5c57815f5260038152825f2093600685019360ff8554168281101561049d57600103610d4f5760058601549460018060a01b03908160018901541696875f525f86526002845f2001610afc81546113d9565b905588545f52848652835f20610b1281546113d9565b9055827f000000000000000000000000000000000000000000000000000000000000000016908451638702038d60e01b815281878201528781602481865afa908115610a32575f91610d1a575b5015610c20575050865f525f8552825f208054907f00000000000000000000000000000000000000000000000000000000000000008083029083820414831517156103c157612710900495868303928311610c0d57506003610c06947f7427d331007dabae572e4e6952ed04a78fdc4f01c6358815967cfcea2a006977999a9b94610c0094899455600260ff198254161790556002850154169301546112cd565b90611401565b51908152a3005b601190634e487b7160e01b5f525260245ffd5b8693506024859a98999a97929397518094819363076ed71f60e01b8352898301525afa918215610d10575f92610cda575b50508015610cad575b15610ca0575050610c7a916003918260ff19825416179055015483611401565b7fb8294972de5131945984f1b38ea5f302fb4fdb7aba6df70e3422d243b3cc48335f80a3005b5163df601da360e01b8152fd5b5081840154621275008101809111610cc757421015610c5a565b601183634e487b7160e01b5f525260245ffd5b90809250813d8311610d09575b610cf18183611297565b810103126101bd57610d02906112ee565b5f80610c51565b503d610ce7565b83513d5f823e3d90fd5b90508781813d8311610d48575b610d318183611297565b810103126101bd57610d42906112ee565b5f610b5f565b503d610d27565b516323077b5160e21b8152fd5b5050516331a397b960e01b8152fd5b506002548211610aa8565b50346101bd575f3660031901126101bd57602090517f00000000000000000000000000000000000000000000000000000000000000008152f35b50346101bd5760203660031901126101bd576020906001600160a01b03610dd5611281565b165f525f8252805f20906001820154159182610df5575b50519015158152f35b547f00000000000000000000000000000000000000000000000000000000000000001115915083610dec565b50346101bd57806003193601126101bd57610e3a611281565b6001600160a01b03907f000000000000000000000000000000000000000000000000000000000000000082163303610ecb57165f5260016020525f2080549168010000000000000000831015610eb857610eb6610e9d8484600182018155611381565b6024359082549060031b91821b915f19901b1916179055565b005b604190634e487b7160e01b5f525260245ffd5b5050516327568d2f60e11b8152fd5b50346101bd575f3660031901126101bd57602090517f00000000000000000000000000000000000000000000000000000000000000008152f35b50346101bd5760203660031901126101bd5780516338e98a2960e01b81528235818401819052909290919060c0846024817f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03165afa938415610fd95760a0602095610fb1925f91610a4a575001517f0000000000000000000000000000000000000000000000000000000000000000906112cd565b4210159283610fc5575b5050519015158152f35b5f9081529084528181205415925080610fbb565b82513d5f823e3d90fd5b50346101bd575f3660031901126101bd57517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b505f3660031901126101bd57341561108d57335f525f602052805f209160018301546101a157507f1449c6dd7851abc30abf37f57715f492010519147cc2652fbc38202c18a6ee909061107a3484546112cd565b80935580519234845260208401523392a2005b5163150a67e960e01b8152fd5b50346101bd575f3660031901126101bd57602090517f00000000000000000000000000000000000000000000000000000000000000008152f35b50346101bd575f3660031901126101bd5760209051621275008152f35b50346101bd5760203660031901126101bd576060906001600160a01b03611116611281565b165f525f602052805f20805491600260018301549201549181519384526020840152820152f35b50346101bd57602090816003193601126101bd576001600160a01b03611161611281565b165f526001808352815f209282518082865491828152019081965f52835f20905f5b8181106111cd5750505081611199910382611297565b8351938285019183865251809252840194915f5b8281106111ba5785870386f35b83518752958101959281019284016111ad565b8254845292850192918601918601611183565b50346101bd575f3660031901126101bd57517f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168152602090f35b50346101bd575f3660031901126101bd57602090517f00000000000000000000000000000000000000000000000000000000000000008152f35b919050346101bd5760203660031901126101bd5782602093355f5283525f20548152f35b600435906001600160a01b03821682036101bd57565b90601f8019910116810190811067ffffffffffffffff8211176112b957604052565b634e487b7160e01b5f52604160045260245ffd5b919082018092116112da57565b634e487b7160e01b5f52601160045260245ffd5b519081151582036101bd57565b519067ffffffffffffffff821682036101bd57565b908160c09103126101bd576040519060c082019082821067ffffffffffffffff8311176112b95760a091604052805183526020810151602084015260408101516040840152611361606082016112ee565b6060840152611372608082016112fb565b6080840152015160a082015290565b8054821015611396575f5260205f2001905f90565b634e487b7160e01b5f52603260045260245ffd5b5f1981146112da5760010190565b5f5b8381106113c95750505f910152565b81810151838201526020016113ba565b80156112da575f190190565b67ffffffffffffffff81116112b957601f01601f191660200190565b5f80809381935af13d1561144a573d611419816113e5565b906114276040519283611297565b81525f60203d92013e5b1561143857565b6040516312171d8360e31b8152600490fd5b611431565b60408051632d62214160e11b81526004810183905290917f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031691610360908181602481875afa9182156116e357908592915f92611559575b505001516005811015611545576004811461153c576003036115355760c09060248451809481936338e98a2960e01b835260048301525afa91821561152c57506115269160a0915f91610a4a575001517f0000000000000000000000000000000000000000000000000000000000000000906112cd565b42101590565b513d5f823e3d90fd5b5050505f90565b50505050600190565b634e487b7160e01b5f52602160045260245ffd5b915091508082813d83116116dc575b6115728183611297565b810103126101bd57845190810181811067ffffffffffffffff8211176112b95785528151815260208201516020820152848201519160058310156101bd57859283830152606081015160608301526080810151608083015260a081015160a083015260c081015160c083015260e081015160e0830152610100808201519083015261012080820151908301526101408082015190830152610160808201519083015261018080820151908301526101a080820151908301526101c080820151908301526101e0808201519083015261020080820151908301526102206116598183016112ee565b9083015261024061166b8183016112ee565b9083015261026061167d8183016112ee565b9083015261028061168f8183016112fb565b908301526102a080820151908301526102c080820151908301526102e080820151908301526103008082015190830152610320808201519083015261034080910151908201525f806114af565b503d611568565b85513d5f823e3d90fdfea164736f6c6343000818000a";
+
+type ReFiInfraStakingFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ReFiInfraStakingFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ReFiInfraStakingFHE__factory extends ContractFactory {
+  constructor(...args: ReFiInfraStakingFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    dao_: AddressLike,
+    governor_: AddressLike,
+    minimumStake_: BigNumberish,
+    challengeBond_: BigNumberish,
+    challengeWindow_: BigNumberish,
+    unbondingPeriod_: BigNumberish,
+    slashBps_: BigNumberish,
+    challengeVotingPeriod_: BigNumberish,
+    challengeQuorum_: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(
+      dao_,
+      governor_,
+      minimumStake_,
+      challengeBond_,
+      challengeWindow_,
+      unbondingPeriod_,
+      slashBps_,
+      challengeVotingPeriod_,
+      challengeQuorum_,
+      overrides || {}
+    );
+  }
+  override deploy(
+    dao_: AddressLike,
+    governor_: AddressLike,
+    minimumStake_: BigNumberish,
+    challengeBond_: BigNumberish,
+    challengeWindow_: BigNumberish,
+    unbondingPeriod_: BigNumberish,
+    slashBps_: BigNumberish,
+    challengeVotingPeriod_: BigNumberish,
+    challengeQuorum_: BigNumberish,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(
+      dao_,
+      governor_,
+      minimumStake_,
+      challengeBond_,
+      challengeWindow_,
+      unbondingPeriod_,
+      slashBps_,
+      challengeVotingPeriod_,
+      challengeQuorum_,
+      overrides || {}
+    ) as Promise<
+      ReFiInfraStakingFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): ReFiInfraStakingFHE__factory {
+    return super.connect(runner) as ReFiInfraStakingFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ReFiInfraStakingFHEInterface {
+    return new Interface(_abi) as ReFiInfraStakingFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ReFiInfraStakingFHE {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as ReFiInfraStakingFHE;
+  }
+}
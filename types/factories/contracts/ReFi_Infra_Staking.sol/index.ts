@@ -0,0 +1,4 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { ReFiInfraStakingFHE__factory } from "./ReFiInfraStakingFHE__factory";
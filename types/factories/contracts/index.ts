@@ -2,3 +2,12 @@
 /* tslint:disable */
 /* eslint-disable */
 export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export * as reFiInfraDaoSol from "./ReFi_Infra_DAO.sol";
+export * as reFiInfraGovernorSol from "./ReFi_Infra_Governor.sol";
+export { ConfidentialTokenMock__factory } from "./ConfidentialTokenMock__factory";
+export { IConfidentialToken__factory } from "./IConfidentialToken__factory";
+export * as reFiInfraRevenueSol from "./ReFi_Infra_Revenue.sol";
+export * as reFiInfraStakingSol from "./ReFi_Infra_Staking.sol";
+export { IProviderStaking__factory } from "./IProviderStaking__factory";
+export * as reFiInfraDeviceRegistrySol from "./ReFi_Infra_DeviceRegistry.sol";
+export * as reFiInfraSlaSol from "./ReFi_Infra_SLA.sol";
@@ -3,3 +3,4 @@
 /* eslint-disable */
 export * as fhevm from "./@fhevm";
 export * as contracts from "./contracts";
+export * as openzeppelin from "./@openzeppelin";
@@ -24,3 +24,35 @@ export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifi
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
 export type { UniversalAdapter } from "./contracts/UniversalAdapter";
 export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";
+export type { ReFiInfraDAOFHE } from "./contracts/ReFi_Infra_DAO.sol/ReFiInfraDAOFHE";
+export { ReFiInfraDAOFHE__factory } from "./factories/contracts/ReFi_Infra_DAO.sol/ReFiInfraDAOFHE__factory";
+export type { ReFiInfraGovernorFHE } from "./contracts/ReFi_Infra_Governor.sol/ReFiInfraGovernorFHE";
+export { ReFiInfraGovernorFHE__factory } from "./factories/contracts/ReFi_Infra_Governor.sol/ReFiInfraGovernorFHE__factory";
+export type { ConfidentialTokenMock } from "./contracts/ConfidentialTokenMock";
+export { ConfidentialTokenMock__factory } from "./factories/contracts/ConfidentialTokenMock__factory";
+export type { IConfidentialToken } from "./contracts/IConfidentialToken";
+export { IConfidentialToken__factory } from "./factories/contracts/IConfidentialToken__factory";
+export type { ReFiInfraRevenueDistributorFHE } from "./contracts/ReFi_Infra_Revenue.sol/ReFiInfraRevenueDistributorFHE";
+export { ReFiInfraRevenueDistributorFHE__factory } from "./factories/contracts/ReFi_Infra_Revenue.sol/ReFiInfraRevenueDistributorFHE__factory";
+export type { IProviderStaking } from "./contracts/IProviderStaking";
+export { IProviderStaking__factory } from "./factories/contracts/IProviderStaking__factory";
+export type { ReFiInfraStakingFHE } from "./contracts/ReFi_Infra_Staking.sol/ReFiInfraStakingFHE";
+export { ReFiInfraStakingFHE__factory } from "./factories/contracts/ReFi_Infra_Staking.sol/ReFiInfraStakingFHE__factory";
+export type { ReFiInfraDeviceRegistryFHE } from "./contracts/ReFi_Infra_DeviceRegistry.sol/ReFiInfraDeviceRegistryFHE";
+export { ReFiInfraDeviceRegistryFHE__factory } from "./factories/contracts/ReFi_Infra_DeviceRegistry.sol/ReFiInfraDeviceRegistryFHE__factory";
+import type * as openzeppelin from "./@openzeppelin";
+export type { openzeppelin };
+export type { IERC5267 } from "./@openzeppelin/contracts/interfaces/IERC5267";
+export { IERC5267__factory } from "./factories/@openzeppelin/contracts/interfaces/IERC5267__factory";
+export type { ECDSA } from "./@openzeppelin/contracts/utils/cryptography/ECDSA";
+export { ECDSA__factory } from "./factories/@openzeppelin/contracts/utils/cryptography/ECDSA__factory";
+export type { EIP712 } from "./@openzeppelin/contracts/utils/cryptography/EIP712";
+export { EIP712__factory } from "./factories/@openzeppelin/contracts/utils/cryptography/EIP712__factory";
+export type { SafeCast } from "./@openzeppelin/contracts/utils/math/SafeCast";
+export { SafeCast__factory } from "./factories/@openzeppelin/contracts/utils/math/SafeCast__factory";
+export type { ShortStrings } from "./@openzeppelin/contracts/utils/ShortStrings";
+export { ShortStrings__factory } from "./factories/@openzeppelin/contracts/utils/ShortStrings__factory";
+export type { Strings } from "./@openzeppelin/contracts/utils/Strings";
+export { Strings__factory } from "./factories/@openzeppelin/contracts/utils/Strings__factory";
+export type { ReFiInfraSLAMonitorFHE } from "./contracts/ReFi_Infra_SLA.sol/ReFiInfraSLAMonitorFHE";
+export { ReFiInfraSLAMonitorFHE__factory } from "./factories/contracts/ReFi_Infra_SLA.sol/ReFiInfraSLAMonitorFHE__factory";